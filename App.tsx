@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   BookOpen, 
   Cpu, 
@@ -16,7 +16,13 @@ import {
   Settings,
   BarChart3,
   Network,
-  ShieldAlert
+  ShieldAlert,
+  Workflow,
+  Coins,
+  GitCompare,
+  Grid3x3,
+  KeyRound,
+  Droplets
 } from 'lucide-react';
 import { 
   LineChart, 
@@ -27,7 +33,57 @@ import {
   Tooltip, 
   ResponsiveContainer, 
 } from 'recharts';
-import { Phase, SimulationStats } from './types';
+import { Phase, Scenario, SimState, SimulationStats } from './types';
+import { ContentCard, CodeBlock, ParamSlider, StatTile } from './components/ui';
+import { BacktestView } from './components/BacktestView';
+import { MultiAssetView } from './components/MultiAssetView';
+import { OrderSigningView } from './components/OrderSigningView';
+import { ComparisonView } from './components/ComparisonView';
+import { AmmView } from './components/AmmView';
+import { SweepView } from './components/SweepView';
+import { ArchitectureView } from './components/ArchitectureView';
+import { DepthLadder } from './components/DepthLadder';
+import { RiskPanel } from './components/RiskPanel';
+import { FeePanel } from './components/FeePanel';
+import { LatencyPanel } from './components/LatencyPanel';
+import { OrderGatewayPanel } from './components/OrderGatewayPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { distanceTone, formatDistance, MarginBar, MarginPanel } from './components/MarginPanel';
+import { ScenarioPanel } from './components/ScenarioPanel';
+import { LiveFeedPanel } from './components/LiveFeedPanel';
+import { MarketModelPanel } from './components/MarketModelPanel';
+import { ReplayStatus, RunsPanel } from './components/RunsPanel';
+import { BlotterPanel } from './components/BlotterPanel';
+import { StatsPanel } from './components/StatsPanel';
+import { StrategyControls } from './components/StrategyControls';
+import { createRng, Rng } from './engine/rng';
+import {
+  applyStepToStats,
+  createInitialSimState,
+  createInitialStats,
+  DEFAULT_SIM_CONFIG,
+  FillModel,
+  HitModel,
+  markToMarketPnl,
+  SimConfig,
+  StepResult
+} from './engine/simulation';
+import { ChartPoint, chartPoint, Session, SimWorkerMessage, SimWorkerRequest, Speed, SPEEDS } from './engine/playback';
+import { StrategyConfig } from './engine/strategies';
+import { myOrders, queueAhead } from './engine/orderBook';
+import { canQuoteAsk, canQuoteBid, resetKillSwitch, RiskLimits } from './engine/risk';
+import { FeeSchedule, FundingConfig } from './engine/fees';
+import { LatencyConfig } from './engine/latency';
+import { MarketConfig } from './engine/marketModels';
+import { RateLimitConfig } from './engine/orderGateway';
+import { CalibrationConfig, calibrationTruth } from './engine/calibration';
+import { MarginConfig, marginSnapshot } from './engine/margin';
+import { SCENARIOS, startScenario } from './engine/scenarios';
+import { RunRecord } from './engine/runs';
+import { Blotter, createBlotter, recordFills } from './engine/blotter';
+import { saveRun } from './engine/runStore';
+import { stepTradeTick, TapeTick } from './engine/backtest';
+import { BookSnapshot, snapshotToBook } from './engine/hyperliquid';
 
 // --- Components ---
 
@@ -57,34 +113,6 @@ const NavItem = ({
   </button>
 );
 
-const ContentCard = ({ title, children, className = "" }: { title: string, children?: React.ReactNode, className?: string }) => (
-  <div className={`bg-hl-card border border-hl-border rounded-xl p-6 mb-6 ${className}`}>
-    <h3 className="text-xl font-bold text-white mb-4 flex items-center">
-      <span className="bg-gradient-to-r from-hl-green to-hl-blue w-2 h-6 mr-3 rounded-sm"></span>
-      {title}
-    </h3>
-    <div className="text-gray-300 leading-relaxed space-y-4">
-      {children}
-    </div>
-  </div>
-);
-
-const CodeBlock = ({ code, language = 'rust' }: { code: string; language?: string }) => (
-  <div className="bg-[#0d0e11] border border-hl-border rounded-lg overflow-hidden my-4 shadow-lg">
-    <div className="flex justify-between items-center px-4 py-2 bg-[#1a1c23] border-b border-hl-border">
-      <span className="text-xs text-gray-400 font-mono uppercase">{language}</span>
-      <div className="flex space-x-2">
-        <div className="w-2 h-2 rounded-full bg-hl-red/50"></div>
-        <div className="w-2 h-2 rounded-full bg-yellow-500/50"></div>
-        <div className="w-2 h-2 rounded-full bg-hl-green/50"></div>
-      </div>
-    </div>
-    <pre className="p-4 overflow-x-auto text-sm font-mono text-gray-300 scrollbar-thin scrollbar-thumb-hl-border scrollbar-track-transparent">
-      <code>{code}</code>
-    </pre>
-  </div>
-);
-
 // --- Logic & Data ---
 
 const RUST_PRODUCTION_CODE = `// Hyperliquid HFT Core Engine (Rust)
@@ -174,128 +202,238 @@ async fn process_tick(data: &str, state: Arc<Mutex<StrategyState>>) {
     // 5. 异步发送下单请求 (Reqwest / Hyper)
 }`;
 
-// --- Simulation Types ---
-
-interface SimState {
-    midPrice: number;
-    reservationPrice: number; // The bot's internal "fair value"
-    inventory: number;
-    cash: number;
-    myBid: number;
-    myAsk: number;
-}
-
-const INITIAL_PRICE = 1000;
-const INITIAL_CASH = 10000;
-
 // --- Main Application ---
 
+// Chart points kept on screen; at higher speeds each point is one frame, so the window covers more sim time
+const CHART_WINDOW = 120;
+
 const App: React.FC = () => {
   const [activePhase, setActivePhase] = useState<Phase>(Phase.Theory);
   
   // Simulation Configuration
   const [simRunning, setSimRunning] = useState(false);
-  const [riskAversion, setRiskAversion] = useState(0.1); // Gamma
+  const [strategy, setStrategy] = useState<StrategyConfig>(DEFAULT_SIM_CONFIG.strategy);
   const [volatility, setVolatility] = useState(0.5); // Sigma
+  const [strategySigma, setStrategySigma] = useState<number | undefined>(DEFAULT_SIM_CONFIG.strategyVolatility); // unset = follows σ
+  const [arrivalA, setArrivalA] = useState(DEFAULT_SIM_CONFIG.arrivalA);
+  const [arrivalK, setArrivalK] = useState(DEFAULT_SIM_CONFIG.arrivalK);
+  const [fillModel, setFillModel] = useState<FillModel>(DEFAULT_SIM_CONFIG.fillModel);
+  const [hitModel, setHitModel] = useState<HitModel>(DEFAULT_SIM_CONFIG.hitModel);
+  const [riskLimits, setRiskLimits] = useState<RiskLimits>(DEFAULT_SIM_CONFIG.risk);
+  const [fees, setFees] = useState<FeeSchedule>(DEFAULT_SIM_CONFIG.fees);
+  const [funding, setFunding] = useState<FundingConfig>(DEFAULT_SIM_CONFIG.funding);
+  const [latency, setLatency] = useState<LatencyConfig>(DEFAULT_SIM_CONFIG.latency);
+  const [market, setMarket] = useState<MarketConfig>(DEFAULT_SIM_CONFIG.market);
+  const [rateLimit, setRateLimit] = useState<RateLimitConfig>(DEFAULT_SIM_CONFIG.rateLimit);
+  const [calibration, setCalibration] = useState<CalibrationConfig>(DEFAULT_SIM_CONFIG.calibration);
+  const [margin, setMargin] = useState<MarginConfig>(DEFAULT_SIM_CONFIG.margin);
+  const simConfig = useMemo<SimConfig>(
+    () => ({
+      ...DEFAULT_SIM_CONFIG,
+      strategy,
+      volatility,
+      strategyVolatility: strategySigma,
+      arrivalA,
+      arrivalK,
+      fillModel,
+      hitModel,
+      risk: riskLimits,
+      fees,
+      funding,
+      latency,
+      market,
+      rateLimit,
+      calibration,
+      margin
+    }),
+    [strategy, volatility, strategySigma, arrivalA, arrivalK, fillModel, hitModel, riskLimits, fees, funding, latency, market, rateLimit, calibration, margin]
+  );
   
-  // Simulation State
-  const [simState, setSimState] = useState<SimState>({
-    midPrice: INITIAL_PRICE,
-    reservationPrice: INITIAL_PRICE,
-    inventory: 0,
-    cash: INITIAL_CASH,
-    myBid: 999.5,
-    myAsk: 1000.5
-  });
+  const [seed, setSeed] = useState(42);
+  const [scenarios, setScenarios] = useState<Scenario[]>(SCENARIOS);
   
-  const [marketData, setMarketData] = useState<any[]>([]);
-  const [stats, setStats] = useState<SimulationStats>({ pnl: 0, trades: 0, volume: 0, latency: 0 });
+  // Simulation State. The random walk is stepped in a Web Worker that posts one batch per frame; simRef/statsRef
+  // mirror the latest batch (and are the source of truth while the live feed drives steps on this thread).
+  const workerRef = useRef<Worker | null>(null);
+  const simRef = useRef<SimState>(createInitialSimState());
+  const statsRef = useRef<SimulationStats>(createInitialStats());
+  const blotterRef = useRef<Blotter>(createBlotter());
+  const rngRef = useRef<Rng>(createRng(seed));
+  const [simState, setSimState] = useState<SimState>(simRef.current);
+  const [speed, setSpeed] = useState<Speed>(1);
+  const [tickRate, setTickRate] = useState(0);
+  
+  const [marketData, setMarketData] = useState<ChartPoint[]>([]);
+  const [stats, setStats] = useState<SimulationStats>(createInitialStats());
+  const [blotter, setBlotter] = useState<Blotter>(blotterRef.current);
 
-  // Advanced Stoikov Simulation Loop
-  useEffect(() => {
-    let interval: number | undefined;
+  // Run history: the worker records every run; bumping runsVersion reloads the list after a save
+  const [runsVersion, setRunsVersion] = useState(0);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
 
-    if (simRunning) {
-      interval = window.setInterval(() => {
-        setSimState(prev => {
-          const time = Date.now();
-          
-          // 1. Market Dynamics: Geometric Brownian Motion
-          const shock = (Math.random() - 0.5) * volatility * 2; 
-          const newMid = prev.midPrice + shock;
-          
-          // 2. Strategy: Calculate Reservation Price (r)
-          // r = s - q * gamma * sigma^2
-          const inventorySkew = prev.inventory * riskAversion * volatility * 5; 
-          const newReservation = newMid - inventorySkew;
-          
-          // 3. Calculate Optimal Quotes
-          const halfSpread = volatility * 0.8; 
-          const newBid = newReservation - halfSpread;
-          const newAsk = newReservation + halfSpread;
-          
-          // 4. Matching Engine Simulation (Poisson Process)
-          const probHitAsk = Math.exp(-1.5 * (newAsk - newMid)); 
-          const probHitBid = Math.exp(-1.5 * (newMid - newBid)); 
-          
-          let nextInv = prev.inventory;
-          let nextCash = prev.cash;
-          let tradeOccurred = false;
-
-          // Simulate Ask Fill
-          if (Math.random() < probHitAsk * 0.3) { 
-              nextInv -= 1;
-              nextCash += newAsk;
-              tradeOccurred = true;
-          }
-          
-          // Simulate Bid Fill
-          if (Math.random() < probHitBid * 0.3) {
-              nextInv += 1;
-              nextCash -= newBid;
-              tradeOccurred = true;
-          }
-
-          // 5. Update Stats
-          const markToMarketVal = nextCash + (nextInv * newMid);
-          const pnl = markToMarketVal - INITIAL_CASH;
-          
-          if (tradeOccurred) {
-             setStats(s => ({
-                 ...s,
-                 trades: s.trades + 1,
-                 volume: s.volume + newMid,
-                 pnl: pnl
-             }));
-          }
-
-          // Update Chart Data
-          setMarketData(d => {
-             const newData = [...d, {
-                 timestamp: time,
-                 price: newMid,
-                 reservation: newReservation,
-                 bid: newBid,
-                 ask: newAsk,
-                 inventory: nextInv
-             }];
-             if (newData.length > 60) newData.shift();
-             return newData;
-          });
-
-          return {
-              midPrice: newMid,
-              reservationPrice: newReservation,
-              inventory: nextInv,
-              cash: nextCash,
-              myBid: newBid,
-              myAsk: newAsk
-          };
-        });
-      }, 50); 
+  // Live market data: while connected the feed, not the random walk, drives each step
+  const [feedConnected, setFeedConnected] = useState(false);
+  const feedStartRef = useRef<number | null>(null);
+
+  const postToWorker = (msg: SimWorkerRequest) => workerRef.current?.postMessage(msg);
+
+  // One render per batch, however many ticks it covers
+  const applySession = (session: Session, points: ChartPoint[]) => {
+    simRef.current = session.state;
+    statsRef.current = session.stats;
+    blotterRef.current = session.blotter;
+    setSimState(session.state);
+    setStats(session.stats);
+    setBlotter(session.blotter);
+    if (points.length > 0) setMarketData(d => [...d, ...points].slice(-CHART_WINDOW));
+  };
+
+  const applyConfig = (config: SimConfig) => {
+    setStrategy(config.strategy);
+    setVolatility(config.volatility);
+    setStrategySigma(config.strategyVolatility);
+    setArrivalA(config.arrivalA);
+    setArrivalK(config.arrivalK);
+    setFillModel(config.fillModel);
+    setHitModel(config.hitModel);
+    setRiskLimits(config.risk);
+    setFees(config.fees);
+    setFunding(config.funding);
+    setLatency(config.latency);
+    setMarket(config.market);
+    setRateLimit(config.rateLimit);
+    setCalibration(config.calibration);
+    setMargin(config.margin);
+  };
+
+  // Reset no longer discards the run: the worker hands it back to be saved first
+  const resetSimulation = () => {
+    postToWorker({ type: 'exportRun' });
+    setReplayStatus(null);
+    simRef.current = createInitialSimState(simConfig);
+    statsRef.current = createInitialStats();
+    blotterRef.current = createBlotter();
+    rngRef.current = createRng(seed);
+    feedStartRef.current = null;
+    postToWorker({ type: 'reset', config: simConfig, state: simRef.current, stats: statsRef.current, seed });
+    setStats(statsRef.current);
+    setBlotter(blotterRef.current);
+    setSimState(simRef.current);
+    setMarketData([]);
+  };
+
+  const commitStep = (result: StepResult) => {
+    recordFills(blotterRef.current, result);
+    applySession(
+      { state: result.state, stats: applyStepToStats(statsRef.current, result), blotter: blotterRef.current },
+      [chartPoint(result)]
+    );
+  };
+
+  const handleFeedTick = (tick: TapeTick, snapshot: BookSnapshot) => {
+    if (!simRunning) return;
+    // The first snapshot starts a fresh session at the live price
+    if (feedStartRef.current === null) {
+      feedStartRef.current = tick.timestamp;
+      simRef.current = createInitialSimState(simConfig, tick.price);
+      statsRef.current = createInitialStats();
+      blotterRef.current = createBlotter();
+      rngRef.current = createRng(seed);
+      setMarketData([]);
+    }
+    const elapsed = (tick.timestamp - feedStartRef.current) / 1000;
+    const result = stepTradeTick(simRef.current, tick, elapsed, simConfig, rngRef.current);
+    const { state } = result;
+    const book = snapshotToBook(snapshot, simConfig.tickSize, {
+      bids: canQuoteBid(state.risk) ? state.myQuotes.bids : [],
+      asks: canQuoteAsk(state.risk) ? state.myQuotes.asks : []
+    });
+    commitStep({ ...result, state: { ...state, book } });
+  };
+
+  const handleFeedConnected = (connected: boolean) => {
+    feedStartRef.current = null;
+    setFeedConnected(connected);
+    // The random walk picks up from wherever the feed left the session
+    if (!connected) postToWorker({ type: 'load', session: { state: simRef.current, stats: statsRef.current, blotter: blotterRef.current } });
+  };
+
+  // Replays a saved run from its seed in the worker; it reports back with the run's final config
+  const replayRun = (run: RunRecord) => {
+    feedStartRef.current = null;
+    setMarketData([]);
+    setReplayStatus({ name: run.name, tickCount: run.tickCount, verified: null });
+    postToWorker({ type: 'replay', run });
+  };
+
+  // A clicked sweep cell becomes the live Simulation's strategy; the swept σ is the strategy's estimate, the market keeps its own
+  const loadSweepPoint = (next: StrategyConfig, sigma: number | undefined) => {
+    setStrategy(next);
+    setStrategySigma(sigma);
+    setActivePhase(Phase.Simulation);
+  };
+
+  const releaseKillSwitch = () => {
+    if (!feedConnected) {
+      postToWorker({ type: 'releaseKillSwitch' });
+      return;
     }
-    return () => clearInterval(interval);
-  }, [simRunning, riskAversion, volatility]);
+    const current = simRef.current;
+    simRef.current = { ...current, risk: resetKillSwitch(current.risk, markToMarketPnl(current)) };
+    setSimState(simRef.current);
+  };
+
+  const injectScenario = (scenario: Scenario) => {
+    if (!feedConnected) {
+      postToWorker({ type: 'injectScenario', scenario });
+      return;
+    }
+    simRef.current = startScenario(simRef.current, scenario);
+    setSimState(simRef.current);
+  };
+
+  // A custom scenario with the id of one already listed replaces it
+  const importScenario = (scenario: Scenario) =>
+    setScenarios(list => [...list.filter(s => s.id !== scenario.id), scenario]);
+
+  // Advanced Stoikov Simulation Loop (in a Web Worker)
+  useEffect(() => {
+    const worker = new Worker(new URL('./engine/sim.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SimWorkerMessage>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case 'batch':
+          applySession(msg.session, msg.points);
+          if (msg.ticks > 0) setTickRate(msg.ticksPerSecond);
+          break;
+        case 'run':
+          if (msg.run.tickCount > 0) saveRun(msg.run).then(
+            () => setRunsVersion(v => v + 1),
+            (err: Error) => setReplayStatus({ name: msg.run.name, tickCount: msg.run.tickCount, verified: null, error: `保存失败: ${err.message}` })
+          );
+          break;
+        case 'replayed':
+          applyConfig(msg.config);
+          setSeed(msg.seed);
+          setReplayStatus({ name: msg.run.name, tickCount: msg.run.tickCount, verified: msg.verified });
+          break;
+      }
+    };
+    postToWorker({ type: 'reset', config: simConfig, state: simRef.current, stats: statsRef.current, seed });
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => postToWorker({ type: 'config', config: simConfig }), [simConfig]);
+
+  useEffect(() => {
+    postToWorker(simRunning && !feedConnected ? { type: 'play', speed } : { type: 'pause' });
+  }, [simRunning, feedConnected, speed]);
+
+  const marginStatus = marginSnapshot(simState.inventory, simState.midPrice, markToMarketPnl(simState), margin);
 
   const renderContent = () => {
     switch (activePhase) {
@@ -392,6 +530,9 @@ const App: React.FC = () => {
           </div>
         );
 
+      case Phase.Architecture:
+        return <ArchitectureView />;
+
       case Phase.Code:
         return (
           <div className="animate-fade-in h-full flex flex-col">
@@ -441,6 +582,24 @@ const App: React.FC = () => {
                     <span className={`text-sm font-mono font-bold ${stats.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'}`}>
                       PnL: ${stats.pnl.toFixed(2)}
                     </span>
+                    {latency.enabled && (
+                      <span className="text-[10px] font-mono text-gray-500">Latency: {stats.latency.toFixed(1)}ms</span>
+                    )}
+                    <span className="text-[10px] font-mono text-gray-500">
+                      t = {simState.time.toFixed(1)}s{simRunning && !feedConnected ? ` · ${tickRate.toFixed(0)} ticks/s` : ''}
+                    </span>
+                 </div>
+                 <div className="flex rounded-full border border-hl-border overflow-hidden text-xs font-mono">
+                    {SPEEDS.map(s => (
+                      <button
+                        key={s}
+                        onClick={() => setSpeed(s)}
+                        disabled={feedConnected}
+                        className={`px-3 py-2 disabled:opacity-40 ${speed === s ? 'bg-hl-blue/20 text-white' : 'text-gray-500 hover:text-white'}`}
+                      >
+                        {s === 'max' ? 'MAX' : `${s}×`}
+                      </button>
+                    ))}
                  </div>
                 <button 
                   onClick={() => setSimRunning(!simRunning)}
@@ -453,11 +612,7 @@ const App: React.FC = () => {
                   {simRunning ? <><PauseCircle className="mr-2" /> 停止模拟</> : <><PlayCircle className="mr-2" /> 启动模拟</>}
                 </button>
                 <button 
-                  onClick={() => {
-                    setStats({ pnl: 0, trades: 0, volume: 0, latency: 0 });
-                    setSimState({ midPrice: INITIAL_PRICE, reservationPrice: INITIAL_PRICE, inventory: 0, cash: INITIAL_CASH, myBid: 999.5, myAsk: 1000.5 });
-                    setMarketData([]);
-                  }}
+                  onClick={resetSimulation}
                   className="p-2 rounded-full bg-hl-card text-gray-400 hover:text-white border border-hl-border"
                 >
                   <RefreshCcw size={18} />
@@ -466,35 +621,79 @@ const App: React.FC = () => {
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-[400px]">
+              <div className="lg:col-span-2 space-y-6">
               {/* Main Chart */}
-              <div className="lg:col-span-2 bg-[#0d0e11] border border-hl-border rounded-xl p-4 flex flex-col relative">
-                <div className="absolute top-4 left-4 z-10 flex space-x-4 text-xs">
-                    <div className="flex items-center"><div className="w-3 h-1 bg-hl-blue mr-2"></div>Mid Price</div>
-                    <div className="flex items-center"><div className="w-3 h-1 bg-hl-accent mr-2"></div>Reservation Price (r)</div>
-                    <div className="flex items-center"><div className="w-3 h-1 bg-hl-green mr-2"></div>My Bid</div>
-                    <div className="flex items-center"><div className="w-3 h-1 bg-hl-red mr-2"></div>My Ask</div>
+              <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 flex gap-4 min-h-[400px]">
+                <div className="flex-1 min-w-0 flex flex-col relative">
+                  <div className="absolute top-0 left-0 z-10 flex space-x-4 text-xs">
+                      <div className="flex items-center"><div className="w-3 h-1 bg-hl-blue mr-2"></div>Mid Price</div>
+                      <div className="flex items-center"><div className="w-3 h-1 bg-hl-accent mr-2"></div>Reservation Price (r)</div>
+                      <div className="flex items-center"><div className="w-3 h-1 bg-hl-green mr-2"></div>My Bid</div>
+                      <div className="flex items-center"><div className="w-3 h-1 bg-hl-red mr-2"></div>My Ask</div>
+                      <div className="flex items-center"><div className="w-2 h-2 rounded-full bg-hl-green mr-2"></div>Our Buy</div>
+                      <div className="flex items-center"><div className="w-2 h-2 rounded-full bg-hl-red mr-2"></div>Our Sell</div>
+                  </div>
+
+                  <div className="flex-1 w-full h-full min-h-[300px] mt-6">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={marketData}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                        <XAxis dataKey="time" hide />
+                        <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                        <Tooltip 
+                          contentStyle={{ backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' }}
+                          labelStyle={{ display: 'none' }}
+                          formatter={(value: any) => parseFloat(value).toFixed(2)}
+                        />
+                        <Line type="monotone" dataKey="price" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                        <Line type="step" dataKey="reservation" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                        <Line type="step" dataKey="bid" stroke="#2ebd85" strokeWidth={1} dot={false} isAnimationActive={false} opacity={0.6} />
+                        <Line type="step" dataKey="ask" stroke="#f6465d" strokeWidth={1} dot={false} isAnimationActive={false} opacity={0.6} />
+                        {/* Fill markers: dots only where a point carries a fill */}
+                        <Line dataKey="buyFill" stroke="none" dot={{ r: 3, fill: '#2ebd85', stroke: '#0d0e11' }} isAnimationActive={false} />
+                        <Line dataKey="sellFill" stroke="none" dot={{ r: 3, fill: '#f6465d', stroke: '#0d0e11' }} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  <div className="h-[110px] w-full mt-2">
+                    <div className="flex space-x-4 text-[10px] text-gray-500 mb-1">
+                      <div className="flex items-center"><div className="w-3 h-1 bg-yellow-400 mr-2"></div>Model Spread</div>
+                      <div className="flex items-center"><div className="w-3 h-1 bg-gray-400 mr-2"></div>Realised Spread</div>
+                    </div>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={marketData}>
+                        <XAxis dataKey="time" hide />
+                        <YAxis domain={[0, 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 10}} />
+                        <Tooltip 
+                          contentStyle={{ backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' }}
+                          labelStyle={{ display: 'none' }}
+                          formatter={(value: any) => parseFloat(value).toFixed(3)}
+                        />
+                        <Line type="monotone" dataKey="theoreticalSpread" stroke="#facc15" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                        <Line type="step" dataKey="realisedSpread" stroke="#9ca3af" strokeWidth={1} dot={false} isAnimationActive={false} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
                 </div>
 
-                <div className="flex-1 w-full h-full min-h-[300px] mt-6">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={marketData}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
-                      <XAxis dataKey="timestamp" hide />
-                      <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
-                      <Tooltip 
-                        contentStyle={{ backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' }}
-                        labelStyle={{ display: 'none' }}
-                        formatter={(value: any) => parseFloat(value).toFixed(2)}
-                      />
-                      <Line type="monotone" dataKey="price" stroke="#3b82f6" strokeWidth={2} dot={false} />
-                      <Line type="step" dataKey="reservation" stroke="#8b5cf6" strokeWidth={2} strokeDasharray="5 5" dot={false} />
-                      <Line type="step" dataKey="bid" stroke="#2ebd85" strokeWidth={1} dot={false} opacity={0.6} />
-                      <Line type="step" dataKey="ask" stroke="#f6465d" strokeWidth={1} dot={false} opacity={0.6} />
-                    </LineChart>
-                  </ResponsiveContainer>
+                {/* Depth Ladder */}
+                <div className="w-56 shrink-0 border-l border-hl-border pl-4 overflow-hidden">
+                  <div className="text-xs text-gray-500 mb-2">深度 (Depth Ladder)</div>
+                  <DepthLadder
+                    book={simState.book}
+                    mid={simState.midPrice}
+                    reservationPrice={simState.reservationPrice}
+                    tickSize={simConfig.tickSize}
+                  />
                 </div>
               </div>
 
+              <StatsPanel stats={stats} maxInventory={riskLimits.maxInventory} />
+
+              <BlotterPanel blotter={blotter} tickSize={simConfig.tickSize} />
+              </div>
+
               {/* Control Panel */}
               <div className="space-y-6">
                 <div className="bg-hl-card border border-hl-border rounded-xl p-4">
@@ -503,34 +702,62 @@ const App: React.FC = () => {
                     </h4>
                     
                     <div className="space-y-4">
-                        <div>
-                            <div className="flex justify-between text-xs mb-1">
-                                <span className="text-gray-400">Inventory Aversion (γ)</span>
-                                <span className="text-white font-mono">{riskAversion.toFixed(2)}</span>
-                            </div>
-                            <input 
-                                type="range" min="0.01" max="0.5" step="0.01"
-                                value={riskAversion}
-                                onChange={(e) => setRiskAversion(parseFloat(e.target.value))}
-                                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-hl-accent"
-                            />
+                        <StrategyControls config={strategy} onChange={setStrategy} time={simState.time} />
+                        <ParamSlider label="Market Volatility (σ)" value={volatility} min={0.1} max={2.0} step={0.1} onChange={setVolatility} accent="accent-hl-blue" />
+                        <ParamSlider label="Strategy σ Estimate" value={strategySigma ?? volatility} min={0.1} max={2.0} step={0.1} onChange={setStrategySigma} accent="accent-hl-blue" />
+                        {strategySigma !== undefined && (
+                            <button
+                                onClick={() => setStrategySigma(undefined)}
+                                className="w-full py-1 rounded border border-hl-border text-xs text-gray-500 hover:text-white"
+                            >
+                                策略 σ 跟随市场 (Follow Market σ)
+                            </button>
+                        )}
+                        <ParamSlider label="Arrival Rate (A, 1/s)" value={arrivalA} min={0.5} max={20} step={0.5} digits={1} onChange={setArrivalA} accent="accent-hl-green" />
+                        <ParamSlider label="Arrival Decay (k)" value={arrivalK} min={0.1} max={5} step={0.1} digits={1} onChange={setArrivalK} accent="accent-hl-green" />
+                        <div className="grid grid-cols-2 gap-2 text-xs">
+                            {([['poisson', 'Poisson 成交'], ['book', 'L2 订单簿 (FIFO)']] as [FillModel, string][]).map(([model, label]) => (
+                                <button 
+                                    key={model}
+                                    onClick={() => setFillModel(model)}
+                                    className={`py-1 rounded border ${fillModel === model ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
                         </div>
-                        
-                        <div>
-                            <div className="flex justify-between text-xs mb-1">
-                                <span className="text-gray-400">Market Volatility (σ)</span>
-                                <span className="text-white font-mono">{volatility.toFixed(2)}</span>
+                        {fillModel === 'poisson' && (
+                            <div className="grid grid-cols-2 gap-2 text-xs">
+                                {([['intensity', '经验成交率'], ['arrival', 'A·e^(−kδ) 到达']] as [HitModel, string][]).map(([model, label]) => (
+                                    <button 
+                                        key={model}
+                                        onClick={() => setHitModel(model)}
+                                        className={`py-1 rounded border ${hitModel === model ? 'border-hl-green text-white bg-hl-green/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
+                        )}
+                        <div className="flex justify-between items-center text-xs">
+                            <span className="text-gray-400">Seed (重置后生效)</span>
                             <input 
-                                type="range" min="0.1" max="2.0" step="0.1"
-                                value={volatility}
-                                onChange={(e) => setVolatility(parseFloat(e.target.value))}
-                                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-hl-blue"
+                                type="number"
+                                value={seed}
+                                onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                                className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
                             />
                         </div>
                     </div>
                 </div>
 
+                <MarketModelPanel
+                  market={simState.market}
+                  config={market}
+                  price={simState.book?.fairValue ?? simState.midPrice}
+                  onConfigChange={setMarket}
+                />
+
                 <div className="bg-hl-card border border-hl-border rounded-xl p-4">
                    <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
                        <Activity size={14} className="mr-2" /> 实时状态 (Real-time State)
@@ -549,13 +776,129 @@ const App: React.FC = () => {
                                {(simState.reservationPrice - simState.midPrice).toFixed(2)}
                            </div>
                        </div>
+                       {simState.book && (['buy', 'sell'] as const).map(side => {
+                           const order = myOrders(simState.book!).find(o => o.side === side);
+                           return (
+                               <React.Fragment key={side}>
+                                   <StatTile 
+                                       label={`Queue Ahead (${side === 'buy' ? 'Bid' : 'Ask'})`}
+                                       value={order ? queueAhead(simState.book!, order.id) : '—'}
+                                       className={side === 'buy' ? 'text-hl-green' : 'text-hl-red'}
+                                   />
+                               </React.Fragment>
+                           );
+                       })}
                    </div>
+
+                   {margin.enabled && (
+                       <div className="space-y-3">
+                           <MarginBar snapshot={marginStatus} />
+                           <div className="grid grid-cols-2 gap-4">
+                               <StatTile
+                                   label="Liq. Price"
+                                   value={marginStatus.liquidationPrice === null ? '—' : marginStatus.liquidationPrice.toFixed(2)}
+                                   className={distanceTone(marginStatus.distance)}
+                               />
+                               <StatTile
+                                   label="距强平 (To Liquidation)"
+                                   value={formatDistance(marginStatus.distance)}
+                                   className={distanceTone(marginStatus.distance)}
+                               />
+                           </div>
+                       </div>
+                   )}
                 </div>
+
+                <MarginPanel
+                  margin={simState.margin}
+                  snapshot={marginStatus}
+                  config={margin}
+                  onConfigChange={setMargin}
+                />
+
+                <ScenarioPanel
+                  scenarios={scenarios}
+                  stress={simState.stress}
+                  time={simState.time}
+                  onInject={injectScenario}
+                  onImport={importScenario}
+                />
+
+                <CalibrationPanel
+                  calibration={simState.calibration}
+                  truth={calibrationTruth(simState, simConfig)}
+                  config={calibration}
+                  onConfigChange={setCalibration}
+                />
+
+                <RunsPanel
+                  version={runsVersion}
+                  status={replayStatus}
+                  onSaveCurrent={() => postToWorker({ type: 'exportRun' })}
+                  onReplay={replayRun}
+                />
+
+                <LiveFeedPanel onTick={handleFeedTick} onConnectedChange={handleFeedConnected} />
+
+                <RiskPanel
+                  risk={simState.risk}
+                  limits={riskLimits}
+                  onLimitsChange={setRiskLimits}
+                  onResetKillSwitch={releaseKillSwitch}
+                />
+
+                <LatencyPanel
+                  latency={simState.latency}
+                  config={latency}
+                  tickMs={simConfig.dt * 1000}
+                  onConfigChange={setLatency}
+                />
+
+                <OrderGatewayPanel
+                  gateway={simState.gateway}
+                  config={rateLimit}
+                  onConfigChange={setRateLimit}
+                />
+
+                <FeePanel
+                  stats={stats}
+                  ledger={simState.ledger}
+                  time={simState.time}
+                  fees={fees}
+                  funding={funding}
+                  onFeesChange={setFees}
+                  onFundingChange={setFunding}
+                />
               </div>
             </div>
           </div>
         );
         
+      case Phase.Backtest:
+        return (
+          <BacktestView
+            config={simConfig}
+            scenarios={scenarios}
+            onStrategyChange={setStrategy}
+            onVolatilityChange={setVolatility}
+          />
+        );
+
+      case Phase.Compare:
+        return <ComparisonView config={simConfig} />;
+
+      case Phase.Sweep:
+        return <SweepView config={simConfig} onLoad={loadSweepPoint} />;
+
+      case Phase.Portfolio:
+        return <MultiAssetView config={simConfig} />;
+
+      case Phase.Amm:
+        return <AmmView config={simConfig} />;
+
+      case Phase.Orders:
+        return <OrderSigningView quotes={simState.myQuotes} tickSize={simConfig.tickSize} />;
+        
       case Phase.Reality:
         return (
           <div className="animate-fade-in">
@@ -631,11 +974,18 @@ const App: React.FC = () => {
             label="2. 生产级 Crates" 
             phase={Phase.Stack}
           />
+          <NavItem 
+            active={activePhase === Phase.Architecture} 
+            onClick={() => setActivePhase(Phase.Architecture)} 
+            icon={Workflow} 
+            label="3. 引擎架构" 
+            phase={Phase.Architecture}
+          />
           <NavItem 
             active={activePhase === Phase.Code} 
             onClick={() => setActivePhase(Phase.Code)} 
             icon={Code} 
-            label="3. 代码脚手架" 
+            label="4. 代码脚手架" 
             phase={Phase.Code}
           />
           
@@ -649,6 +999,48 @@ const App: React.FC = () => {
             label="策略模拟 (Stoikov)" 
             phase={Phase.Simulation}
           />
+          <NavItem 
+            active={activePhase === Phase.Backtest} 
+            onClick={() => setActivePhase(Phase.Backtest)} 
+            icon={BarChart3} 
+            label="历史回测 (Backtest)" 
+            phase={Phase.Backtest}
+          />
+          <NavItem 
+            active={activePhase === Phase.Compare} 
+            onClick={() => setActivePhase(Phase.Compare)} 
+            icon={GitCompare} 
+            label="策略对比 (A/B Compare)" 
+            phase={Phase.Compare}
+          />
+          <NavItem 
+            active={activePhase === Phase.Sweep} 
+            onClick={() => setActivePhase(Phase.Sweep)} 
+            icon={Grid3x3} 
+            label="参数寻优 (Sweep)" 
+            phase={Phase.Sweep}
+          />
+          <NavItem 
+            active={activePhase === Phase.Portfolio} 
+            onClick={() => setActivePhase(Phase.Portfolio)} 
+            icon={Coins} 
+            label="多币种做市 (Multi-Asset)" 
+            phase={Phase.Portfolio}
+          />
+          <NavItem 
+            active={activePhase === Phase.Amm} 
+            onClick={() => setActivePhase(Phase.Amm)} 
+            icon={Droplets} 
+            label="AMM 做市 (LP vs CLOB)" 
+            phase={Phase.Amm}
+          />
+          <NavItem 
+            active={activePhase === Phase.Orders} 
+            onClick={() => setActivePhase(Phase.Orders)} 
+            icon={KeyRound} 
+            label="下单与签名 (Orders)" 
+            phase={Phase.Orders}
+          />
           
           <div className="my-4 border-t border-hl-border"></div>
           
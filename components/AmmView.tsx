@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, Droplets, PlayCircle, Settings } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import {
+  AmmConfig,
+  DEFAULT_AMM,
+  executionPrice,
+  FEE_TIERS,
+  liquidityProfile,
+  poolPrice,
+  PoolKind,
+  runVenueComparison,
+  Venue,
+  VenueComparison,
+  VenueSummary,
+  VENUES,
+} from '../engine/amm';
+import { SimConfig } from '../engine/simulation';
+import { downsample, ParamSlider } from './ui';
+
+const VENUE_LABELS: Record<Venue, string> = {
+  clob: 'CLOB 做市',
+  constantProduct: 'x·y=k LP',
+  concentrated: '集中流动性 LP',
+};
+const VENUE_COLORS: Record<Venue, string> = { clob: '#2ebd85', constantProduct: '#3b82f6', concentrated: '#facc15' };
+const POOLS: PoolKind[] = ['constantProduct', 'concentrated'];
+const SWAP_SIZES = [1000, 10000, 100000];
+
+const tooltipStyle = { backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' };
+
+// Shaded price band for ReferenceArea (its typings leave out the SVG fill props)
+const band = (opacity: number) => (props: any) => (
+  <rect x={props.x} y={props.y} width={props.width} height={props.height} fill="#facc15" fillOpacity={opacity} />
+);
+
+const usd = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+
+const COLUMNS: { label: string; format: (s: VenueSummary) => string }[] = [
+  { label: 'PnL', format: s => usd(s.pnl) },
+  { label: 'Fees', format: s => usd(s.fees) },
+  { label: 'IL', format: s => (s.impermanentLoss === null ? '—' : usd(s.impermanentLoss)) },
+  { label: 'HODL', format: s => (s.hodlPnl === null ? '—' : usd(s.hodlPnl)) },
+  { label: 'Max DD', format: s => usd(s.maxDrawdown) },
+  { label: 'Volume', format: s => `$${(s.volume / 1000).toFixed(1)}k` },
+  { label: 'In Range', format: s => (s.inRange === null ? '—' : `${(s.inRange * 100).toFixed(0)}%`) },
+];
+
+/**
+ * CLOB market making against LP-ing in a constant-product and a concentrated-liquidity pool, all on one seeded
+ * fair-value path. Arbitrageurs keep the pools on the path; noise swaps pay the LP fees.
+ */
+export const AmmView = ({ config }: { config: SimConfig }) => {
+  const [amm, setAmm] = useState<AmmConfig>(DEFAULT_AMM);
+  const [seed, setSeed] = useState(42);
+  const [duration, setDuration] = useState(300); // Seconds of simulated time
+  const [result, setResult] = useState<VenueComparison | null>(null);
+  const set = (patch: Partial<AmmConfig>) => setAmm(a => ({ ...a, ...patch }));
+
+  const run = () => setResult(runVenueComparison(config, amm, seed, Math.round(duration / config.dt)));
+
+  const chartData = result ? downsample(result.points) : [];
+  const profile = result
+    ? liquidityProfile(result.pools.concentrated, result.range[0] * 0.9, result.range[1] * 1.1).map(p => ({ ...p, price: +p.price.toFixed(2) }))
+    : [];
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">AMM 做市 (CLOB vs LP)</h1>
+          <p className="text-gray-400 text-sm">
+            同一条价格路径上，订单簿报价与在 x·y=k 池、集中流动性池中做 LP 的收益对比：手续费收入 vs 无常损失。
+          </p>
+        </div>
+        <button
+          onClick={run}
+          className="flex items-center px-6 py-2 rounded-full font-bold transition-all bg-hl-green text-white hover:bg-hl-green/90"
+        >
+          <PlayCircle className="mr-2" /> 运行对比
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-[400px]">
+        <div className="lg:col-span-2 flex flex-col gap-6">
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 h-[280px] flex flex-col">
+            <div className="flex justify-between text-xs text-gray-500 mb-2">
+              <span>PnL (USDC)</span>
+              <div className="flex space-x-3">
+                {VENUES.map(venue => (
+                  <span key={venue} className="flex items-center">
+                    <span className="w-3 h-1 mr-1" style={{ backgroundColor: VENUE_COLORS[venue] }}></span>{VENUE_LABELS[venue]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="time" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(2)} />
+                {VENUES.map(venue => (
+                  <Line
+                    key={venue}
+                    name={VENUE_LABELS[venue]}
+                    type="monotone"
+                    dataKey={`pnl.${venue}`}
+                    stroke={VENUE_COLORS[venue]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 h-[220px] flex flex-col">
+            <div className="flex justify-between text-xs text-gray-500 mb-2">
+              <span>Fair vs Pool Price</span>
+              <span>阴影为集中流动性头寸的价格区间</span>
+            </div>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="time" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(2)} />
+                {result && <ReferenceArea y1={result.range[0]} y2={result.range[1]} shape={band(0.06)} />}
+                <Line name="Fair" type="monotone" dataKey="price" stroke="#9ca3af" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                {POOLS.map(kind => (
+                  <Line
+                    key={kind}
+                    name={VENUE_LABELS[kind]}
+                    type="monotone"
+                    dataKey={`poolPrice.${kind}`}
+                    stroke={VENUE_COLORS[kind]}
+                    strokeWidth={1}
+                    strokeDasharray="4 3"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4 overflow-x-auto">
+            <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+              <Droplets size={14} className="mr-2" /> 对比结果 (Venues)
+            </h4>
+            {result ? (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500 border-b border-hl-border">
+                    <th className="text-left py-1 font-normal">Venue</th>
+                    {COLUMNS.map(col => <th key={col.label} className="text-right py-1 font-normal">{col.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {VENUES.map(venue => (
+                    <tr key={venue} className="border-b border-hl-border/50">
+                      <td className="py-1 text-left" style={{ color: VENUE_COLORS[venue] }}>{VENUE_LABELS[venue]}</td>
+                      {COLUMNS.map(col => (
+                        <td key={col.label} className="py-1 text-right text-gray-300">{col.format(result.summaries[venue])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-xs text-gray-500">点击“运行对比”生成结果。</div>
+            )}
+            <p className="text-[10px] text-gray-500 mt-3">
+              LP 的 PnL = HODL + IL + Fees：HODL 是原样持有存入资产的盈亏，IL 是头寸相对 HODL 的差额（池子随套利者调仓造成），Fees 是按流动性占比分得的手续费。
+              CLOB 的 Fees 为净 maker 返佣（负数为净支出），其收益主要来自价差。LP 的 Volume 是按占比折算的成交额。
+            </p>
+          </div>
+
+          {result && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+                <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+                  <ArrowLeftRight size={14} className="mr-2" /> 兑换报价 (Swap Pricing)
+                </h4>
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-hl-border">
+                      <th className="text-left py-1 font-normal">Buy</th>
+                      {POOLS.map(kind => <th key={kind} className="text-right py-1 font-normal">{VENUE_LABELS[kind]}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {SWAP_SIZES.map(size => (
+                      <tr key={size} className="border-b border-hl-border/50">
+                        <td className="py-1 text-left text-gray-400">${size.toLocaleString()}</td>
+                        {POOLS.map(kind => {
+                          const quote = executionPrice(result.pools[kind], 'buy', size);
+                          return (
+                            <td key={kind} className="py-1 text-right text-gray-300">
+                              {quote.price.toFixed(2)} <span className="text-hl-red">{(quote.impact * 100).toFixed(2)}%</span>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-[10px] text-gray-500 mt-2">
+                  运行结束时的池子状态，平均成交价与相对池价的滑点（含 {(amm.fee * 100).toFixed(2)}% 手续费）。池价：
+                  {POOLS.map(kind => ` ${VENUE_LABELS[kind]} ${poolPrice(result.pools[kind]).toFixed(2)}`).join('，')}
+                </p>
+              </div>
+
+              <div className="bg-hl-card border border-hl-border rounded-xl p-4 h-[220px] flex flex-col">
+                <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+                  <Droplets size={14} className="mr-2" /> 流动性分布 (Liquidity by Price)
+                </h4>
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={profile}>
+                    <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} stroke="#4b5563" tick={{fontSize: 10}} />
+                    <YAxis hide />
+                    <Tooltip contentStyle={tooltipStyle} formatter={(value: any) => parseFloat(value).toFixed(0)} />
+                    <ReferenceArea x1={result.range[0]} x2={result.range[1]} shape={band(0.1)} />
+                    <ReferenceLine x={poolPrice(result.pools.concentrated)} stroke="#9ca3af" strokeDasharray="3 3" />
+                    <Area type="stepAfter" dataKey="liquidity" name="L" stroke="#facc15" fill="#facc15" fillOpacity={0.2} isAnimationActive={false} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Settings size={14} className="mr-2" /> 运行设置 (Run)
+            </h4>
+            <div className="space-y-4">
+              <ParamSlider label="Duration (s)" value={duration} min={30} max={1200} step={30} digits={0} onChange={setDuration} accent="accent-hl-blue" />
+              <div className="text-[10px] text-gray-500">
+                价格路径与 CLOB 报价沿用策略模拟面板的设置（σ = {config.volatility.toFixed(2)}，{config.fillModel === 'book' ? 'L2 订单簿' : 'Poisson'} 成交模型）。
+              </div>
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-400">Seed</span>
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                  className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Droplets size={14} className="mr-2" /> 池子与头寸 (Pools)
+            </h4>
+            <div className="grid grid-cols-3 gap-2 mb-4 text-[10px]">
+              {FEE_TIERS.map(tier => (
+                <button
+                  key={tier.fee}
+                  onClick={() => set(tier)}
+                  className={`py-1 rounded border ${amm.fee === tier.fee ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                >
+                  {(tier.fee * 100).toFixed(2)}% / {tier.tickSpacing}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-4">
+              <ParamSlider label="Range Width (±%)" value={amm.rangeWidth * 100} min={0.5} max={20} step={0.5} digits={1} onChange={(v) => set({ rangeWidth: v / 100 })} accent="accent-hl-green" />
+              <ParamSlider label="Capital (USDC)" value={amm.capital} min={1000} max={100000} step={1000} digits={0} onChange={(v) => set({ capital: v })} accent="accent-hl-blue" />
+              <ParamSlider label="Other LPs' Depth (USDC)" value={amm.poolDepth} min={100000} max={10000000} step={100000} digits={0} onChange={(v) => set({ poolDepth: v })} accent="accent-hl-blue" />
+              <ParamSlider label="Noise Swaps (/s)" value={amm.noiseRate} min={0} max={5} step={0.1} digits={1} onChange={(v) => set({ noiseRate: v })} accent="accent-hl-blue" />
+              <ParamSlider label="Mean Swap Size (USDC)" value={amm.noiseSize} min={100} max={20000} step={100} digits={0} onChange={(v) => set({ noiseSize: v })} accent="accent-hl-blue" />
+            </div>
+            <p className="text-[10px] text-gray-500 mt-3">
+              费率档位与 tick 间距同 Uniswap v3。x·y=k 池中所有 LP 都是全区间；集中流动性池中其他 LP 一半全区间、一半在 ±10% 内。
+              套利者每跳把池价拉回公允价格的无套利区间（公允价 × (1 ± 费率)），噪声交易按泊松到达、金额服从指数分布。
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
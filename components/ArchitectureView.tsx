@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { ArrowRight, Timer, Radio, FileCode2, BookOpen, Cpu, ShieldAlert, Send, HardDrive } from 'lucide-react';
+import { CodeBlock, ParamSlider } from './ui';
+
+type StageId = 'feed' | 'parser' | 'book' | 'strategy' | 'risk' | 'gateway' | 'logger';
+type QueueType = 'mutex' | 'crossbeam' | 'ringbuffer';
+
+interface Stage {
+  id: StageId;
+  name: string;
+  subtitle: string;
+  icon: React.ElementType;
+  defaultBudget: number; // µs
+  description: string;
+  code: string;
+}
+
+const QUEUES: Record<QueueType, { label: string; hopCost: number; desc: string }> = {
+  mutex: { label: 'Arc<Mutex>', hopCost: 2.5, desc: '加锁/唤醒，竞争时会出现微秒级抖动。' },
+  crossbeam: { label: 'crossbeam', hopCost: 0.4, desc: '无锁 MPMC channel，适合线程间传递事件。' },
+  ringbuffer: { label: 'Ring Buffer', hopCost: 0.1, desc: 'SPSC 预分配环形缓冲 (Disruptor)，零分配、缓存友好。' },
+};
+
+const QUEUE_ORDER: QueueType[] = ['mutex', 'crossbeam', 'ringbuffer'];
+
+// Hot path, in order. The logger hangs off the strategy stage and is not counted in tick-to-trade.
+const STAGES: Stage[] = [
+  {
+    id: 'feed',
+    name: 'WS Feed',
+    subtitle: 'tokio-tungstenite',
+    icon: Radio,
+    defaultBudget: 8,
+    description: '从 socket 读取 WebSocket 帧并交给解析器。网络传输本身不计入，仅计进程内耗时。',
+    code: `let (ws_stream, _) = connect_async(url).await.expect("Failed to connect");
+let (mut write, mut read) = ws_stream.split();
+
+while let Some(msg) = read.next().await {
+    // 延迟监控点 A
+    let start = Instant::now();`,
+  },
+  {
+    id: 'parser',
+    name: 'Parser',
+    subtitle: 'simd-json',
+    icon: FileCode2,
+    defaultBudget: 6,
+    description: '把 l2Book 文本反序列化为结构体。价格保留为字符串以避免精度丢失。',
+    code: `#[derive(Debug, Deserialize)]
+struct L2Book {
+    coin: String,
+    levels: Vec<Vec<String>>, // [price, size]
+    time: u64,
+}
+
+// let book: L2Book = simd_json::from_str(&text).unwrap();`,
+  },
+  {
+    id: 'book',
+    name: 'Local Book',
+    subtitle: 'Orderbook state',
+    icon: BookOpen,
+    defaultBudget: 3,
+    description: '用快照/增量更新本地订单簿，得到 mid、最优买卖价与深度。',
+    code: `// 核心策略逻辑
+async fn process_tick(data: &str, state: Arc<Mutex<StrategyState>>) {
+    // 1. 解析行情
+    // 2. 更新本地 Orderbook 状态`,
+  },
+  {
+    id: 'strategy',
+    name: 'Strategy',
+    subtitle: 'process_tick',
+    icon: Cpu,
+    defaultBudget: 10,
+    description: '计算 Avellaneda-Stoikov 保留价与最优报价。必须在 <50µs 内完成。',
+    code: `// 这里的逻辑必须在 <50us 内完成以保持竞争力
+process_tick(&text, state.clone()).await;
+
+    // 3. 计算 Avellaneda-Stoikov 指标 (Reservation Price)`,
+  },
+  {
+    id: 'risk',
+    name: 'Risk Check',
+    subtitle: 'pre-trade',
+    icon: ShieldAlert,
+    defaultBudget: 2,
+    description: '下单前的持仓上限、名义敞口与频率检查。只读内存中的状态，禁止任何 I/O。',
+    code: `    // 4. 风险检查 (Risk Check)`,
+  },
+  {
+    id: 'gateway',
+    name: 'Order Gateway',
+    subtitle: 'reqwest / hyper',
+    icon: Send,
+    defaultBudget: 15,
+    description: '构造、签名并发送下单请求。签名和序列化是这里的主要开销。',
+    code: `    // 5. 异步发送下单请求 (Reqwest / Hyper)
+}
+
+// 延迟监控点 B: 如果处理耗时超过 100us，发出警告
+if start.elapsed().as_micros() > 100 {
+     eprintln!("⚠️ Slow Tick Warning: {}us", start.elapsed().as_micros());
+}`,
+  },
+  {
+    id: 'logger',
+    name: 'Logger',
+    subtitle: 'off hot path',
+    icon: HardDrive,
+    defaultBudget: 50,
+    description: '日志在低优先级线程异步落盘。热路径只负责把事件推入队列，不等待写入完成。',
+    code: `// 1. 初始化高性能日志 (带微秒时间戳)
+env_logger::builder().format_timestamp_micros().init();`,
+  },
+];
+
+const HOT_PATH = STAGES.filter(s => s.id !== 'logger');
+const TICK_BUDGET_US = 50;
+const SLOW_TICK_US = 100;
+
+export const ArchitectureView = () => {
+  const [selected, setSelected] = useState<StageId>('strategy');
+  const [budgets, setBudgets] = useState<Record<StageId, number>>(
+    () => Object.fromEntries(STAGES.map(s => [s.id, s.defaultBudget])) as Record<StageId, number>
+  );
+  // queues[i] sits between HOT_PATH[i] and HOT_PATH[i + 1]; the scaffold uses a Mutex throughout
+  const [queues, setQueues] = useState<QueueType[]>(() => HOT_PATH.slice(1).map(() => 'mutex'));
+  const [loggerQueue, setLoggerQueue] = useState<QueueType>('ringbuffer');
+
+  const stageTotal = HOT_PATH.reduce((sum, s) => sum + budgets[s.id], 0);
+  const hopTotal = queues.reduce((sum, q) => sum + QUEUES[q].hopCost, 0);
+  const tickToTrade = stageTotal + hopTotal;
+  const stage = STAGES.find(s => s.id === selected)!;
+  const stageIdx = HOT_PATH.findIndex(s => s.id === selected);
+
+  const cycleQueue = (idx: number) => {
+    setQueues(qs => qs.map((q, i) => i === idx ? QUEUE_ORDER[(QUEUE_ORDER.indexOf(q) + 1) % QUEUE_ORDER.length] : q));
+  };
+
+  const totalColor = tickToTrade > SLOW_TICK_US ? 'text-hl-red' : tickToTrade > TICK_BUDGET_US ? 'text-yellow-400' : 'text-hl-green';
+
+  const renderQueue = (queue: QueueType, onClick: () => void) => (
+    <button
+      onClick={onClick}
+      title="点击切换队列类型"
+      className="flex flex-col items-center mx-1 mt-8 shrink-0 group"
+    >
+      <ArrowRight size={16} className="text-gray-600 group-hover:text-hl-green" />
+      <span className="text-[9px] font-mono text-gray-500 group-hover:text-white whitespace-nowrap">{QUEUES[queue].label}</span>
+    </button>
+  );
+
+  const renderStage = (s: Stage) => (
+    <button
+      onClick={() => setSelected(s.id)}
+      className={`flex flex-col items-center p-3 rounded-lg border w-28 shrink-0 transition-colors ${
+        selected === s.id ? 'border-hl-green bg-hl-green/10' : 'border-hl-border bg-[#0d0e11] hover:border-hl-green/50'
+      }`}
+    >
+      <s.icon size={20} className={selected === s.id ? 'text-hl-green mb-1' : 'text-gray-400 mb-1'} />
+      <span className="text-xs font-bold text-white">{s.name}</span>
+      <span className="text-[10px] text-gray-500">{s.subtitle}</span>
+      <span className="text-[10px] font-mono text-hl-accent mt-1">{budgets[s.id]}µs</span>
+    </button>
+  );
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">HFT 引擎架构</h1>
+          <p className="text-gray-400 text-sm">点击各阶段查看延迟预算、对应代码与阶段间的队列类型。</p>
+        </div>
+        <div className="flex flex-col items-end">
+          <span className="text-[10px] text-gray-500 uppercase">Tick-to-Trade</span>
+          <span className={`text-2xl font-mono font-bold ${totalColor}`}>{tickToTrade.toFixed(1)}µs</span>
+        </div>
+      </div>
+
+      <div className="bg-hl-card border border-hl-border rounded-xl p-6 mb-6 overflow-x-auto">
+        <div className="flex items-start">
+          {HOT_PATH.map((s, i) => (
+            <React.Fragment key={s.id}>
+              <div className="flex flex-col items-center">
+                {renderStage(s)}
+                {s.id === 'strategy' && (
+                  <>
+                    <div className="h-4 border-l border-dashed border-gray-600"></div>
+                    <button
+                      onClick={() => setLoggerQueue(q => QUEUE_ORDER[(QUEUE_ORDER.indexOf(q) + 1) % QUEUE_ORDER.length])}
+                      title="点击切换队列类型"
+                      className="text-[9px] font-mono text-gray-500 hover:text-white mb-1"
+                    >
+                      {QUEUES[loggerQueue].label}
+                    </button>
+                    {renderStage(STAGES[STAGES.length - 1])}
+                  </>
+                )}
+              </div>
+              {i < queues.length && renderQueue(queues[i], () => cycleQueue(i))}
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="mt-6">
+          <div className="flex h-3 w-full rounded overflow-hidden bg-[#0d0e11]">
+            {HOT_PATH.map((s, i) => (
+              <div
+                key={s.id}
+                className={`${selected === s.id ? 'bg-hl-green' : i % 2 === 0 ? 'bg-hl-blue/60' : 'bg-hl-accent/60'}`}
+                style={{ width: `${(budgets[s.id] / tickToTrade) * 100}%` }}
+                title={`${s.name}: ${budgets[s.id]}µs`}
+              ></div>
+            ))}
+            <div className="bg-hl-red/60" style={{ width: `${(hopTotal / tickToTrade) * 100}%` }} title={`Queue hops: ${hopTotal.toFixed(1)}µs`}></div>
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1 font-mono">
+            <span>stages {stageTotal.toFixed(1)}µs + queue hops {hopTotal.toFixed(1)}µs</span>
+            <span>目标 &lt;{TICK_BUDGET_US}µs · 告警 &gt;{SLOW_TICK_US}µs</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <CodeBlock code={stage.code} />
+        </div>
+        <div className="bg-hl-card border border-hl-border rounded-xl p-4 space-y-4">
+          <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+            <Timer size={14} className="mr-2" /> {stage.name} · 延迟预算
+          </h4>
+          <p className="text-xs text-gray-400">{stage.description}</p>
+          <ParamSlider
+            label="Latency Budget (µs)"
+            value={budgets[stage.id]}
+            min={0.5}
+            max={stage.id === 'logger' ? 500 : 60}
+            step={0.5}
+            digits={1}
+            onChange={(v) => setBudgets(b => ({ ...b, [stage.id]: v }))}
+          />
+          {stage.id === 'logger' ? (
+            <div className="text-xs text-gray-400 border-t border-hl-border pt-3">
+              <span className="text-gray-500">入队方式:</span> <span className="font-mono text-white">{QUEUES[loggerQueue].label}</span>
+              <p className="text-[10px] text-gray-500 mt-1">{QUEUES[loggerQueue].desc} 不计入 tick-to-trade。</p>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-400 border-t border-hl-border pt-3 space-y-2">
+              {stageIdx > 0 && (
+                <div>
+                  <span className="text-gray-500">上游队列:</span>{' '}
+                  <button onClick={() => cycleQueue(stageIdx - 1)} className="font-mono text-white hover:text-hl-green">{QUEUES[queues[stageIdx - 1]].label}</button>
+                  <span className="text-gray-600"> (+{QUEUES[queues[stageIdx - 1]].hopCost}µs)</span>
+                  <p className="text-[10px] text-gray-500">{QUEUES[queues[stageIdx - 1]].desc}</p>
+                </div>
+              )}
+              {stageIdx < queues.length && (
+                <div>
+                  <span className="text-gray-500">下游队列:</span>{' '}
+                  <button onClick={() => cycleQueue(stageIdx)} className="font-mono text-white hover:text-hl-green">{QUEUES[queues[stageIdx]].label}</button>
+                  <span className="text-gray-600"> (+{QUEUES[queues[stageIdx]].hopCost}µs)</span>
+                  <p className="text-[10px] text-gray-500">{QUEUES[queues[stageIdx]].desc}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
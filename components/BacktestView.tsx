@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { Upload, PlayCircle, Settings, BarChart3, Database, Siren } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { BacktestResult, TapeTick, generateSampleTicks, parseTickFile, runBacktest } from '../engine/backtest';
+import { createRng } from '../engine/rng';
+import { SimConfig } from '../engine/simulation';
+import { INITIAL_PRICE } from '../engine/stoikov';
+import { StrategyConfig } from '../engine/strategies';
+import { Scenario } from '../types';
+import { ScenarioReportView } from './ScenarioPanel';
+import { StrategyControls } from './StrategyControls';
+import { downsample, ParamSlider, StatTile } from './ui';
+
+const tooltipStyle = { backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' };
+
+export const BacktestView = ({
+  config,
+  scenarios,
+  onStrategyChange,
+  onVolatilityChange
+}: {
+  config: SimConfig;
+  scenarios: Scenario[];
+  onStrategyChange: (config: StrategyConfig) => void;
+  onVolatilityChange: (value: number) => void;
+}) => {
+  const [ticks, setTicks] = useState<TapeTick[]>([]);
+  const [source, setSource] = useState('');
+  const [seed, setSeed] = useState(42);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [scenarioId, setScenarioId] = useState('');
+  const [injectAt, setInjectAt] = useState(60);
+  const { volatility } = config;
+
+  const loadFile = async (file: File) => {
+    try {
+      const parsed = parseTickFile(await file.text(), file.name);
+      setTicks(parsed);
+      setSource(file.name);
+      setError(null);
+      setResult(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const loadSample = () => {
+    setTicks(generateSampleTicks(5000, INITIAL_PRICE, volatility, createRng(seed)));
+    setSource(`sample (seed ${seed})`);
+    setError(null);
+    setResult(null);
+  };
+
+  const run = () => {
+    if (ticks.length === 0) return;
+    const scenario = scenarios.find(s => s.id === scenarioId);
+    setResult(runBacktest(ticks, config, createRng(seed), scenario && { scenario, at: injectAt }));
+  };
+
+  const chartData = result ? downsample(result.points) : [];
+  const summary = result?.summary;
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">历史回测 (Backtest)</h1>
+          <p className="text-gray-400 text-sm">用录制的 tick 数据确定性地回放 Avellaneda-Stoikov 报价与成交逻辑。</p>
+        </div>
+        <button
+          onClick={run}
+          disabled={ticks.length === 0}
+          className="flex items-center px-6 py-2 rounded-full font-bold transition-all bg-hl-green text-white hover:bg-hl-green/90 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <PlayCircle className="mr-2" /> 运行回测
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-[400px]">
+        <div className="lg:col-span-2 flex flex-col gap-6">
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 h-[260px] flex flex-col">
+            <div className="text-xs text-gray-500 mb-2">Equity Curve (PnL, USDC)</div>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="timestamp" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(2)} />
+                <Line type="monotone" dataKey="equity" stroke="#2ebd85" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 h-[200px] flex flex-col">
+            <div className="text-xs text-gray-500 mb-2">Inventory Path</div>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="timestamp" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} />
+                <Line type="step" dataKey="inventory" stroke="#8b5cf6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Database size={14} className="mr-2" /> 数据源 (Tick File)
+            </h4>
+            <div className="space-y-3 text-xs">
+              <label className="flex items-center justify-center w-full p-3 border border-dashed border-hl-border rounded-lg cursor-pointer hover:border-hl-green/50 text-gray-400">
+                <Upload size={14} className="mr-2" /> 上传 CSV / JSONL
+                <input
+                  type="file"
+                  accept=".csv,.jsonl,.json,.txt"
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])}
+                />
+              </label>
+              <button onClick={loadSample} className="w-full p-2 rounded-lg bg-[#0d0e11] border border-hl-border text-gray-400 hover:text-white">
+                生成示例数据 (5000 ticks)
+              </button>
+              <div className="text-gray-500 font-mono break-all">
+                {source ? `${source} · ${ticks.length} ticks` : '未加载数据'}
+              </div>
+              {error && <div className="text-hl-red">{error}</div>}
+              <p className="text-[10px] text-gray-600 leading-relaxed">
+                CSV: <code>timestamp,price[,tradePrice,tradeSize,tradeSide]</code><br/>
+                JSONL: <code>{'{"timestamp":…,"price":…,"trades":[{"price":…,"size":…,"side":"buy"}]}'}</code>
+              </p>
+            </div>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Settings size={14} className="mr-2" /> 策略参数 (Strategy Params)
+            </h4>
+            <div className="space-y-4">
+              <StrategyControls config={config.strategy} onChange={onStrategyChange} />
+              <ParamSlider label="Market Volatility (σ)" value={volatility} min={0.1} max={2.0} step={0.1} onChange={onVolatilityChange} accent="accent-hl-blue" />
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-400">Seed</span>
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                  className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+              <BarChart3 size={14} className="mr-2" /> 回测结果 (Summary)
+            </h4>
+            <div className="grid grid-cols-2 gap-4">
+              <StatTile
+                label="Total PnL"
+                value={summary ? `$${summary.pnl.toFixed(2)}` : '—'}
+                className={!summary ? 'text-gray-300' : summary.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'}
+              />
+              <StatTile label="Sharpe (per s)" value={summary ? summary.sharpe.toFixed(3) : '—'} className="text-hl-accent" />
+              <StatTile label="Max Drawdown" value={summary ? `$${summary.maxDrawdown.toFixed(2)}` : '—'} className="text-hl-red" />
+              <StatTile label="Fills" value={summary ? summary.fills : '—'} />
+              <StatTile label="Turnover" value={summary ? `$${summary.turnover.toFixed(0)}` : '—'} className="text-hl-blue" />
+              <StatTile label="Fees Paid" value={summary ? `$${summary.fees.toFixed(2)}` : '—'} className={summary && summary.fees < 0 ? 'text-hl-green' : 'text-gray-300'} />
+              <StatTile label="Funding Paid" value={summary ? `$${summary.funding.toFixed(2)}` : '—'} />
+            </div>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Siren size={14} className="mr-2" /> 压力场景 (Stress Scenario)
+            </h4>
+            <div className="space-y-4 text-xs">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400">Scenario</span>
+                <select
+                  value={scenarioId}
+                  onChange={(e) => setScenarioId(e.target.value)}
+                  className="bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-white"
+                >
+                  <option value="">无 (None)</option>
+                  {scenarios.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+              </div>
+              {scenarioId && (
+                <ParamSlider label="Inject At (s)" value={injectAt} min={0} max={600} step={5} digits={0} onChange={setInjectAt} accent="accent-hl-red" />
+              )}
+              {result?.scenario ? (
+                <ScenarioReportView report={result.scenario} />
+              ) : (
+                scenarioId && result && <div className="text-gray-500">数据长度不足，场景未能注入</div>
+              )}
+              <p className="text-[10px] text-gray-600 leading-relaxed">
+                带成交记录的数据按录制的成交撮合，只有价格偏移、行情中断和拒单生效。
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ListOrdered } from 'lucide-react';
+import { averageMarkouts, Blotter, combinedTotals, MARKOUT_HORIZONS, MarkoutTotals } from '../engine/blotter';
+
+const tone = (v: number | null) => (v === null ? 'text-gray-600' : v > 0 ? 'text-hl-green' : v < 0 ? 'text-hl-red' : 'text-gray-400');
+
+// Markouts are shown in ticks: a move of a fraction of a tick reads more clearly than a price delta
+const formatTicks = (v: number | null, tickSize: number) => (v === null ? '—' : `${v >= 0 ? '+' : ''}${(v / tickSize).toFixed(2)}`);
+
+/**
+ * Our fills, newest first, with mid markouts at each horizon, and the markouts averaged per side.
+ * Positive = the mid moved our way after the fill; consistently negative short-horizon markouts mean
+ * the quoter is being adversely selected.
+ */
+export const BlotterPanel = ({ blotter, tickSize }: { blotter: Blotter; tickSize: number }) => {
+  const rows: [string, MarkoutTotals][] = [
+    ['Buy', blotter.totals.buy],
+    ['Sell', blotter.totals.sell],
+    ['All', combinedTotals(blotter)],
+  ];
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+        <ListOrdered size={14} className="mr-2" /> 成交记录 (Fill Blotter)
+        <span className="ml-auto normal-case font-normal text-gray-600">{blotter.count} fills</span>
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <div className="text-[10px] text-gray-500 mb-2">Markout (ticks, 均值/单位)</div>
+          <table className="w-full text-[11px] font-mono">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">Side</th>
+                {MARKOUT_HORIZONS.map(h => <th key={h} className="text-right font-normal">+{h}s</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([label, totals]) => (
+                <tr key={label}>
+                  <td className={label === 'Buy' ? 'text-hl-green' : label === 'Sell' ? 'text-hl-red' : 'text-gray-300'}>{label}</td>
+                  {averageMarkouts(totals).map((v, k) => (
+                    <td key={k} className={`text-right ${tone(v)}`}>{formatTicks(v, tickSize)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-[10px] text-gray-600 mt-2 leading-relaxed">
+            成交后中间价向有利方向移动为正。短周期持续为负说明报价被知情流逆向选择。
+          </p>
+        </div>
+
+        <div className="md:col-span-2 max-h-48 overflow-y-auto">
+          <table className="w-full text-[11px] font-mono">
+            <thead className="sticky top-0 bg-hl-card">
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">Time</th>
+                <th className="text-left font-normal">Side</th>
+                <th className="text-right font-normal">Price</th>
+                <th className="text-right font-normal">Size</th>
+                <th className="text-right font-normal">Inv</th>
+                <th className="text-right font-normal">Fee</th>
+                {MARKOUT_HORIZONS.map(h => <th key={h} className="text-right font-normal">+{h}s</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {blotter.fills.length === 0 && (
+                <tr><td colSpan={6 + MARKOUT_HORIZONS.length} className="text-gray-600 py-2">暂无成交</td></tr>
+              )}
+              {[...blotter.fills].reverse().map(f => (
+                <tr key={f.id} className="border-t border-hl-border/40">
+                  <td className="text-gray-500">{f.time.toFixed(2)}s</td>
+                  <td className={f.side === 'buy' ? 'text-hl-green' : 'text-hl-red'}>{f.side === 'buy' ? 'BUY' : 'SELL'}</td>
+                  <td className="text-right text-white">{f.price.toFixed(2)}</td>
+                  <td className="text-right text-gray-300">{f.size}</td>
+                  <td className="text-right text-gray-300">{f.inventory}</td>
+                  <td className={`text-right ${f.fee > 0 ? 'text-hl-red' : 'text-hl-green'}`}>{f.fee.toFixed(4)}</td>
+                  {f.markouts.map((v, k) => (
+                    <td key={k} className={`text-right ${tone(v)}`}>{formatTicks(v, tickSize)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
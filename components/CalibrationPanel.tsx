@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Crosshair } from 'lucide-react';
+import { CalibrationState } from '../types';
+import { CalibrationConfig, CalibrationTruth, VolEstimator } from '../engine/calibration';
+import { ParamSlider, StatTile } from './ui';
+
+const HISTORY = 300;
+const tooltipStyle = { backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff', fontSize: 10 };
+
+interface Point {
+  time: number;
+  sigma: number | null;
+  trueSigma: number | null;
+  arrivalA: number | null;
+  trueA: number | null;
+  arrivalK: number | null;
+  trueK: number | null;
+}
+
+const fmt = (v: number | null, digits = 3) => (v === null ? '—' : v.toFixed(digits));
+
+// Relative error of an estimate against the generator's value, coloured by how far off it is
+const errorTone = (estimate: number | null, truth: number | null) => {
+  if (estimate === null || truth === null || truth === 0) return 'text-white';
+  const err = Math.abs(estimate / truth - 1);
+  return err <= 0.1 ? 'text-hl-green' : err <= 0.3 ? 'text-yellow-400' : 'text-hl-red';
+};
+
+const SeriesChart = ({ data, estimate, truth, label }: { data: Point[]; estimate: keyof Point; truth: keyof Point; label: string }) => (
+  <div className="h-[70px]">
+    <div className="text-[10px] text-gray-500">{label}</div>
+    <ResponsiveContainer width="100%" height="85%">
+      <LineChart data={data}>
+        <XAxis dataKey="time" hide />
+        <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{ fontSize: 9 }} width={36} />
+        <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(3)} />
+        <Line type="monotone" dataKey={truth} name="true" stroke="#6b7280" strokeDasharray="4 3" dot={false} isAnimationActive={false} connectNulls />
+        <Line type="monotone" dataKey={estimate} name="est" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} connectNulls />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+/**
+ * Online estimates of σ, A and k next to the values the simulator generates with, and the switch that
+ * lets the strategy quote with the estimates.
+ */
+export const CalibrationPanel = ({
+  calibration,
+  truth,
+  config,
+  onConfigChange
+}: {
+  calibration?: CalibrationState;
+  truth: CalibrationTruth;
+  config: CalibrationConfig;
+  onConfigChange: (config: CalibrationConfig) => void;
+}) => {
+  const set = (patch: Partial<CalibrationConfig>) => onConfigChange({ ...config, ...patch });
+  const [history, setHistory] = useState<Point[]>([]);
+  const time = calibration?.lastTime ?? 0;
+
+  useEffect(() => {
+    const point: Point = {
+      time,
+      sigma: calibration?.sigma ?? null,
+      trueSigma: truth.sigma,
+      arrivalA: calibration?.arrivalA ?? null,
+      trueA: truth.arrivalA,
+      arrivalK: calibration?.arrivalK ?? null,
+      trueK: truth.arrivalK,
+    };
+    // A reset or replay rewinds the clock: start the history over
+    setHistory(h => (h.length > 0 && time < h[h.length - 1].time ? [point] : [...h, point].slice(-HISTORY)));
+  }, [time]);
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <Crosshair size={14} className="mr-2" /> 在线校准 (Calibration)
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.auto}
+            onChange={(e) => set({ auto: e.target.checked })}
+            className="mr-1 accent-hl-blue"
+          />
+          自动 (Auto)
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3 text-[10px]">
+        {([['ewma', 'EWMA'], ['rolling', '滚动窗口 (Rolling)']] as [VolEstimator, string][]).map(([estimator, label]) => (
+          <button
+            key={estimator}
+            onClick={() => set({ volEstimator: estimator })}
+            className={`py-1 rounded border ${config.volEstimator === estimator ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 mb-3">
+        {config.volEstimator === 'ewma' ? (
+          <ParamSlider label="EWMA Half-life (s)" value={config.halfLife} min={5} max={300} step={5} digits={0} onChange={(v) => set({ halfLife: v })} accent="accent-hl-blue" />
+        ) : (
+          <ParamSlider label="Window (s)" value={config.window} min={10} max={600} step={10} digits={0} onChange={(v) => set({ window: v })} accent="accent-hl-blue" />
+        )}
+        <ParamSlider label="Fill Fit Half-life (s)" value={config.fitHalfLife} min={30} max={1800} step={30} digits={0} onChange={(v) => set({ fitHalfLife: v })} accent="accent-hl-green" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <StatTile label={`σ̂ (σ ${fmt(truth.sigma)})`} value={fmt(calibration?.sigma ?? null)} className={errorTone(calibration?.sigma ?? null, truth.sigma)} />
+        <StatTile label={`Â (A ${fmt(truth.arrivalA, 2)})`} value={fmt(calibration?.arrivalA ?? null, 2)} className={errorTone(calibration?.arrivalA ?? null, truth.arrivalA)} />
+        <StatTile label={`k̂ (k ${fmt(truth.arrivalK, 2)})`} value={fmt(calibration?.arrivalK ?? null, 2)} className={errorTone(calibration?.arrivalK ?? null, truth.arrivalK)} />
+      </div>
+
+      <div className="space-y-2">
+        <SeriesChart data={history} estimate="sigma" truth="trueSigma" label="σ̂ vs σ" />
+        <SeriesChart data={history} estimate="arrivalA" truth="trueA" label="Â vs A" />
+        <SeriesChart data={history} estimate="arrivalK" truth="trueK" label="k̂ vs k" />
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        σ 为每 √秒 的价格波动，按中间价实测；滑块上的 σ 是名义值，生成器每跳的标准差为 σ/√3，虚线为其实际值。A、k 由各报价距离上的成交频率拟合，只有 Poisson 成交模型有可对照的真值。自动模式下策略改用估计值报价，估计值未就绪前仍用滑块参数。
+      </p>
+    </div>
+  );
+};
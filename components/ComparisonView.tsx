@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { GitCompare, PlayCircle, Plus, Settings, X } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { ComparisonPoint, ComparisonResult, ComparisonVariant, DEFAULT_VARIANTS, runComparison } from '../engine/compare';
+import { SimConfig } from '../engine/simulation';
+import { StrategyControls } from './StrategyControls';
+import { downsample, ParamSlider } from './ui';
+
+const VARIANT_COLORS = ['#2ebd85', '#3b82f6', '#f6465d', '#facc15', '#8b5cf6', '#f97316'];
+const MAX_VARIANTS = VARIANT_COLORS.length;
+
+const tooltipStyle = { backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' };
+
+// Table columns: label, value formatter, and whether a higher value is better (for highlighting the best row)
+const COLUMNS: { label: string; value: (s: ComparisonResult['summaries'][number]) => number; format: (v: number) => string; higherIsBetter: boolean }[] = [
+  { label: 'PnL', value: s => s.pnl, format: v => `$${v.toFixed(2)}`, higherIsBetter: true },
+  { label: 'Sharpe (per s)', value: s => s.sharpe, format: v => v.toFixed(3), higherIsBetter: true },
+  { label: 'Max DD', value: s => s.maxDrawdown, format: v => `$${v.toFixed(2)}`, higherIsBetter: false },
+  { label: 'Inv Var', value: s => s.inventoryVariance, format: v => v.toFixed(2), higherIsBetter: false },
+  { label: 'Fills/min', value: s => s.fillRate, format: v => v.toFixed(1), higherIsBetter: true },
+  { label: 'Fees', value: s => s.fees, format: v => `$${v.toFixed(2)}`, higherIsBetter: false },
+];
+
+/**
+ * Runs several strategy configurations in lockstep on one seeded price path and compares them.
+ * Fees, fill model, risk limits and latency come from the Simulation settings so only the strategy differs.
+ */
+export const ComparisonView = ({ config }: { config: SimConfig }) => {
+  const [variants, setVariants] = useState<ComparisonVariant[]>(DEFAULT_VARIANTS);
+  const [seed, setSeed] = useState(42);
+  const [duration, setDuration] = useState(300); // Seconds of simulated time
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  // Labels are captured with the result so editing a variant does not relabel an old run
+  const [runLabels, setRunLabels] = useState<string[]>([]);
+
+  const updateVariant = (idx: number, patch: Partial<ComparisonVariant>) =>
+    setVariants(vs => vs.map((v, i) => (i === idx ? { ...v, ...patch } : v)));
+
+  const addVariant = () =>
+    setVariants(vs => [...vs, { ...vs[vs.length - 1] ?? DEFAULT_VARIANTS[0], label: `Config ${vs.length + 1}` }]);
+
+  const removeVariant = (idx: number) => setVariants(vs => vs.filter((_, i) => i !== idx));
+
+  const run = () => {
+    if (variants.length === 0) return;
+    setResult(runComparison(config, variants, seed, Math.round(duration / config.dt)));
+    setRunLabels(variants.map(v => v.label));
+  };
+
+  const chartData = result ? downsample(result.points) : [];
+  const best = result
+    ? COLUMNS.map(col => {
+        const values = result.summaries.map(col.value);
+        return values.indexOf(col.higherIsBetter ? Math.max(...values) : Math.min(...values));
+      })
+    : [];
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">策略对比 (A/B Compare)</h1>
+          <p className="text-gray-400 text-sm">
+            多组配置在同一条随机价格路径上同步运行（{config.fillModel === 'book' ? 'L2 订单簿' : 'Poisson'} 成交模型），公平比较而不是对比两次不同的随机运行。
+          </p>
+        </div>
+        <button
+          onClick={run}
+          disabled={variants.length === 0}
+          className="flex items-center px-6 py-2 rounded-full font-bold transition-all bg-hl-green text-white hover:bg-hl-green/90 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <PlayCircle className="mr-2" /> 运行对比
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-[400px]">
+        <div className="lg:col-span-2 flex flex-col gap-6">
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4 h-[320px] flex flex-col">
+            <div className="flex justify-between text-xs text-gray-500 mb-2">
+              <span>Equity Curves (PnL, USDC)</span>
+              <div className="flex space-x-3">
+                {runLabels.map((label, i) => (
+                  <span key={i} className="flex items-center">
+                    <span className="w-3 h-1 mr-1" style={{ backgroundColor: VARIANT_COLORS[i] }}></span>{label}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="time" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{fontSize: 12}} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(2)} />
+                {runLabels.map((label, i) => (
+                  <Line
+                    key={i}
+                    name={label}
+                    type="monotone"
+                    dataKey={(p: ComparisonPoint) => p.equity[i]}
+                    stroke={VARIANT_COLORS[i]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4 overflow-x-auto">
+            <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+              <GitCompare size={14} className="mr-2" /> 对比结果 (Comparison)
+            </h4>
+            {result ? (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500 border-b border-hl-border">
+                    <th className="text-left py-1 font-normal">Config</th>
+                    {COLUMNS.map(col => <th key={col.label} className="text-right py-1 font-normal">{col.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.summaries.map((summary, row) => (
+                    <tr key={row} className="border-b border-hl-border/50">
+                      <td className="py-1 text-left" style={{ color: VARIANT_COLORS[row] }}>{runLabels[row]}</td>
+                      {COLUMNS.map((col, c) => (
+                        <td key={col.label} className={`py-1 text-right ${best[c] === row ? 'text-white font-bold' : 'text-gray-400'}`}>
+                          {col.format(col.value(summary))}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-xs text-gray-500">点击“运行对比”生成结果。每列最优值高亮。</div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Settings size={14} className="mr-2" /> 运行设置 (Run)
+            </h4>
+            <div className="space-y-4">
+              <ParamSlider label="Duration (s)" value={duration} min={30} max={1200} step={30} digits={0} onChange={setDuration} accent="accent-hl-blue" />
+              <div className="text-[10px] text-gray-500">
+                价格路径波动率 σ = {config.volatility.toFixed(2)}（来自策略模拟面板）；各配置的 σ 只是策略自身的估计。
+              </div>
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-400">Seed</span>
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                  className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+                />
+              </div>
+            </div>
+          </div>
+
+          {variants.map((variant, idx) => (
+            <div key={idx} className="bg-hl-card border border-hl-border rounded-xl p-4" style={{ borderLeftColor: VARIANT_COLORS[idx], borderLeftWidth: 3 }}>
+              <div className="flex items-center mb-3 gap-2">
+                <input
+                  type="text"
+                  value={variant.label}
+                  onChange={(e) => updateVariant(idx, { label: e.target.value })}
+                  className="flex-1 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-xs font-mono text-white"
+                />
+                <button onClick={() => removeVariant(idx)} className="text-gray-500 hover:text-hl-red" title="删除">
+                  <X size={14} />
+                </button>
+              </div>
+              <div className="space-y-4">
+                <StrategyControls config={variant.strategy} onChange={(strategy) => updateVariant(idx, { strategy })} />
+                <ParamSlider
+                  label="Assumed Volatility (σ)"
+                  value={variant.volatility}
+                  min={0.1}
+                  max={2.0}
+                  step={0.1}
+                  onChange={(volatility) => updateVariant(idx, { volatility })}
+                  accent="accent-hl-blue"
+                />
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addVariant}
+            disabled={variants.length >= MAX_VARIANTS}
+            className="w-full flex items-center justify-center p-2 rounded-lg bg-[#0d0e11] border border-dashed border-hl-border text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} className="mr-2" /> 添加配置（最多 {MAX_VARIANTS} 组）
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { SimBook } from '../types';
+import { isMyOrder, levelSize } from '../engine/orderBook';
+
+interface LadderRow {
+  ticks: number;
+  price: number;
+  bidSize: number;
+  askSize: number;
+  bidCum: number;
+  askCum: number;
+  myBid: boolean;
+  myAsk: boolean;
+}
+
+// Contiguous price ladder centred on the mid; rows are keyed by integer tick so React reuses the DOM every tick
+const buildRows = (book: SimBook, mid: number, tickSize: number, depth: number): LadderRow[] => {
+  const toTicks = (p: number) => Math.round(p / tickSize);
+  const center = toTicks(mid);
+  const bids = new Map(book.bids.map(l => [toTicks(l.price), l]));
+  const asks = new Map(book.asks.map(l => [toTicks(l.price), l]));
+
+  const rows: LadderRow[] = [];
+  for (let t = center + depth; t >= center - depth; t--) {
+    const bid = bids.get(t);
+    const ask = asks.get(t);
+    rows.push({
+      ticks: t,
+      price: t * tickSize,
+      bidSize: bid ? levelSize(bid) : 0,
+      askSize: ask ? levelSize(ask) : 0,
+      bidCum: 0,
+      askCum: 0,
+      myBid: !!bid?.orders.some(isMyOrder),
+      myAsk: !!ask?.orders.some(isMyOrder),
+    });
+  }
+
+  // Cumulative depth grows away from the touch: asks accumulate upwards, bids downwards
+  let cum = 0;
+  for (let i = rows.length - 1; i >= 0; i--) rows[i].askCum = cum += rows[i].askSize;
+  cum = 0;
+  for (let i = 0; i < rows.length; i++) rows[i].bidCum = cum += rows[i].bidSize;
+  return rows;
+};
+
+export const DepthLadder = React.memo(({
+  book,
+  mid,
+  reservationPrice,
+  tickSize,
+  depth = 12
+}: {
+  book?: SimBook;
+  mid: number;
+  reservationPrice: number;
+  tickSize: number;
+  depth?: number;
+}) => {
+  const rows = useMemo(() => book ? buildRows(book, mid, tickSize, depth) : [], [book, mid, tickSize, depth]);
+
+  if (!book) {
+    return (
+      <div className="h-full flex items-center justify-center text-xs text-gray-600 text-center p-4">
+        切换到 L2 订单簿成交模型以查看深度
+      </div>
+    );
+  }
+
+  const maxCum = Math.max(1, ...rows.map(r => Math.max(r.bidCum, r.askCum)));
+  const reservationTicks = Math.round(reservationPrice / tickSize);
+  const midTicks = mid / tickSize;
+
+  return (
+    <div className="font-mono text-[10px] select-none">
+      <div className="grid grid-cols-3 text-gray-500 pb-1 border-b border-hl-border mb-1">
+        <span className="text-left">Bid</span>
+        <span className="text-center">Price</span>
+        <span className="text-right">Ask</span>
+      </div>
+      {rows.map(row => (
+        <React.Fragment key={row.ticks}>
+          {row.ticks < midTicks && row.ticks + 1 >= midTicks && (
+            <div className="border-t border-hl-blue my-px relative">
+              <span className="absolute right-0 -top-2 text-[8px] text-hl-blue bg-[#0d0e11] px-1">mid {mid.toFixed(2)}</span>
+            </div>
+          )}
+          <div className={`grid grid-cols-3 relative h-[14px] items-center ${row.ticks === reservationTicks ? 'outline outline-1 outline-hl-accent/60' : ''}`}>
+            <div className="relative h-full">
+              <div className="absolute right-0 top-0 h-full bg-hl-green/15" style={{ width: `${(row.bidCum / maxCum) * 100}%` }}></div>
+              <span className={`relative px-1 ${row.myBid ? 'bg-hl-green text-black font-bold rounded-sm' : row.bidSize ? 'text-hl-green' : 'text-gray-700'}`}>
+                {row.bidSize || '·'}
+              </span>
+            </div>
+            <span className={`text-center ${row.ticks === reservationTicks ? 'text-hl-accent font-bold' : 'text-gray-400'}`}>
+              {row.price.toFixed(2)}
+            </span>
+            <div className="relative h-full text-right">
+              <div className="absolute left-0 top-0 h-full bg-hl-red/15" style={{ width: `${(row.askCum / maxCum) * 100}%` }}></div>
+              <span className={`relative px-1 ${row.myAsk ? 'bg-hl-red text-black font-bold rounded-sm' : row.askSize ? 'text-hl-red' : 'text-gray-700'}`}>
+                {row.askSize || '·'}
+              </span>
+            </div>
+          </div>
+        </React.Fragment>
+      ))}
+      <div className="flex justify-between text-[9px] text-gray-500 pt-1 mt-1 border-t border-hl-border">
+        <span><span className="inline-block w-2 h-2 bg-hl-green mr-1 align-middle"></span>我的挂单</span>
+        <span><span className="inline-block w-2 h-2 outline outline-1 outline-hl-accent mr-1 align-middle"></span>保留价 r</span>
+      </div>
+    </div>
+  );
+});
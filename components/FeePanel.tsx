@@ -0,0 +1,110 @@
+import React from 'react';
+import { Percent } from 'lucide-react';
+import { Ledger, SimulationStats } from '../types';
+import { FeeSchedule, feeTierIndex, FundingConfig, FundingMode } from '../engine/fees';
+import { ParamSlider } from './ui';
+
+const formatUsd = (v: number) => `${v >= 0 ? '+' : '-'}$${Math.abs(v).toFixed(2)}`;
+const formatVolume = (v: number) => v >= 1e9 ? `$${v / 1e9}B` : v >= 1e6 ? `$${v / 1e6}M` : `$${v}`;
+
+export const FeePanel = ({
+  stats,
+  ledger,
+  time,
+  fees,
+  funding,
+  onFeesChange,
+  onFundingChange
+}: {
+  stats: SimulationStats;
+  ledger: Ledger;
+  time: number;
+  fees: FeeSchedule;
+  funding: FundingConfig;
+  onFeesChange: (fees: FeeSchedule) => void;
+  onFundingChange: (funding: FundingConfig) => void;
+}) => {
+  const tierIdx = feeTierIndex(fees, ledger.volume);
+  const tier = fees.tiers[tierIdx];
+  const setFunding = (patch: Partial<FundingConfig>) => onFundingChange({ ...funding, ...patch });
+
+  const rows: [string, number][] = [
+    ['Spread Capture', stats.spreadPnl],
+    ['Inventory / MTM', stats.inventoryPnl],
+    [tier.makerBps < 0 ? 'Fees / Rebates' : 'Fees', stats.feePnl],
+    ['Funding', stats.fundingPnl],
+    ...(stats.liquidationPnl !== 0 ? [['Liquidation Penalty', stats.liquidationPnl] as [string, number]] : []),
+  ];
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+        <Percent size={14} className="mr-2" /> 费用与资金费 (Fees & Funding)
+      </h4>
+
+      <div className="space-y-3 mb-4 text-xs">
+        <div className="flex justify-between items-center">
+          <span className="text-gray-400">14d Volume Tier</span>
+          <select
+            value={fees.tiers.findIndex(t => t.minVolume === fees.baseVolume)}
+            onChange={(e) => onFeesChange({ ...fees, baseVolume: fees.tiers[parseInt(e.target.value, 10)].minVolume })}
+            className="bg-[#0d0e11] border border-hl-border rounded px-2 py-1 font-mono text-white"
+          >
+            {fees.tiers.map((t, i) => (
+              <option key={i} value={i}>≥ {formatVolume(t.minVolume)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex justify-between font-mono text-[10px]">
+          <span className="text-gray-500">Tier {tierIdx}</span>
+          <span className={tier.makerBps < 0 ? 'text-hl-green' : 'text-gray-300'}>maker {tier.makerBps}bps</span>
+          <span className="text-gray-300">taker {tier.takerBps}bps</span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {([['off', '关闭'], ['fixed', '固定'], ['simulated', '随机']] as [FundingMode, string][]).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setFunding({ mode })}
+              className={`py-1 rounded border ${funding.mode === mode ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {funding.mode !== 'off' && (
+          <>
+            <ParamSlider
+              label={funding.mode === 'simulated' ? 'Mean Funding Rate (bps)' : 'Funding Rate (bps)'}
+              value={funding.rate * 10000}
+              min={-5}
+              max={5}
+              step={0.05}
+              onChange={(v) => setFunding({ rate: v / 10000 })}
+              accent="accent-hl-blue"
+            />
+            <ParamSlider label="Funding Interval (s)" value={funding.interval} min={10} max={3600} step={10} digits={0} onChange={(v) => setFunding({ interval: v })} accent="accent-hl-blue" />
+            <div className="flex justify-between font-mono text-[10px] text-gray-500">
+              <span>当前费率 {(ledger.fundingRate * 10000).toFixed(3)}bps</span>
+              <span>下次结算 {Math.max(0, ledger.nextFundingTime - time).toFixed(0)}s</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="text-[10px] text-gray-500 mb-1">PnL 归因 (Attribution)</div>
+      <div className="bg-[#0d0e11] border border-hl-border rounded font-mono text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between px-2 py-1 border-b border-hl-border/50">
+            <span className="text-gray-400">{label}</span>
+            <span className={value >= 0 ? 'text-hl-green' : 'text-hl-red'}>{formatUsd(value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between px-2 py-1 font-bold">
+          <span className="text-white">Total</span>
+          <span className={stats.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'}>{formatUsd(stats.pnl)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
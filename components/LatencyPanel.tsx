@@ -0,0 +1,79 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { LatencyState } from '../types';
+import { LATENCY_PRESETS, LatencyConfig, percentile } from '../engine/latency';
+import { ParamSlider, StatTile } from './ui';
+
+const formatMs = (ms: number) => ms < 1 ? `${(ms * 1000).toFixed(0)}µs` : `${ms.toFixed(1)}ms`;
+
+export const LatencyPanel = ({
+  latency,
+  config,
+  tickMs,
+  onConfigChange
+}: {
+  latency: LatencyState;
+  config: LatencyConfig;
+  tickMs: number;
+  onConfigChange: (config: LatencyConfig) => void;
+}) => {
+  const set = (patch: Partial<LatencyConfig>) => onConfigChange({ ...config, ...patch });
+  const p50 = percentile(latency.samples, 50);
+  const p99 = percentile(latency.samples, 99);
+  // Anything slower than one tick means the market moves before our quote lands
+  const tone = (ms: number) => ms >= tickMs ? 'text-hl-red' : ms >= tickMs / 2 ? 'text-yellow-400' : 'text-hl-green';
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <Timer size={14} className="mr-2" /> 延迟模拟 (Latency)
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => set({ enabled: e.target.checked })}
+            className="mr-1 accent-hl-blue"
+          />
+          启用
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3 text-[10px]">
+        {LATENCY_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => set({ ...preset.config, enabled: true })}
+            className={`py-1 rounded border ${config.enabled && config.orderMs === preset.config.orderMs && config.feedMs === preset.config.feedMs ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {config.enabled && (
+        <div className="space-y-3 mb-3">
+          <ParamSlider label="Feed Delay (ms)" value={config.feedMs} min={0} max={200} step={0.5} digits={1} onChange={(v) => set({ feedMs: v })} accent="accent-hl-blue" />
+          <ParamSlider label="Compute (ms)" value={config.computeMs} min={0} max={20} step={0.05} onChange={(v) => set({ computeMs: v })} accent="accent-hl-blue" />
+          <ParamSlider label="Order Round-trip (ms)" value={config.orderMs} min={0} max={500} step={1} digits={0} onChange={(v) => set({ orderMs: v })} accent="accent-hl-blue" />
+          <ParamSlider label="Jitter (σ)" value={config.jitter} min={0} max={1.5} step={0.05} onChange={(v) => set({ jitter: v })} accent="accent-hl-blue" />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <StatTile label="Tick-to-Trade p50" value={formatMs(p50)} className={tone(p50)} />
+        <StatTile label="Tick-to-Trade p99" value={formatMs(p99)} className={tone(p99)} />
+        <StatTile
+          label="Stale PnL Lost"
+          value={`${latency.staleLoss > 0 ? '-' : '+'}$${Math.abs(latency.staleLoss).toFixed(2)}`}
+          className={latency.staleLoss > 0 ? 'text-hl-red' : 'text-hl-green'}
+        />
+        <StatTile label="Stale Fills" value={`${latency.staleFills}`} className="text-white" />
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        行情每 {tickMs}ms 跳动一次；报价到达交易所前，旧报价仍挂在盘口，被知情流吃掉的部分即为延迟损失。
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Radio } from 'lucide-react';
+import { TapeTick, TapeTrade } from '../engine/backtest';
+import { BookSnapshot, DEFAULT_FEED_URL, FeedChannel, parseFeedMessage, snapshotMid, subscriptionMessage } from '../engine/hyperliquid';
+
+type FeedStatus = 'idle' | 'connecting' | 'open' | 'closed' | 'error';
+
+const STATUS_LABELS: Record<FeedStatus, { label: string; className: string }> = {
+  idle: { label: '未连接 · 随机游走', className: 'text-gray-400 border-hl-border bg-[#0d0e11]' },
+  connecting: { label: '连接中…', className: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10' },
+  open: { label: '实时行情驱动', className: 'text-hl-green border-hl-green/30 bg-hl-green/10' },
+  closed: { label: '连接已断开', className: 'text-gray-400 border-hl-border bg-[#0d0e11]' },
+  error: { label: '连接错误', className: 'text-hl-red border-hl-red/40 bg-hl-red/10' },
+};
+
+const CHANNELS: FeedChannel[] = ['l2Book', 'trades'];
+
+/**
+ * Hyperliquid-format WebSocket feed. Trades are buffered and delivered with the next l2Book
+ * snapshot as one tick, the same shape the backtester replays.
+ */
+export const LiveFeedPanel = ({
+  onTick,
+  onConnectedChange
+}: {
+  onTick: (tick: TapeTick, snapshot: BookSnapshot) => void;
+  onConnectedChange: (connected: boolean) => void;
+}) => {
+  const [url, setUrl] = useState(DEFAULT_FEED_URL);
+  const [coin, setCoin] = useState('ETH');
+  const [status, setStatus] = useState<FeedStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [counts, setCounts] = useState({ books: 0, trades: 0 });
+  const [lastSnapshot, setLastSnapshot] = useState<BookSnapshot | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  // The parent re-creates its handlers every render; the socket callbacks always call the latest ones
+  const onTickRef = useRef(onTick);
+  const onConnectedRef = useRef(onConnectedChange);
+  onTickRef.current = onTick;
+  onConnectedRef.current = onConnectedChange;
+
+  const disconnect = () => {
+    socketRef.current?.close();
+    socketRef.current = null;
+  };
+
+  useEffect(() => disconnect, []);
+
+  const connect = () => {
+    disconnect();
+    setError(null);
+    setCounts({ books: 0, trades: 0 });
+    setLastSnapshot(null);
+    setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      setStatus('error');
+      setError((e as Error).message);
+      return;
+    }
+    socketRef.current = socket;
+    let pendingTrades: TapeTrade[] = [];
+
+    socket.onopen = () => {
+      CHANNELS.forEach(type => socket.send(subscriptionMessage(type, coin)));
+      setStatus('open');
+      onConnectedRef.current(true);
+    };
+    socket.onmessage = (msg) => {
+      let event;
+      try {
+        event = parseFeedMessage(String(msg.data));
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      }
+      if (!event) return;
+      if (event.type === 'trades') {
+        if (event.coin !== coin) return;
+        pendingTrades.push(...event.trades);
+        setCounts(c => ({ ...c, trades: c.trades + event.trades.length }));
+        return;
+      }
+      const { snapshot } = event;
+      const mid = snapshotMid(snapshot);
+      if (snapshot.coin !== coin || mid === undefined) return;
+      const tick: TapeTick = { timestamp: snapshot.time, price: mid, trades: pendingTrades };
+      pendingTrades = [];
+      setCounts(c => ({ ...c, books: c.books + 1 }));
+      setLastSnapshot(snapshot);
+      onTickRef.current(tick, snapshot);
+    };
+    socket.onerror = () => {
+      setStatus('error');
+      setError(`无法连接 ${url}`);
+    };
+    socket.onclose = () => {
+      if (socketRef.current === socket) socketRef.current = null;
+      setStatus(s => s === 'error' ? s : 'closed');
+      onConnectedRef.current(false);
+    };
+  };
+
+  const live = status === 'open' || status === 'connecting';
+  const badge = STATUS_LABELS[status];
+  const spread = lastSnapshot && lastSnapshot.bids[0] && lastSnapshot.asks[0] ? lastSnapshot.asks[0].price - lastSnapshot.bids[0].price : undefined;
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+        <Radio size={14} className="mr-2" /> 行情源 (Market Data)
+      </h4>
+
+      <div className="space-y-2 text-xs mb-3">
+        <input
+          type="text"
+          value={url}
+          disabled={live}
+          onChange={(e) => setUrl(e.target.value)}
+          className="w-full bg-[#0d0e11] border border-hl-border rounded px-2 py-1 font-mono text-white disabled:text-gray-500"
+        />
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={coin}
+            disabled={live}
+            onChange={(e) => setCoin(e.target.value.toUpperCase())}
+            className="w-20 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 font-mono text-white disabled:text-gray-500"
+          />
+          <button
+            onClick={live ? disconnect : connect}
+            className={`flex-1 py-1 rounded border ${live ? 'border-hl-red/50 text-hl-red hover:bg-hl-red/10' : 'border-hl-blue text-white bg-hl-blue/10 hover:bg-hl-blue/20'}`}
+          >
+            {live ? '断开' : '连接并订阅'}
+          </button>
+        </div>
+      </div>
+
+      <div className={`text-xs font-bold px-2 py-1 rounded border mb-2 ${badge.className}`}>{badge.label}</div>
+      {error && <div className="text-[10px] text-hl-red mb-2">{error}</div>}
+      <div className="grid grid-cols-3 gap-2 font-mono text-[10px] text-gray-500">
+        <span>l2Book {counts.books}</span>
+        <span>trades {counts.trades}</span>
+        <span className="text-right">{spread !== undefined ? `spread ${spread.toFixed(2)}` : '—'}</span>
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        本地回放：<code className="bg-gray-800 px-1">npm run replay</code>（默认 {DEFAULT_FEED_URL}）。连接后由真实盘口驱动模拟，成交按逐笔成交是否穿过我们的报价判定。
+      </p>
+    </div>
+  );
+};
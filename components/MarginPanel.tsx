@@ -0,0 +1,112 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import { MarginState } from '../types';
+import { ASSETS } from '../engine/exchange';
+import { MarginConfig, MarginSnapshot, maintenanceRate } from '../engine/margin';
+import { ParamSlider, StatTile } from './ui';
+
+const formatUsd = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+
+/** Margin utilisation as a bar: green while comfortably funded, red as the account nears full use of its equity. */
+export const MarginBar = ({ snapshot }: { snapshot: MarginSnapshot }) => {
+  const fill = Math.max(0, Math.min(1, snapshot.utilisation));
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+        <span>保证金占用 (Margin Used)</span>
+        <span className="font-mono">{Number.isFinite(snapshot.utilisation) ? `${(snapshot.utilisation * 100).toFixed(1)}%` : '—'}</span>
+      </div>
+      <div className="h-1.5 bg-[#0d0e11] rounded overflow-hidden border border-hl-border">
+        <div
+          className={`h-full ${fill >= 0.8 ? 'bg-hl-red' : fill >= 0.5 ? 'bg-yellow-400' : 'bg-hl-green'}`}
+          style={{ width: `${fill * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export const distanceTone = (distance: number | null) =>
+  distance === null ? 'text-gray-300' : distance <= 0.02 ? 'text-hl-red' : distance <= 0.1 ? 'text-yellow-400' : 'text-hl-green';
+
+export const formatDistance = (distance: number | null) => (distance === null ? '—' : `${(distance * 100).toFixed(2)}%`);
+
+/**
+ * Perp account settings (collateral, leverage, the coin's margin tier) and where the account stands:
+ * equity against initial and maintenance margin, and past forced liquidations.
+ */
+export const MarginPanel = ({
+  margin,
+  snapshot,
+  config,
+  onConfigChange
+}: {
+  margin?: MarginState;
+  snapshot: MarginSnapshot;
+  config: MarginConfig;
+  onConfigChange: (config: MarginConfig) => void;
+}) => {
+  const set = (patch: Partial<MarginConfig>) => onConfigChange({ ...config, ...patch });
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <Scale size={14} className="mr-2" /> 保证金与强平 (Margin)
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => set({ enabled: e.target.checked })}
+            className="mr-1 accent-hl-blue"
+          />
+          启用
+        </label>
+      </div>
+
+      {config.enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-3 text-[10px]">
+            {ASSETS.map(asset => (
+              <button
+                key={asset.name}
+                onClick={() => set({ maxLeverage: asset.maxLeverage, leverage: Math.min(config.leverage, asset.maxLeverage) })}
+                className={`py-1 rounded border ${config.maxLeverage === asset.maxLeverage ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+              >
+                {asset.name} {asset.maxLeverage}x
+              </button>
+            ))}
+          </div>
+          <div className="space-y-3 mb-3">
+            <ParamSlider label="Collateral (USDC)" value={config.collateral} min={100} max={20000} step={100} digits={0} onChange={(v) => set({ collateral: v })} accent="accent-hl-blue" />
+            <ParamSlider label="Leverage (x)" value={config.leverage} min={1} max={config.maxLeverage} step={1} digits={0} onChange={(v) => set({ leverage: v })} accent="accent-hl-blue" />
+            <ParamSlider label="Liquidation Penalty (%)" value={config.liquidationPenalty * 100} min={0} max={5} step={0.1} digits={1} onChange={(v) => set({ liquidationPenalty: v / 100 })} accent="accent-hl-red" />
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <StatTile label="Equity" value={formatUsd(snapshot.equity)} className={snapshot.equity > 0 ? 'text-white' : 'text-hl-red'} />
+        <StatTile label="Position Notional" value={formatUsd(snapshot.notional)} className="text-gray-300" />
+        <StatTile label={`Initial Margin (${config.leverage}x)`} value={formatUsd(snapshot.initialMargin)} className="text-hl-accent" />
+        <StatTile label={`Maint. Margin (${(maintenanceRate(config) * 100).toFixed(1)}%)`} value={formatUsd(snapshot.maintenanceMargin)} className="text-yellow-400" />
+        <StatTile label="Liq. Price" value={snapshot.liquidationPrice === null ? '—' : snapshot.liquidationPrice.toFixed(2)} className={distanceTone(snapshot.distance)} />
+        <StatTile
+          label="Liquidations"
+          value={`${margin?.liquidations ?? 0}${margin?.penalties ? ` (-$${margin.penalties.toFixed(2)})` : ''}`}
+          className={(margin?.liquidations ?? 0) > 0 ? 'text-hl-red' : 'text-gray-300'}
+        />
+      </div>
+
+      {margin?.last && (
+        <div className="text-[10px] font-mono text-hl-red mb-2">
+          t={margin.last.time.toFixed(1)}s 强平 {margin.last.side === 'sell' ? '多头' : '空头'} {margin.last.size} @ {margin.last.price.toFixed(2)}，罚金 ${margin.last.penalty.toFixed(2)}
+        </div>
+      )}
+      <p className="text-[10px] text-gray-500">
+        全仓模式：权益 = 保证金 + 会话盈亏。加仓方向的报价需要初始保证金（名义价值 / 杠杆）不超过权益，否则交易所拒单；权益跌破维持保证金（最大杠杆下初始保证金的一半）时，仓位按标记价格以吃单方式全部平掉，撤销全部挂单并扣除罚金。
+      </p>
+    </div>
+  );
+};
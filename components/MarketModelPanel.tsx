@@ -0,0 +1,84 @@
+import React from 'react';
+import { TrendingUp } from 'lucide-react';
+import { MarketModelState } from '../types';
+import { getMarketModel, MARKET_MODELS, MarketConfig, MarketModelId } from '../engine/marketModels';
+import { ParamControls } from './StrategyControls';
+import { ParamSlider, StatTile } from './ui';
+
+const trendLabel = (trend: number) => (trend > 0 ? '趋势 ↑' : trend < 0 ? '趋势 ↓' : '平静');
+
+export const MarketModelPanel = ({
+  market,
+  config,
+  price,
+  onConfigChange
+}: {
+  market?: MarketModelState;
+  config: MarketConfig;
+  price: number;
+  onConfigChange: (config: MarketConfig) => void;
+}) => {
+  const model = getMarketModel(config.model);
+  const params = { ...model.defaults, ...config.params };
+  const set = (patch: Partial<MarketConfig>) => onConfigChange({ ...config, ...patch });
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+        <TrendingUp size={14} className="mr-2" /> 行情模型 (Market Model)
+      </h4>
+
+      <div className="space-y-3 mb-3">
+        <div>
+          <select
+            value={config.model}
+            onChange={(e) => {
+              const id = e.target.value as MarketModelId;
+              set({ model: id, params: getMarketModel(id).defaults });
+            }}
+            className="w-full bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-xs text-white"
+          >
+            {MARKET_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          <p className="text-[10px] text-gray-500 mt-1">{model.description}</p>
+        </div>
+        <ParamControls
+          params={model.params}
+          values={params}
+          onChange={(key, value) => set({ params: { ...params, [key]: value } })}
+          accent="accent-hl-blue"
+        />
+        <ParamSlider
+          label="Informed Impact (ticks/unit)"
+          value={config.impactTicks}
+          min={0}
+          max={5}
+          step={0.25}
+          onChange={(v) => set({ impactTicks: v })}
+          accent="accent-hl-red"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <StatTile
+          label="Regime"
+          value={market && config.model === 'regime' ? trendLabel(market.trend) : '—'}
+          className={market?.trend ? 'text-yellow-400' : 'text-gray-300'}
+        />
+        <StatTile
+          label="σ Now (×σ)"
+          value={market && config.model === 'garch' ? Math.sqrt(market.varianceRatio).toFixed(2) : '1.00'}
+          className={market && market.varianceRatio > 2 ? 'text-hl-red' : 'text-white'}
+        />
+        <StatTile
+          label="vs Start"
+          value={market ? `${(price - market.anchor >= 0 ? '+' : '')}${(price - market.anchor).toFixed(1)}` : '—'}
+          className="text-white"
+        />
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        σ 决定每个 tick 的基础波动；知情流在我们成交后把价格推向不利方向（买入后下跌、卖出后上涨）。
+      </p>
+    </div>
+  );
+};
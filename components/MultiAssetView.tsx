@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Coins, PauseCircle, PlayCircle, RefreshCcw } from 'lucide-react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { createRng, Rng } from '../engine/rng';
+import { markToMarketPnl, SimConfig } from '../engine/simulation';
+import {
+  COIN_SPECS,
+  CoinSpec,
+  createPortfolioState,
+  crossInventories,
+  DEFAULT_PORTFOLIO,
+  pairKey,
+  PortfolioConfig,
+  PortfolioState,
+  roundToLot,
+  stepPortfolio,
+  summarizePortfolio
+} from '../engine/portfolio';
+import { ParamSlider, StatTile } from './ui';
+
+const COIN_COLORS: Record<string, string> = { BTC: '#f7931a', ETH: '#627eea', SOL: '#14f195' };
+const MAX_HISTORY = 200;
+
+const tooltipStyle = { backgroundColor: '#141519', borderColor: '#2a2d35', color: '#fff' };
+const decimals = (step: number) => Math.max(0, Math.round(-Math.log10(step)));
+const formatUsd = (v: number) => `${v >= 0 ? '+' : '-'}$${Math.abs(v).toFixed(2)}`;
+
+const UtilisationBar = ({ value }: { value: number }) => (
+  <div className="h-1.5 bg-[#0d0e11] rounded overflow-hidden border border-hl-border">
+    <div
+      className={`h-full ${value >= 1 ? 'bg-hl-red' : value >= 0.7 ? 'bg-yellow-400' : 'bg-hl-green'}`}
+      style={{ width: `${Math.min(100, value * 100)}%` }}
+    ></div>
+  </div>
+);
+
+export const MultiAssetView = ({ config }: { config: SimConfig }) => {
+  const [specs, setSpecs] = useState<CoinSpec[]>(COIN_SPECS);
+  const [active, setActive] = useState<string[]>(COIN_SPECS.map(s => s.coin));
+  const [correlations, setCorrelations] = useState(DEFAULT_PORTFOLIO.correlations);
+  const [seed, setSeed] = useState(42);
+  const [running, setRunning] = useState(false);
+
+  const portfolio = useMemo<PortfolioConfig>(
+    () => ({ ...DEFAULT_PORTFOLIO, coins: specs.filter(s => active.includes(s.coin)), correlations }),
+    [specs, active, correlations]
+  );
+
+  // stateRef/rngRef are the engine's source of truth; React state mirrors them for rendering
+  const stateRef = useRef<PortfolioState>(createPortfolioState(portfolio, config));
+  const rngRef = useRef<Rng>(createRng(seed));
+  const [state, setState] = useState<PortfolioState>(stateRef.current);
+  const [history, setHistory] = useState<Record<string, number>[]>([]);
+
+  const reset = () => {
+    stateRef.current = createPortfolioState(portfolio, config);
+    rngRef.current = createRng(seed);
+    setState(stateRef.current);
+    setHistory([]);
+  };
+
+  // Adding or removing a coin changes the shape of the portfolio, so it starts a fresh session
+  const activeKey = active.join(',');
+  useEffect(reset, [activeKey]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = window.setInterval(() => {
+      const { state: next } = stepPortfolio(stateRef.current, portfolio, config, rngRef.current);
+      stateRef.current = next;
+      setState(next);
+      setHistory(h => {
+        const point: Record<string, number> = { time: next.time, total: 0 };
+        next.coins.forEach((c, i) => {
+          point[portfolio.coins[i].coin] = markToMarketPnl(c);
+          point.total += point[portfolio.coins[i].coin];
+        });
+        return [...h.slice(-(MAX_HISTORY - 1)), point];
+      });
+    }, 50);
+    return () => clearInterval(interval);
+  }, [running, portfolio, config]);
+
+  // Guards the render between a coin toggle and the reset effect
+  const ready = state.coins.length === portfolio.coins.length;
+  const summary = ready ? summarizePortfolio(state, portfolio) : null;
+  const cross = ready ? crossInventories(state.coins, portfolio) : [];
+
+  const toggleCoin = (coin: string) =>
+    setActive(a => (a.includes(coin) ? (a.length > 1 ? a.filter(c => c !== coin) : a) : COIN_SPECS.map(s => s.coin).filter(c => c === coin || a.includes(c))));
+  const updateSpec = (coin: string, patch: Partial<CoinSpec>) =>
+    setSpecs(s => s.map(spec => (spec.coin === coin ? { ...spec, ...patch } : spec)));
+
+  const pairs = portfolio.coins.flatMap((a, i) => portfolio.coins.slice(i + 1).map(b => pairKey(a.coin, b.coin)));
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">多币种做市 (Multi-Asset)</h1>
+          <p className="text-gray-400 text-sm">每个币种独立的价格过程与订单簿；相关性矩阵让 ETH 多头与 BTC 空头互相部分对冲。</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => setRunning(!running)}
+            className={`flex items-center px-6 py-2 rounded-full font-bold transition-all ${
+              running
+                ? 'bg-hl-red/10 text-hl-red border border-hl-red/50 hover:bg-hl-red/20'
+                : 'bg-hl-green text-white hover:bg-hl-green/90 shadow-[0_0_15px_rgba(46,189,133,0.4)]'
+            }`}
+          >
+            {running ? <><PauseCircle className="mr-2" /> 停止模拟</> : <><PlayCircle className="mr-2" /> 启动模拟</>}
+          </button>
+          <button onClick={reset} className="p-2 rounded-full bg-hl-card text-gray-400 hover:text-white border border-hl-border">
+            <RefreshCcw size={18} />
+          </button>
+        </div>
+      </div>
+
+      {/* Portfolio */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <div className="lg:col-span-2 bg-[#0d0e11] border border-hl-border rounded-xl p-4">
+          <div className="flex space-x-4 text-xs mb-2">
+            <div className="flex items-center"><div className="w-3 h-1 bg-white mr-2"></div>Portfolio PnL</div>
+            {portfolio.coins.map(s => (
+              <div key={s.coin} className="flex items-center">
+                <div className="w-3 h-1 mr-2" style={{ backgroundColor: COIN_COLORS[s.coin] }}></div>{s.coin}
+              </div>
+            ))}
+          </div>
+          <div className="h-[260px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="time" hide />
+                <YAxis domain={['auto', 'auto']} orientation="right" stroke="#4b5563" tick={{ fontSize: 12 }} />
+                <Tooltip contentStyle={tooltipStyle} labelStyle={{ display: 'none' }} formatter={(value: any) => parseFloat(value).toFixed(2)} />
+                <Line type="monotone" dataKey="total" stroke="#ffffff" strokeWidth={2} dot={false} isAnimationActive={false} />
+                {portfolio.coins.map(s => (
+                  <Line key={s.coin} type="monotone" dataKey={s.coin} stroke={COIN_COLORS[s.coin]} strokeWidth={1} dot={false} isAnimationActive={false} opacity={0.7} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+          <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+            <Coins size={14} className="mr-2" /> 组合视图 (Portfolio)
+          </h4>
+          <div className="flex gap-2 mb-3">
+            {COIN_SPECS.map(s => (
+              <button
+                key={s.coin}
+                onClick={() => toggleCoin(s.coin)}
+                className={`flex-1 py-1 rounded border text-xs font-mono ${active.includes(s.coin) ? 'text-white bg-white/5' : 'border-hl-border text-gray-600 hover:text-white'}`}
+                style={active.includes(s.coin) ? { borderColor: COIN_COLORS[s.coin] } : undefined}
+              >
+                {s.coin}
+              </button>
+            ))}
+          </div>
+          {summary && (
+            <>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                <StatTile label="Total PnL" value={formatUsd(summary.pnl)} className={summary.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'} />
+                <StatTile label="Net Delta (USD)" value={formatUsd(summary.netDelta)} className="text-white" />
+                <StatTile label="Gross Notional" value={`$${summary.grossNotional.toFixed(0)}`} />
+                <StatTile label="ρ-Hedged Notional" value={`$${summary.hedgedNotional.toFixed(0)}`} className="text-hl-blue" />
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+                <span>风险占用 (Risk Utilisation)</span>
+                <span className="font-mono text-white">{(summary.utilisation * 100).toFixed(0)}%</span>
+              </div>
+              <UtilisationBar value={summary.utilisation} />
+              <div className="text-[10px] text-gray-500 font-mono mt-1">
+                1-tick σ ${summary.tickRisk.toFixed(2)} · limit ${portfolio.maxHedgedNotional}
+              </div>
+            </>
+          )}
+
+          {pairs.length > 0 && (
+            <div className="space-y-3 mt-4">
+              <div className="text-[10px] text-gray-500">相关性 (Correlation ρ)</div>
+              {pairs.map(key => (
+                <React.Fragment key={key}>
+                  <ParamSlider
+                    label={key}
+                    value={correlations[key] ?? 0}
+                    min={-1}
+                    max={1}
+                    step={0.05}
+                    onChange={(v) => setCorrelations(c => ({ ...c, [key]: v }))}
+                    accent="accent-hl-blue"
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between items-center text-xs mt-4">
+            <span className="text-gray-400">Seed (重置后生效)</span>
+            <input
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+              className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Per-coin panels */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {ready && portfolio.coins.map((spec, i) => {
+          const coin = state.coins[i];
+          const stats = state.stats[i];
+          const gamma = COIN_SPECS.find(d => d.coin === spec.coin)!.riskAversion; // Slider range is anchored to the default
+          const px = decimals(spec.tickSize);
+          const sz = decimals(spec.lotSize);
+          return (
+            <div key={spec.coin} className="bg-hl-card border border-hl-border rounded-xl p-4" style={{ borderTopColor: COIN_COLORS[spec.coin], borderTopWidth: 2 }}>
+              <div className="flex justify-between items-baseline mb-3">
+                <span className="font-bold text-white">{spec.coin}</span>
+                <span className="font-mono text-sm text-gray-300">{coin.midPrice.toFixed(px)}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                <StatTile
+                  label={`Inventory (${spec.coin})`}
+                  value={coin.inventory.toFixed(sz)}
+                  className={Math.abs(coin.inventory) < spec.lotSize / 2 ? 'text-gray-300' : coin.inventory > 0 ? 'text-hl-green' : 'text-hl-red'}
+                />
+                <StatTile label="PnL" value={formatUsd(stats.pnl)} className={stats.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'} />
+              </div>
+              <div className="space-y-1 font-mono text-[10px] text-gray-400 mb-3">
+                <div className="flex justify-between"><span>Delta</span><span className="text-white">{formatUsd(coin.inventory * coin.midPrice)}</span></div>
+                <div className="flex justify-between"><span>Cross-asset hedge</span><span className="text-hl-blue">{cross[i].toFixed(sz)} {spec.coin}</span></div>
+                <div className="flex justify-between"><span>Bid / Ask</span><span><span className="text-hl-green">{coin.myBid.toFixed(px)}</span> / <span className="text-hl-red">{coin.myAsk.toFixed(px)}</span></span></div>
+                <div className="flex justify-between"><span>Fills</span><span className="text-white">{stats.trades}</span></div>
+                {coin.risk.halted && <div className="text-hl-red">熔断 · {coin.risk.haltReason}</div>}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+                <span>Risk Utilisation</span>
+                <span className="font-mono">{(summary!.coinUtilisation[i] * 100).toFixed(0)}%</span>
+              </div>
+              <UtilisationBar value={summary!.coinUtilisation[i]} />
+              <div className="space-y-3 mt-3">
+                <ParamSlider
+                  label="Inventory Aversion (γ)"
+                  value={spec.riskAversion}
+                  min={gamma / 10}
+                  max={gamma * 5}
+                  step={gamma / 20}
+                  digits={Math.max(2, decimals(gamma / 20))}
+                  onChange={(v) => updateSpec(spec.coin, { riskAversion: v })}
+                />
+                <ParamSlider
+                  label={`Quote Size (lot ${spec.lotSize})`}
+                  value={roundToLot(spec.quoteSize, spec.lotSize)}
+                  min={spec.lotSize}
+                  max={spec.maxPosition / 2}
+                  step={spec.lotSize}
+                  digits={sz}
+                  onChange={(v) => updateSpec(spec.coin, { quoteSize: v })}
+                  accent="accent-hl-blue"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
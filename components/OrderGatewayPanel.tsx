@@ -0,0 +1,126 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { GatewayState, OrderStatus } from '../types';
+import { ORDER_STATUSES, RateLimitConfig } from '../engine/orderGateway';
+import { ParamSlider, StatTile } from './ui';
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'New',
+  acked: 'Acked',
+  partiallyFilled: 'Partial',
+  filled: 'Filled',
+  cancelled: 'Cancelled',
+  rejected: 'Rejected',
+};
+
+const STATUS_TONES: Record<OrderStatus, string> = {
+  new: 'text-gray-400',
+  acked: 'text-hl-blue',
+  partiallyFilled: 'text-yellow-400',
+  filled: 'text-hl-green',
+  cancelled: 'text-gray-500',
+  rejected: 'text-hl-red',
+};
+
+const RECENT_ORDERS = 8;
+
+/**
+ * Request budget against the exchange's rate limit, quote changes the quoter had to skip,
+ * and where our orders are in their lifecycle.
+ */
+export const OrderGatewayPanel = ({
+  gateway,
+  config,
+  onConfigChange
+}: {
+  gateway?: GatewayState;
+  config: RateLimitConfig;
+  onConfigChange: (config: RateLimitConfig) => void;
+}) => {
+  const set = (patch: Partial<RateLimitConfig>) => onConfigChange({ ...config, ...patch });
+  const tokens = gateway?.tokens ?? config.burst;
+  const fill = config.enabled ? Math.max(0, Math.min(1, tokens / config.burst)) : 1;
+  const minute = gateway ? Math.max(gateway.windowRequests, gateway.lastWindowRequests) : 0;
+  const recent = gateway ? [...gateway.open, ...gateway.closed].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, RECENT_ORDERS) : [];
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <Gauge size={14} className="mr-2" /> 请求限频 (Rate Limit)
+          {gateway?.throttled && <span className="ml-2 px-1.5 rounded bg-hl-red/20 text-hl-red normal-case">限频中</span>}
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => set({ enabled: e.target.checked })}
+            className="mr-1 accent-hl-blue"
+          />
+          启用
+        </label>
+      </div>
+
+      {config.enabled && (
+        <div className="space-y-3 mb-3">
+          <ParamSlider label="Requests / min" value={config.requestsPerMinute} min={60} max={2400} step={60} digits={0} onChange={(v) => set({ requestsPerMinute: v })} accent="accent-hl-blue" />
+          <ParamSlider label="Burst (bucket size)" value={config.burst} min={5} max={1200} step={5} digits={0} onChange={(v) => set({ burst: v })} accent="accent-hl-blue" />
+        </div>
+      )}
+
+      <div className="mb-3">
+        <div className="flex justify-between text-[10px] text-gray-500 mb-1">
+          <span>剩余请求额度</span>
+          <span className="font-mono">{config.enabled ? `${Math.floor(tokens)} / ${config.burst}` : '不限'}</span>
+        </div>
+        <div className="h-1.5 bg-[#0d0e11] rounded overflow-hidden border border-hl-border">
+          <div
+            className={`h-full ${fill <= 0.1 ? 'bg-hl-red' : fill <= 0.4 ? 'bg-yellow-400' : 'bg-hl-green'}`}
+            style={{ width: `${fill * 100}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <StatTile
+          label="Requests (近 1 分钟)"
+          value={`${minute} / ${config.requestsPerMinute}`}
+          className={config.enabled && minute >= config.requestsPerMinute ? 'text-hl-red' : 'text-white'}
+        />
+        <StatTile label="Requests (总计)" value={`${gateway?.requests ?? 0}`} className="text-white" />
+        <StatTile
+          label="Skipped Updates"
+          value={`${gateway?.skipped ?? 0}`}
+          className={(gateway?.skipped ?? 0) > 0 ? 'text-yellow-400' : 'text-gray-300'}
+        />
+        <StatTile label="Open Orders" value={`${gateway?.open.length ?? 0}`} className="text-hl-accent" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 mb-3 text-[10px] font-mono">
+        {ORDER_STATUSES.map(status => (
+          <div key={status} className="flex justify-between bg-[#0d0e11] rounded px-2 py-1">
+            <span className="text-gray-500">{STATUS_LABELS[status]}</span>
+            <span className={STATUS_TONES[status]}>{gateway?.counts[status] ?? 0}</span>
+          </div>
+        ))}
+      </div>
+
+      <table className="w-full text-[10px] font-mono">
+        <tbody>
+          {recent.map(o => (
+            <tr key={o.id} className="border-t border-hl-border/40" title={o.reason}>
+              <td className="text-gray-500">{o.id}</td>
+              <td className={o.side === 'buy' ? 'text-hl-green' : 'text-hl-red'}>{o.side === 'buy' ? 'B' : 'S'}</td>
+              <td className="text-right text-gray-300">{o.price.toFixed(2)}</td>
+              <td className="text-right text-gray-400">{o.filled}/{o.size}</td>
+              <td className={`text-right ${STATUS_TONES[o.status]}`}>{STATUS_LABELS[o.status]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-[10px] text-gray-500 mt-2">
+        每次下单、撤单、改单都消耗一个请求（Hyperliquid 每 IP 1200 次/分钟）。额度不足时报价器优先撤掉会被吃的报价，其次更新盘口第一档，其余更新被跳过。
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,395 @@
+import React, { useMemo, useState } from 'react';
+import { KeyRound, Send, ShieldCheck } from 'lucide-react';
+import { Order, QuoteLadder } from '../types';
+import { Hex, privateKeyToAddress } from '../engine/crypto';
+import {
+  ASSETS,
+  cancelAction,
+  cancelByCloidAction,
+  cloidFor,
+  ExchangeAction,
+  ExchangeRequest,
+  getAsset,
+  modifyAction,
+  orderAction,
+  orderWire,
+  signingSteps,
+  signL1Action,
+  TEST_PRIVATE_KEY,
+  Tif,
+} from '../engine/exchange';
+import { CodeBlock } from './ui';
+
+type ActionKind = 'order' | 'cancel' | 'modify';
+
+interface SendLog {
+  id: number;
+  label: string;
+  ok: boolean;
+  response: unknown;
+}
+
+const TIFS: { id: Tif; label: string }[] = [
+  { id: 'Alo', label: 'ALO (Post-only)' },
+  { id: 'Gtc', label: 'GTC' },
+  { id: 'Ioc', label: 'IOC' },
+];
+
+const MAX_LOG = 20;
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+const shorten = (hex: string, keep = 66) => (hex.length > keep ? `${hex.slice(0, keep)}… (${(hex.length - 2) / 2} bytes)` : hex);
+
+// A response is a reject if the request failed or any order/cancel inside it did
+const isAccepted = (response: unknown): boolean => {
+  const r = response as { status?: string; response?: { data?: { statuses?: unknown[] } } };
+  if (r?.status !== 'ok') return false;
+  return (r.response?.data?.statuses ?? []).every(s => s === 'success' || (typeof s === 'object' && s !== null && !('error' in s)));
+};
+
+const tabClass = (active: boolean) =>
+  `flex-1 py-1.5 rounded text-xs font-bold transition-colors ${active ? 'bg-hl-green/20 text-hl-green' : 'text-gray-500 hover:text-gray-300'}`;
+
+const inputClass = 'w-full bg-[#0d0e11] border border-hl-border rounded px-2 py-1.5 text-xs font-mono text-white focus:outline-none focus:border-hl-green/60';
+
+/**
+ * Builds Hyperliquid order / cancel / modify actions from our Order type, signs them the way the venue
+ * expects (msgpack → phantom agent → EIP-712) and sends them to the dev server's mock exchange.
+ */
+export const OrderSigningView = ({ quotes, tickSize }: { quotes: QuoteLadder; tickSize: number }) => {
+  const [kind, setKind] = useState<ActionKind>('order');
+  const [asset, setAsset] = useState(1);
+  const [side, setSide] = useState<Order['side']>('buy');
+  const [price, setPrice] = useState('999.87');
+  const [size, setSize] = useState('0.123456');
+  const [tif, setTif] = useState<Tif>('Alo');
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [orderId, setOrderId] = useState('mm-1');
+  const [useCloid, setUseCloid] = useState(true);
+  const [target, setTarget] = useState('');
+  const [simOrders, setSimOrders] = useState<Order[] | null>(null);
+  const [privateKey, setPrivateKey] = useState<string>(TEST_PRIVATE_KEY);
+  const [isMainnet, setIsMainnet] = useState(false);
+  const [tamper, setTamper] = useState(false);
+  const [nonce, setNonce] = useState(() => Date.now());
+  const [sending, setSending] = useState(false);
+  const [log, setLog] = useState<SendLog[]>([]);
+  const [open, setOpen] = useState<unknown[]>([]);
+
+  const meta = getAsset(asset) ?? ASSETS[0];
+  const cloid = useCloid ? cloidFor(orderId) : undefined;
+
+  const built = useMemo((): { action: ExchangeAction; orders: Order[] } | { error: string } => {
+    try {
+      const orders: Order[] = simOrders ?? [{ id: orderId, price: Number(price), size: Number(size), side }];
+      if (orders.some(o => !(o.price > 0) || !(o.size > 0))) throw new Error('价格和数量必须为正数');
+      const wires = orders.map(o =>
+        orderWire(o, meta, { tif, reduceOnly, cloid: simOrders ? cloidFor(o.id) : cloid, tickSize: simOrders ? tickSize : undefined })
+      );
+      if (kind === 'order') return { action: orderAction(wires), orders };
+
+      const t = target.trim();
+      if (!t) throw new Error('请输入目标订单的 oid 或 cloid');
+      const ref: number | Hex = t.startsWith('0x') ? (t as Hex) : Number(t);
+      if (typeof ref === 'number' && !Number.isInteger(ref)) throw new Error(`无效的 oid: ${t}`);
+      if (kind === 'modify') return { action: modifyAction([{ oid: ref, order: wires[0] }]), orders };
+      return {
+        action: typeof ref === 'number' ? cancelAction([{ asset: meta.asset, oid: ref }]) : cancelByCloidAction([{ asset: meta.asset, cloid: ref }]),
+        orders: [],
+      };
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [kind, meta, side, price, size, tif, reduceOnly, orderId, cloid, target, simOrders, tickSize]);
+
+  const signed = useMemo((): { request: ExchangeRequest; steps: ReturnType<typeof signingSteps>; signer: Hex } | { error: string } => {
+    if ('error' in built) return built;
+    try {
+      const key = privateKey.trim() as Hex;
+      return {
+        request: signL1Action(key, built.action, nonce, isMainnet),
+        steps: signingSteps(built.action, nonce, isMainnet),
+        signer: privateKeyToAddress(key),
+      };
+    } catch (e) {
+      return { error: `签名失败: ${(e as Error).message}` };
+    }
+  }, [built, privateKey, nonce, isMainnet]);
+
+  const refreshOpenOrders = async () => {
+    const res = await fetch('/mock/info', { method: 'POST', body: JSON.stringify({ type: 'openOrders' }) });
+    setOpen(res.ok ? await res.json() : []);
+  };
+
+  const send = async () => {
+    if ('error' in signed) return;
+    // Changing anything after signing changes the digest, so the exchange recovers some other address
+    const body = tamper ? { ...signed.request, nonce: signed.request.nonce + 1 } : signed.request;
+    setSending(true);
+    try {
+      const res = await fetch('/mock/exchange', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+      const response = await res.json();
+      setLog(l => [{ id: Date.now(), label: `${signed.request.action.type} · nonce ${body.nonce}`, ok: isAccepted(response), response }, ...l].slice(0, MAX_LOG));
+      await refreshOpenOrders();
+    } catch (e) {
+      setLog(l => [{ id: Date.now(), label: '请求失败', ok: false, response: `${(e as Error).message}（mock 交易所只在 vite dev server 中可用）` }, ...l].slice(0, MAX_LOG));
+    } finally {
+      setSending(false);
+      // Each nonce can be used once
+      setNonce(n => Math.max(n + 1, Date.now()));
+    }
+  };
+
+  const loadSimQuotes = () => {
+    const orders: Order[] = [
+      ...quotes.bids.map((q, i) => ({ id: `bid-${i}`, price: q.price, size: q.size, side: 'buy' as const })),
+      ...quotes.asks.map((q, i) => ({ id: `ask-${i}`, price: q.price, size: q.size, side: 'sell' as const })),
+    ];
+    setKind('order');
+    setAsset(1);
+    setTif('Alo');
+    setSimOrders(orders.length > 0 ? orders : null);
+  };
+
+  const resetMock = async () => {
+    await fetch('/mock/info', { method: 'POST', body: JSON.stringify({ type: 'reset' }) }).catch(() => undefined);
+    setLog([]);
+    setOpen([]);
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-white mb-1">下单与签名 (Order Signing)</h1>
+        <p className="text-gray-400 text-sm">
+          把策略的报价变成 Hyperliquid 可接受的 order / cancel / modify 动作：按 tick 与 szDecimals 取整、msgpack 哈希、EIP-712 签名，再发到本地 mock 交易所验证。
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+              <Send size={14} className="mr-2" /> 动作 (Action)
+            </h4>
+            <div className="flex bg-[#0d0e11] rounded p-1 mb-4">
+              <button className={tabClass(kind === 'order')} onClick={() => setKind('order')}>下单 Order</button>
+              <button className={tabClass(kind === 'cancel')} onClick={() => setKind('cancel')}>撤单 Cancel</button>
+              <button className={tabClass(kind === 'modify')} onClick={() => setKind('modify')}>改单 Modify</button>
+            </div>
+
+            <div className="space-y-3 text-xs">
+              <label className="block">
+                <span className="text-gray-500">币种 (Asset)</span>
+                <select className={inputClass} value={asset} onChange={e => { setAsset(Number(e.target.value)); setSimOrders(null); }}>
+                  {ASSETS.map(a => <option key={a.asset} value={a.asset}>{a.name} · asset {a.asset} · szDecimals {a.szDecimals}</option>)}
+                </select>
+              </label>
+
+              {kind !== 'order' && (
+                <label className="block">
+                  <span className="text-gray-500">目标订单 oid 或 cloid</span>
+                  <input className={inputClass} value={target} placeholder="1000000 或 0x…" onChange={e => setTarget(e.target.value)} />
+                </label>
+              )}
+
+              {kind !== 'cancel' && (simOrders ? (
+                <div className="bg-[#0d0e11] border border-hl-border rounded p-2">
+                  <div className="text-gray-400 mb-1">已载入模拟器报价 {simOrders.length} 档 (ETH)</div>
+                  <button onClick={() => setSimOrders(null)} className="text-hl-accent hover:underline">改为手动输入</button>
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => setSide('buy')}
+                      className={`py-1.5 rounded font-bold ${side === 'buy' ? 'bg-hl-green/20 text-hl-green border border-hl-green/50' : 'bg-[#0d0e11] text-gray-500 border border-hl-border'}`}
+                    >
+                      买 Buy
+                    </button>
+                    <button
+                      onClick={() => setSide('sell')}
+                      className={`py-1.5 rounded font-bold ${side === 'sell' ? 'bg-hl-red/20 text-hl-red border border-hl-red/50' : 'bg-[#0d0e11] text-gray-500 border border-hl-border'}`}
+                    >
+                      卖 Sell
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block">
+                      <span className="text-gray-500">价格 (Price)</span>
+                      <input className={inputClass} value={price} onChange={e => setPrice(e.target.value)} />
+                    </label>
+                    <label className="block">
+                      <span className="text-gray-500">数量 (Size)</span>
+                      <input className={inputClass} value={size} onChange={e => setSize(e.target.value)} />
+                    </label>
+                  </div>
+                  <label className="block">
+                    <span className="text-gray-500">客户端订单号 (→ cloid)</span>
+                    <div className="flex items-center space-x-2">
+                      <input className={inputClass} value={orderId} disabled={!useCloid} onChange={e => setOrderId(e.target.value)} />
+                      <input type="checkbox" checked={useCloid} onChange={e => setUseCloid(e.target.checked)} />
+                    </div>
+                  </label>
+                </>
+              ))}
+
+              {kind !== 'cancel' && (
+                <>
+                  <div className="flex bg-[#0d0e11] rounded p-1">
+                    {TIFS.map(t => <button key={t.id} className={tabClass(tif === t.id)} onClick={() => setTif(t.id)}>{t.label}</button>)}
+                  </div>
+                  <label className="flex items-center space-x-2 text-gray-400">
+                    <input type="checkbox" checked={reduceOnly} onChange={e => setReduceOnly(e.target.checked)} />
+                    <span>只减仓 (Reduce-only)</span>
+                  </label>
+                </>
+              )}
+
+              {kind === 'order' && (
+                <button
+                  onClick={loadSimQuotes}
+                  className="w-full py-1.5 rounded border border-hl-border text-gray-300 hover:text-white hover:border-hl-green/50"
+                >
+                  载入模拟器当前报价 (Load sim quotes)
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+              <KeyRound size={14} className="mr-2" /> 签名 (Signer)
+            </h4>
+            <div className="space-y-3 text-xs">
+              <label className="block">
+                <span className="text-gray-500">私钥 (仅限测试密钥)</span>
+                <input className={inputClass} value={privateKey} onChange={e => setPrivateKey(e.target.value)} />
+              </label>
+              <div className="text-gray-500 font-mono break-all">
+                地址: {'error' in signed ? '—' : signed.signer}
+              </div>
+              <label className="flex items-center space-x-2 text-gray-400">
+                <input type="checkbox" checked={isMainnet} onChange={e => setIsMainnet(e.target.checked)} />
+                <span>Mainnet 签名 (source "a"；mock 交易所按 testnet 验签)</span>
+              </label>
+              <label className="flex items-center space-x-2 text-gray-400">
+                <input type="checkbox" checked={tamper} onChange={e => setTamper(e.target.checked)} />
+                <span>签名后篡改 nonce (Tamper)</span>
+              </label>
+              <p className="text-[10px] text-hl-red/80 leading-relaxed">
+                默认是 Hardhat 公开的测试私钥。真实私钥绝不能粘贴到网页里，生产环境应从环境变量或 KMS 读取。
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          {'error' in built && (
+            <div className="bg-hl-red/10 border border-hl-red/30 rounded-xl p-3 text-xs text-hl-red">{built.error}</div>
+          )}
+
+          {!('error' in built) && built.orders.length > 0 && (
+            <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+              <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase">取整 (Tick / Lot Rounding)</h4>
+              <table className="w-full text-[11px] font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Order</th>
+                    <th className="text-right font-normal">Price</th>
+                    <th className="text-right font-normal">→ p</th>
+                    <th className="text-right font-normal">Size</th>
+                    <th className="text-right font-normal">→ s</th>
+                    <th className="text-right font-normal">cloid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {built.orders.map((o, i) => {
+                    const action = built.action;
+                    const wire = action.type === 'order' ? action.orders[i] : action.type === 'batchModify' ? action.modifies[i]?.order : undefined;
+                    return (
+                      <tr key={o.id} className="border-t border-hl-border/40">
+                        <td className={o.side === 'buy' ? 'text-hl-green' : 'text-hl-red'}>{o.id}</td>
+                        <td className="text-right text-gray-400">{o.price}</td>
+                        <td className="text-right text-white">{wire?.p}</td>
+                        <td className="text-right text-gray-400">{o.size}</td>
+                        <td className="text-right text-white">{wire?.s}</td>
+                        <td className="text-right text-gray-500">{wire?.c ? shorten(wire.c, 12) : '—'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="text-[10px] text-gray-500 mt-2">
+                价格最多 5 位有效数字、{6 - meta.szDecimals} 位小数（整数总是合法）；买单向下、卖单向上取整，避免取整后变成吃单。数量按 10^-{meta.szDecimals} 向下取整。
+              </p>
+            </div>
+          )}
+
+          {!('error' in signed) && (
+            <>
+              <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+                <h4 className="text-xs font-bold text-gray-500 mb-1 uppercase flex items-center">
+                  <ShieldCheck size={14} className="mr-2" /> 签名过程 (L1 Action Signing)
+                </h4>
+                <div className="text-[11px] font-mono space-y-1 break-all">
+                  <div><span className="text-gray-500">msgpack(action): </span><span className="text-gray-300">{shorten(signed.steps.msgpack)}</span></div>
+                  <div><span className="text-gray-500">connectionId = keccak(msgpack ‖ nonce ‖ vault): </span><span className="text-hl-accent">{signed.steps.connectionId}</span></div>
+                  <div><span className="text-gray-500">phantom agent: </span><span className="text-gray-300">{`{ source: "${signed.steps.source}", connectionId }`}</span></div>
+                  <div><span className="text-gray-500">EIP-712 digest: </span><span className="text-hl-accent">{signed.steps.digest}</span></div>
+                </div>
+              </div>
+
+              <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase">POST /exchange</h4>
+                  <div className="flex items-center space-x-2">
+                    <button onClick={resetMock} className="px-3 py-1.5 rounded text-xs text-gray-400 border border-hl-border hover:text-white">
+                      重置 mock
+                    </button>
+                    <button
+                      onClick={send}
+                      disabled={sending}
+                      className="flex items-center px-4 py-1.5 rounded text-xs font-bold bg-hl-green text-white hover:bg-hl-green/90 disabled:opacity-50"
+                    >
+                      <Send size={12} className="mr-1" /> 发送到 Mock 交易所
+                    </button>
+                  </div>
+                </div>
+                <CodeBlock code={json(signed.request)} language="json" />
+              </div>
+            </>
+          )}
+          {'error' in signed && !('error' in built) && (
+            <div className="bg-hl-red/10 border border-hl-red/30 rounded-xl p-3 text-xs text-hl-red">{signed.error}</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+              <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase">响应 (Responses)</h4>
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {log.length === 0 && <div className="text-xs text-gray-600">尚未发送</div>}
+                {log.map(entry => (
+                  <div key={entry.id} className={`border rounded p-2 ${entry.ok ? 'border-hl-green/30' : 'border-hl-red/30'}`}>
+                    <div className={`text-[11px] font-bold mb-1 ${entry.ok ? 'text-hl-green' : 'text-hl-red'}`}>
+                      {entry.ok ? 'ACCEPTED' : 'REJECTED'} · {entry.label}
+                    </div>
+                    <pre className="text-[10px] font-mono text-gray-400 whitespace-pre-wrap break-all">{json(entry.response)}</pre>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+              <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase">挂单 (Open Orders)</h4>
+              {open.length === 0 ? (
+                <div className="text-xs text-gray-600">无挂单</div>
+              ) : (
+                <pre className="text-[10px] font-mono text-gray-400 whitespace-pre-wrap break-all max-h-80 overflow-y-auto">{json(open)}</pre>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
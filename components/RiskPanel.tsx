@@ -0,0 +1,87 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { RiskState } from '../types';
+import { RiskLimits } from '../engine/risk';
+import { ParamSlider } from './ui';
+
+export const RULE_LABELS: Record<string, string> = {
+  maxInventory: 'Max Position',
+  maxNotional: 'Max Notional',
+  maxHedgedNotional: 'Hedged Notional',
+  maxDrawdown: 'Max Drawdown',
+  dailyLoss: 'Daily Loss',
+  orderRate: 'Order Rate',
+};
+
+const formatTime = (t: number) => `${t.toFixed(1)}s`;
+
+export const RiskPanel = ({
+  risk,
+  limits,
+  onLimitsChange,
+  onResetKillSwitch
+}: {
+  risk: RiskState;
+  limits: RiskLimits;
+  onLimitsChange: (limits: RiskLimits) => void;
+  onResetKillSwitch: () => void;
+}) => {
+  const set = (patch: Partial<RiskLimits>) => onLimitsChange({ ...limits, ...patch });
+
+  let status = { label: '正常报价', className: 'text-hl-green border-hl-green/30 bg-hl-green/10' };
+  if (!limits.enabled) status = { label: '风控已关闭', className: 'text-gray-400 border-hl-border bg-[#0d0e11]' };
+  else if (risk.halted) status = { label: '熔断 · 停止报价', className: 'text-hl-red border-hl-red/40 bg-hl-red/10' };
+  else if (risk.suppressBid || risk.suppressAsk || risk.throttled) {
+    const parts = [risk.suppressBid && '买单抑制', risk.suppressAsk && '卖单抑制', risk.throttled && '限频'].filter(Boolean);
+    status = { label: parts.join(' · '), className: 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10' };
+  }
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <ShieldAlert size={14} className="mr-2" /> 风险控制 (Risk Check)
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={limits.enabled}
+            onChange={(e) => set({ enabled: e.target.checked })}
+            className="mr-1 accent-hl-green"
+          />
+          启用
+        </label>
+      </div>
+
+      <div className={`text-xs font-bold px-2 py-1 rounded border mb-2 ${status.className}`}>{status.label}</div>
+      {risk.halted && (
+        <div className="text-[10px] text-hl-red mb-2 flex justify-between items-start gap-2">
+          <span>{risk.haltReason}</span>
+          <button onClick={onResetKillSwitch} className="shrink-0 px-2 py-0.5 rounded border border-hl-red/50 hover:bg-hl-red/20">
+            解除熔断
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-3 mb-3">
+        <ParamSlider label="Max Position (coins)" value={limits.maxInventory} min={1} max={50} step={1} digits={0} onChange={(v) => set({ maxInventory: v })} accent="accent-hl-red" />
+        <ParamSlider label="Max Notional ($)" value={limits.maxNotional} min={1000} max={50000} step={1000} digits={0} onChange={(v) => set({ maxNotional: v })} accent="accent-hl-red" />
+        <ParamSlider label="Max Drawdown ($)" value={limits.maxDrawdown} min={50} max={5000} step={50} digits={0} onChange={(v) => set({ maxDrawdown: v })} accent="accent-hl-red" />
+        <ParamSlider label="Daily Loss Limit ($)" value={limits.dailyLossLimit} min={50} max={5000} step={50} digits={0} onChange={(v) => set({ dailyLossLimit: v })} accent="accent-hl-red" />
+        <ParamSlider label="Max Order Rate (/s)" value={limits.maxOrderRate} min={2} max={100} step={1} digits={0} onChange={(v) => set({ maxOrderRate: v })} accent="accent-hl-red" />
+      </div>
+
+      <div className="text-[10px] text-gray-500 mb-1">触发记录 (Breach Log)</div>
+      <div className="bg-[#0d0e11] border border-hl-border rounded max-h-28 overflow-y-auto font-mono text-[10px]">
+        {risk.breaches.length === 0 && <div className="p-2 text-gray-600">暂无</div>}
+        {[...risk.breaches].reverse().slice(0, 20).map((b, i) => (
+          <div key={`${b.time}-${b.rule}-${b.action}-${i}`} className="px-2 py-1 border-b border-hl-border/50 last:border-0">
+            <span className="text-gray-600">{formatTime(b.time)}</span>{' '}
+            <span className={b.action === 'halt' ? 'text-hl-red' : 'text-yellow-400'}>{RULE_LABELS[b.rule]}</span>{' '}
+            <span className="text-gray-400">{b.reason}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
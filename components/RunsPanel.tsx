@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileJson, FileSpreadsheet, History, Play, Save, Trash2, Upload } from 'lucide-react';
+import { fillsCsv, MAX_RUN_TICKS, parseRun, RunRecord, RunSummary, ticksCsv } from '../engine/runs';
+import { deleteRun, listRuns, loadRun, saveRun } from '../engine/runStore';
+
+export interface ReplayStatus {
+  name: string;
+  tickCount: number;
+  verified: boolean | null; // null while the replay is running
+  error?: string;
+}
+
+const download = (fileName: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Saved runs (IndexedDB), newest first. Each can be replayed from its seed, exported as JSON (the whole run,
+ * re-importable) or CSV (ticks, fills), or deleted. `version` changes whenever the parent saved a run.
+ */
+export const RunsPanel = ({
+  version,
+  status,
+  onSaveCurrent,
+  onReplay
+}: {
+  version: number;
+  status: ReplayStatus | null;
+  onSaveCurrent: () => void;
+  onReplay: (run: RunRecord) => void;
+}) => {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    listRuns().then(setRuns, (e: Error) => setError(e.message));
+  }, [version, reload]);
+
+  // Every action reads the full record from the store; the list only holds summaries
+  const withRun = async (id: string, use: (run: RunRecord) => void) => {
+    try {
+      const run = await loadRun(id);
+      if (!run) throw new Error('记录已不存在');
+      use(run);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      await saveRun(parseRun(await file.text()));
+      setError(null);
+      setReload(r => r + 1);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const remove = async (id: string) => {
+    await deleteRun(id).catch((e: Error) => setError(e.message));
+    setReload(r => r + 1);
+  };
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <History size={14} className="mr-2" /> 运行记录 (Runs)
+        </h4>
+        <div className="flex items-center space-x-2 text-[10px]">
+          <button onClick={onSaveCurrent} className="flex items-center text-gray-400 hover:text-white" title="保存当前运行">
+            <Save size={12} className="mr-1" /> 保存
+          </button>
+          <label className="flex items-center text-gray-400 hover:text-white cursor-pointer" title="导入 JSON 运行记录">
+            <Upload size={12} className="mr-1" /> 导入
+            <input
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.[0]) importFile(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {status && (
+        <div className={`text-[10px] mb-2 p-2 rounded border ${status.error || status.verified === false ? 'border-hl-red/40 text-hl-red' : status.verified ? 'border-hl-green/30 text-hl-green' : 'border-hl-border text-yellow-400'}`}>
+          {status.error ?? (status.verified === null
+            ? `重放中… ${status.name} (${status.tickCount} ticks)`
+            : status.verified
+              ? `✓ 确定性重放: ${status.name} 与保存时完全一致`
+              : `✗ 重放结果与记录不一致: ${status.name}`)}
+        </div>
+      )}
+      {error && <div className="text-[10px] text-hl-red mb-2">{error}</div>}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {runs.length === 0 && <div className="text-[10px] text-gray-600">暂无记录：重置或点击保存后，当前运行会存入浏览器 (IndexedDB)。</div>}
+        {runs.map(run => (
+          <div key={run.id} className="bg-[#0d0e11] border border-hl-border rounded p-2 text-[10px]">
+            <div className="flex justify-between">
+              <span className="text-gray-300 truncate mr-2" title={run.name}>{run.name}</span>
+              <span className={`font-mono ${run.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'}`}>
+                {run.pnl >= 0 ? '+' : ''}{run.pnl.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex justify-between items-center mt-1 text-gray-500">
+              <span className="font-mono">
+                {formatTime(run.createdAt)} · {run.duration.toFixed(0)}s · {run.fills} fills
+                {run.truncated && (
+                  <span className="text-yellow-400" title={`导出只含前 ${MAX_RUN_TICKS} 个 tick 及其成交，重放仍覆盖整个运行`}> · 已截断 (truncated)</span>
+                )}
+              </span>
+              <span className="flex items-center space-x-2">
+                <button
+                  onClick={() => withRun(run.id, onReplay)}
+                  disabled={!run.replayable}
+                  className="hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                  title={run.replayable ? '从种子重放并继续' : '含实时行情的运行无法重放'}
+                >
+                  <Play size={12} />
+                </button>
+                <button onClick={() => withRun(run.id, r => download(`${r.id}.json`, JSON.stringify(r), 'application/json'))} className="hover:text-white" title="导出 JSON">
+                  <FileJson size={12} />
+                </button>
+                <button onClick={() => withRun(run.id, r => download(`${r.id}-ticks.csv`, ticksCsv(r), 'text/csv'))} className="hover:text-white" title="导出 Tick CSV">
+                  <FileSpreadsheet size={12} />
+                </button>
+                <button onClick={() => withRun(run.id, r => download(`${r.id}-fills.csv`, fillsCsv(r), 'text/csv'))} className="hover:text-white" title="导出成交 CSV">
+                  <Download size={12} />
+                </button>
+                <button onClick={() => remove(run.id)} className="hover:text-hl-red" title="删除">
+                  <Trash2 size={12} />
+                </button>
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Siren, Upload, Zap } from 'lucide-react';
+import { Scenario, ScenarioReport, StressState } from '../types';
+import { parseScenario, SCENARIO_EFFECT_LABELS, stressEffects } from '../engine/scenarios';
+import { RULE_LABELS } from './RiskPanel';
+import { StatTile } from './ui';
+
+/** Worst drawdown, peak position and which controls fired while a scenario played out. */
+export const ScenarioReportView = ({ report }: { report: ScenarioReport }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <StatTile label="PnL (场景内)" value={`${report.pnl >= 0 ? '+' : '-'}$${Math.abs(report.pnl).toFixed(2)}`} className={report.pnl >= 0 ? 'text-hl-green' : 'text-hl-red'} />
+    <StatTile label="Worst Drawdown" value={`$${report.maxDrawdown.toFixed(2)}`} className="text-hl-red" />
+    <StatTile label="Max |Inventory|" value={`${report.maxInventory}`} className="text-hl-accent" />
+    <StatTile label="Rejected Orders" value={`${report.rejected}`} className={report.rejected > 0 ? 'text-yellow-400' : 'text-gray-300'} />
+    <StatTile
+      label="风控触发 (Risk Fired)"
+      value={report.riskFired.length > 0 ? report.riskFired.map(r => RULE_LABELS[r] ?? r).join(', ') : '无'}
+      className={report.riskFired.length > 0 ? 'text-yellow-400 text-xs' : 'text-gray-300'}
+    />
+    <StatTile
+      label="熔断 / 强平"
+      value={`${report.halted ? '已熔断' : '—'} / ${report.liquidations}`}
+      className={report.halted || report.liquidations > 0 ? 'text-hl-red' : 'text-gray-300'}
+    />
+  </div>
+);
+
+/**
+ * The stress-scenario library: inject one into the running simulation, watch which effects are in force,
+ * and read its report once the window has passed. Custom scenarios are imported as JSON.
+ */
+export const ScenarioPanel = ({
+  scenarios,
+  stress,
+  time,
+  onInject,
+  onImport
+}: {
+  scenarios: Scenario[];
+  stress?: StressState;
+  time: number;
+  onInject: (scenario: Scenario) => void;
+  onImport: (scenario: Scenario) => void;
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const elapsed = stress ? time - stress.startedAt : 0;
+  const effects = stress && !stress.done ? stress.scenario.steps.filter(s => elapsed >= s.at && elapsed < s.at + s.duration) : [];
+  const shift = stress ? stressEffects(stress, time).priceShift : 0;
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(parseScenario(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-xs font-bold text-gray-500 uppercase flex items-center">
+          <Siren size={14} className="mr-2" /> 压力场景 (Stress Scenarios)
+        </h4>
+        <label className="flex items-center text-[10px] text-gray-400 hover:text-white cursor-pointer" title="导入 JSON 场景定义">
+          <Upload size={12} className="mr-1" /> 导入
+          <input
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) importFile(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        {scenarios.map(scenario => (
+          <button
+            key={scenario.id}
+            onClick={() => onInject(scenario)}
+            title={scenario.description}
+            className={`w-full flex justify-between items-center px-2 py-1.5 rounded border text-xs ${stress?.scenario.id === scenario.id && !stress.done ? 'border-hl-red text-white bg-hl-red/10' : 'border-hl-border text-gray-400 hover:text-white'}`}
+          >
+            <span className="flex items-center">
+              <Zap size={12} className="mr-1.5" /> {scenario.name}
+            </span>
+            <span className="text-[10px] text-gray-500 font-mono">{scenario.duration}s</span>
+          </button>
+        ))}
+      </div>
+      {error && <div className="text-[10px] text-hl-red mb-2">{error}</div>}
+
+      {stress && (
+        <div className="border-t border-hl-border pt-3">
+          <div className="flex justify-between text-[10px] mb-2">
+            <span className="text-gray-300">{stress.scenario.name}</span>
+            <span className={`font-mono ${stress.done ? 'text-gray-500' : 'text-hl-red'}`}>
+              {stress.done ? '已结束' : `${elapsed.toFixed(1)} / ${stress.scenario.duration}s`}
+            </span>
+          </div>
+          {!stress.done && (
+            <div className="flex flex-wrap gap-1 mb-2 text-[10px]">
+              {effects.map((step, i) => (
+                <span key={i} className="px-1.5 rounded bg-hl-red/20 text-hl-red">{SCENARIO_EFFECT_LABELS[step.effect.type]}</span>
+              ))}
+              {shift !== 0 && <span className="px-1.5 rounded bg-[#0d0e11] text-gray-400 font-mono">价格偏移 {(shift * 100).toFixed(2)}%</span>}
+            </div>
+          )}
+          <ScenarioReportView report={stress.report} />
+        </div>
+      )}
+      <p className="text-[10px] text-gray-500 mt-2">
+        场景按数据定义（价格路径、波动率倍数、流动性、毒性流、行情中断、拒单），注入后从当前时刻开始计时。报告覆盖场景窗口内的最大回撤、最大持仓与风控触发情况。
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { BarChart3 } from 'lucide-react';
+import { SimulationStats } from '../types';
+import { statsBreakdown } from '../engine/simulation';
+import { StatTile } from './ui';
+
+const price = (v: number | null) => (v === null ? '—' : v.toFixed(2));
+
+/** Session turnover, per-side fills and prices, and how the position was carried over time. */
+export const StatsPanel = ({ stats, maxInventory }: { stats: SimulationStats; maxInventory: number }) => {
+  const b = statsBreakdown(stats);
+
+  return (
+    <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+      <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+        <BarChart3 size={14} className="mr-2" /> 交易统计 (Session Stats)
+      </h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <StatTile label="Fills (Buy / Sell)" value={`${stats.buys} / ${stats.sells}`} className="text-white" />
+        <StatTile label="Notional Volume" value={`$${stats.volume.toFixed(0)}`} className="text-white" />
+        <StatTile label="Avg Buy Price" value={price(b.avgBuyPrice)} className="text-hl-green" />
+        <StatTile label="Avg Sell Price" value={price(b.avgSellPrice)} className="text-hl-red" />
+        <StatTile
+          label={`Round-trip Spread (${b.roundTripSize} 已平)`}
+          value={b.roundTripSpread === null ? '—' : `${b.roundTripSpread >= 0 ? '+' : ''}${b.roundTripSpread.toFixed(3)}`}
+          className={b.roundTripSpread === null ? 'text-gray-500' : b.roundTripSpread >= 0 ? 'text-hl-green' : 'text-hl-red'}
+        />
+        <StatTile label="TWA Inventory" value={b.avgInventory.toFixed(2)} className="text-hl-accent" />
+        <StatTile label="TWA |Inventory|" value={b.avgAbsInventory.toFixed(2)} className="text-hl-accent" />
+        <StatTile
+          label={`Time at Limit (±${maxInventory})`}
+          value={`${(b.limitShare * 100).toFixed(1)}%`}
+          className={b.limitShare > 0.2 ? 'text-hl-red' : b.limitShare > 0 ? 'text-yellow-400' : 'text-gray-300'}
+        />
+      </div>
+      <p className="text-[10px] text-gray-500 mt-2">
+        往返价差 = 平均卖价 − 平均买价（每单位），只有买卖都成交的部分才算完成往返；库存按持有时间加权。
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from 'react';
+import { getStrategy, STRATEGIES, StrategyConfig, StrategyId, StrategyParam, StrategyParams } from '../engine/strategies';
+import { timeLeft } from '../engine/stoikov';
+import { ParamSlider } from './ui';
+
+/** Sliders and choice buttons for declared parameters (a strategy's or a market model's). */
+export const ParamControls = ({
+  params,
+  values,
+  onChange,
+  accent
+}: {
+  params: StrategyParam[];
+  values: StrategyParams;
+  onChange: (key: string, value: number) => void;
+  accent?: string;
+}) => (
+  <>
+    {params.map(param => (
+      <React.Fragment key={param.key}>
+        {param.kind === 'range' ? (
+          <ParamSlider
+            label={param.label}
+            value={values[param.key]}
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            digits={param.digits}
+            onChange={(v) => onChange(param.key, v)}
+            accent={accent}
+          />
+        ) : (
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            {param.options.map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => onChange(param.key, value)}
+                className={`py-1 rounded border ${values[param.key] === value ? 'border-hl-accent text-white bg-hl-accent/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </React.Fragment>
+    ))}
+  </>
+);
+
+/**
+ * Strategy picker plus the controls the selected strategy declares. Switching strategy resets to its defaults.
+ * `time` (session seconds) shows T − t for strategies with a session horizon.
+ */
+export const StrategyControls = ({
+  config,
+  onChange,
+  time
+}: {
+  config: StrategyConfig;
+  onChange: (config: StrategyConfig) => void;
+  time?: number;
+}) => {
+  const strategy = getStrategy(config.id);
+  const params = { ...strategy.defaults, ...config.params };
+  const setParam = (key: string, value: number) => onChange({ ...config, params: { ...params, [key]: value } });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <select
+          value={config.id}
+          onChange={(e) => {
+            const id = e.target.value as StrategyId;
+            onChange({ id, params: getStrategy(id).defaults });
+          }}
+          className="w-full bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-xs text-white"
+        >
+          {STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+        </select>
+        <p className="text-[10px] text-gray-500 mt-1">{strategy.description}</p>
+      </div>
+      <ParamControls params={strategy.params} values={params} onChange={setParam} />
+      {time !== undefined && params.horizon !== undefined && (
+        <div className="text-[10px] text-gray-500 font-mono">
+          T − t = {timeLeft(time, params.horizon).toFixed(1)}s
+        </div>
+      )}
+    </div>
+  );
+};
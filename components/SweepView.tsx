@@ -0,0 +1,385 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Grid3x3, PlayCircle, Settings, Square, Split } from 'lucide-react';
+import { SimConfig } from '../engine/simulation';
+import { StrategyConfig } from '../engine/strategies';
+import {
+  higherIsBetter,
+  METRIC_LABELS,
+  pointConfig,
+  SearchMode,
+  SweepAxis,
+  sweepableParams,
+  SweepJob,
+  SweepMetric,
+  SweepPoint,
+  SweepResult,
+  SweepWorkerMessage,
+  SWEEP_METRICS
+} from '../engine/sweep';
+import { StrategyControls } from './StrategyControls';
+import { ParamSlider } from './ui';
+
+type Sample = 'full' | 'test';
+
+const formatMetric = (metric: SweepMetric, v: number) => (metric === 'sharpe' ? v.toFixed(3) : `$${v.toFixed(1)}`);
+
+// Best point in each heatmap cell; random-search points are binned onto the same cells as the grid
+const binPoints = (result: SweepResult, metric: SweepMetric, sample: Sample): (number | undefined)[][] => {
+  const { x, y } = result.request;
+  const bin = (v: number, axis: SweepAxis) =>
+    axis.max === axis.min ? 0 : Math.min(axis.steps - 1, Math.floor(((v - axis.min) / (axis.max - axis.min)) * axis.steps));
+  const cells: (number | undefined)[][] = Array.from({ length: y.steps }, () => new Array(x.steps).fill(undefined));
+  result.points.forEach((p, i) => {
+    const row = bin(p.y, y);
+    const col = bin(p.x, x);
+    const current = cells[row][col];
+    const value = p[sample][metric];
+    const incumbent = current === undefined ? undefined : result.points[current][sample][metric];
+    if (incumbent === undefined || (higherIsBetter(metric) ? value > incumbent : value < incumbent)) cells[row][col] = i;
+  });
+  return cells;
+};
+
+// Red (worst) to green (best) across the values on screen
+const cellColor = (t: number) => `hsl(${Math.round(t * 140)}, 55%, ${28 + t * 10}%)`;
+
+const AxisEditor = ({
+  title,
+  axis,
+  options,
+  onChange
+}: {
+  title: string;
+  axis: SweepAxis;
+  options: { key: string; label: string; min: number; max: number }[];
+  onChange: (axis: SweepAxis) => void;
+}) => (
+  <div className="space-y-2 text-xs">
+    <div className="flex justify-between items-center">
+      <span className="text-gray-400">{title}</span>
+      <select
+        value={axis.key}
+        onChange={(e) => {
+          const option = options.find(o => o.key === e.target.value)!;
+          onChange({ ...axis, key: option.key, min: option.min, max: option.max });
+        }}
+        className="bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-white"
+      >
+        {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+      </select>
+    </div>
+    <div className="grid grid-cols-3 gap-2">
+      {(['min', 'max', 'steps'] as const).map(field => (
+        <label key={field} className="flex flex-col text-[10px] text-gray-500">
+          {field}
+          <input
+            type="number"
+            value={axis[field]}
+            step={field === 'steps' ? 1 : 'any'}
+            min={field === 'steps' ? 2 : undefined}
+            max={field === 'steps' ? 12 : undefined}
+            onChange={(e) => {
+              const v = parseFloat(e.target.value);
+              if (!isFinite(v)) return;
+              onChange({ ...axis, [field]: field === 'steps' ? Math.min(12, Math.max(2, Math.round(v))) : v });
+            }}
+            className="bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+const defaultAxes = (strategy: StrategyConfig): [SweepAxis, SweepAxis] => {
+  const options = sweepableParams(strategy);
+  const x = options.find(o => o.key !== 'volatility') ?? options[0];
+  const y = options.find(o => o.key === 'volatility')!;
+  return [
+    { key: x.key, min: x.min, max: x.max, steps: 8 },
+    { key: y.key, min: y.min, max: y.max, steps: 8 },
+  ];
+};
+
+/**
+ * Grid / random parameter search run in a Web Worker. Every point quotes against the same seeded path,
+ * scored on the whole path and with rolling walk-forward folds; clicking a cell loads it into the Simulation.
+ */
+export const SweepView = ({
+  config,
+  onLoad
+}: {
+  config: SimConfig;
+  onLoad: (strategy: StrategyConfig, strategyVolatility: number | undefined) => void;
+}) => {
+  const [strategy, setStrategy] = useState<StrategyConfig>(config.strategy);
+  const [axes, setAxes] = useState<[SweepAxis, SweepAxis]>(() => defaultAxes(config.strategy));
+  const [mode, setMode] = useState<SearchMode>('grid');
+  const [samples, setSamples] = useState(60);
+  const [duration, setDuration] = useState(120); // Seconds of simulated time
+  const [folds, setFolds] = useState(3);
+  const [seed, setSeed] = useState(42);
+  const [metric, setMetric] = useState<SweepMetric>('pnl');
+  const [sample, setSample] = useState<Sample>('full');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const changeStrategy = (next: StrategyConfig) => {
+    if (next.id !== strategy.id) setAxes(defaultAxes(next));
+    setStrategy(next);
+  };
+
+  const [x, y] = axes;
+  const options = sweepableParams(strategy);
+  const valid = x.key !== y.key;
+
+  const run = () => {
+    stop();
+    setError(null);
+    const worker = new Worker(new URL('../engine/sweep.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SweepWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        setProgress({ done: msg.done, total: msg.total });
+        return;
+      }
+      if (msg.type === 'done') {
+        setResult(msg.result);
+        if (msg.result.request.folds === 0) setSample('full');
+      } else {
+        setError(msg.message);
+      }
+      stop();
+    };
+    worker.onerror = (e) => {
+      setError(e.message);
+      stop();
+    };
+    const job: SweepJob = {
+      base: config,
+      request: { strategy, x, y, mode, samples, seed, ticks: Math.round(duration / config.dt), folds },
+    };
+    worker.postMessage(job);
+    setProgress({ done: 0, total: mode === 'grid' ? x.steps * y.steps : samples });
+  };
+
+  const load = (point: SweepPoint) => {
+    if (!result) return;
+    const { request } = result;
+    const loaded = pointConfig(config, request.strategy, { [request.x.key]: point.x, [request.y.key]: point.y });
+    onLoad(loaded.strategy, loaded.strategyVolatility);
+  };
+
+  const cells = result ? binPoints(result, metric, sample) : [];
+  const values = cells.flat().filter((i): i is number => i !== undefined).map(i => result!.points[i][sample][metric]);
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const score = (v: number) => {
+    const t = hi > lo ? (v - lo) / (hi - lo) : 1;
+    return higherIsBetter(metric) ? t : 1 - t;
+  };
+  const labelOf = (key: string) => sweepableParams(result?.request.strategy ?? strategy).find(o => o.key === key)?.label ?? key;
+  const report = result?.walkForward[metric];
+
+  return (
+    <div className="animate-fade-in h-full flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-1">参数寻优 (Parameter Sweep)</h1>
+          <p className="text-gray-400 text-sm">在 Web Worker 中批量运行模拟，所有参数点共用同一条价格路径；用滚动 walk-forward 检验是否只是对单一路径过拟合。</p>
+        </div>
+        <button
+          onClick={progress ? stop : run}
+          disabled={!valid}
+          className={`flex items-center px-6 py-2 rounded-full font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${progress ? 'bg-hl-red/20 text-hl-red border border-hl-red/50' : 'bg-hl-green text-white hover:bg-hl-green/90'}`}
+        >
+          {progress ? <><Square className="mr-2" size={18} /> 停止</> : <><PlayCircle className="mr-2" /> 开始寻优</>}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 flex-1 min-h-[400px]">
+        <div className="lg:col-span-2 flex flex-col gap-6">
+          <div className="bg-[#0d0e11] border border-hl-border rounded-xl p-4">
+            <div className="flex justify-between items-center mb-3 text-xs">
+              <span className="text-gray-500 flex items-center"><Grid3x3 size={14} className="mr-2" /> Heatmap</span>
+              <div className="flex gap-2">
+                {SWEEP_METRICS.map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMetric(m)}
+                    className={`px-2 py-1 rounded border ${metric === m ? 'border-hl-accent text-white bg-hl-accent/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                  >
+                    {METRIC_LABELS[m]}
+                  </button>
+                ))}
+                {([['full', '全样本'], ['test', '样本外 (OOS)']] as [Sample, string][]).map(([s, label]) => (
+                  <button
+                    key={s}
+                    onClick={() => setSample(s)}
+                    disabled={s === 'test' && !!result && result.request.folds === 0}
+                    className={`px-2 py-1 rounded border disabled:opacity-40 ${sample === s ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {progress && (
+              <div className="mb-3">
+                <div className="h-1.5 bg-[#141519] rounded overflow-hidden border border-hl-border">
+                  <div className="h-full bg-hl-green transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }}></div>
+                </div>
+                <div className="text-[10px] text-gray-500 mt-1 font-mono">{progress.done} / {progress.total} runs</div>
+              </div>
+            )}
+            {error && <div className="text-xs text-hl-red mb-2">{error}</div>}
+
+            {result ? (
+              <div className="flex">
+                <div className="flex flex-col justify-between text-[10px] text-gray-500 font-mono pr-2 py-1">
+                  <span>{result.request.y.max.toFixed(2)}</span>
+                  <span className="[writing-mode:vertical-rl] rotate-180 text-center">{labelOf(result.request.y.key)}</span>
+                  <span>{result.request.y.min.toFixed(2)}</span>
+                </div>
+                <div className="flex-1">
+                  <div className="grid gap-0.5" style={{ gridTemplateColumns: `repeat(${result.request.x.steps}, minmax(0, 1fr))` }}>
+                    {[...cells].reverse().map((row, r) =>
+                      row.map((idx, c) => {
+                        const point = idx === undefined ? undefined : result.points[idx];
+                        const value = point?.[sample][metric];
+                        return (
+                          <button
+                            key={`${r}-${c}`}
+                            disabled={!point}
+                            onClick={() => point && load(point)}
+                            title={point ? `${labelOf(result.request.x.key)} ${point.x.toFixed(3)}, ${labelOf(result.request.y.key)} ${point.y.toFixed(3)} — 点击载入模拟` : ''}
+                            className="h-9 rounded-sm text-[10px] font-mono text-white/90 hover:ring-2 hover:ring-white disabled:cursor-default"
+                            style={{ backgroundColor: value === undefined ? '#141519' : cellColor(score(value)) }}
+                          >
+                            {value === undefined ? '' : formatMetric(metric, value)}
+                          </button>
+                        );
+                      })
+                    )}
+                  </div>
+                  <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+                    <span>{result.request.x.min.toFixed(2)}</span>
+                    <span>{labelOf(result.request.x.key)}</span>
+                    <span>{result.request.x.max.toFixed(2)}</span>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500 py-12 text-center">设置参数范围后点击“开始寻优”。点击任一格子即可把该参数载入实时模拟。</div>
+            )}
+          </div>
+
+          {result && report && result.request.folds > 0 && (
+            <div className="bg-hl-card border border-hl-border rounded-xl p-4 overflow-x-auto">
+              <h4 className="text-xs font-bold text-gray-500 mb-3 uppercase flex items-center">
+                <Split size={14} className="mr-2" /> Walk-Forward ({METRIC_LABELS[metric]})
+              </h4>
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500 border-b border-hl-border">
+                    <th className="text-left py-1 font-normal">Fold</th>
+                    <th className="text-left py-1 font-normal">Train → Test (s)</th>
+                    <th className="text-right py-1 font-normal">Pick (x, y)</th>
+                    <th className="text-right py-1 font-normal">In-sample</th>
+                    <th className="text-right py-1 font-normal">Out-of-sample</th>
+                    <th className="text-right py-1 font-normal">OOS Rank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.folds.map((fold, k) => {
+                    const pick = result.points[fold.best];
+                    const secs = (t: number) => (t * config.dt).toFixed(0);
+                    return (
+                      <tr key={k} className="border-b border-hl-border/50 text-gray-300">
+                        <td className="py-1">{k + 1}</td>
+                        <td className="py-1">{secs(fold.trainStart)}–{secs(fold.trainEnd)} → {secs(fold.testEnd)}</td>
+                        <td className="py-1 text-right">
+                          <button onClick={() => load(pick)} className="hover:text-white underline decoration-dotted">
+                            {pick.x.toFixed(2)}, {pick.y.toFixed(2)}
+                          </button>
+                        </td>
+                        <td className="py-1 text-right">{formatMetric(metric, fold.train)}</td>
+                        <td className="py-1 text-right">{formatMetric(metric, fold.test)}</td>
+                        <td className={`py-1 text-right ${fold.testRank === 1 ? 'text-hl-green' : ''}`}>{fold.testRank} / {result.points.length}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="grid grid-cols-2 gap-4 mt-3 text-xs">
+                <div className="bg-[#0d0e11] p-2 rounded border border-hl-border">
+                  <div className="text-[10px] text-gray-500">Walk-forward OOS (mean)</div>
+                  <div className="font-mono text-white">{formatMetric(metric, report.score)}</div>
+                </div>
+                <div className="bg-[#0d0e11] p-2 rounded border border-hl-border">
+                  <div className="text-[10px] text-gray-500">Best in hindsight (OOS mean)</div>
+                  <div className="font-mono text-gray-400">{formatMetric(metric, report.hindsight)}</div>
+                </div>
+              </div>
+              <p className="text-[10px] text-gray-500 mt-2">样本内最优点在下一段的表现若明显落后于事后最优，说明参数在单一路径上过拟合。</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-hl-card border border-hl-border rounded-xl p-4">
+            <h4 className="text-xs font-bold text-gray-500 mb-4 uppercase flex items-center">
+              <Settings size={14} className="mr-2" /> 搜索空间 (Search Space)
+            </h4>
+            <div className="space-y-4">
+              <StrategyControls config={strategy} onChange={changeStrategy} />
+              <AxisEditor title="X 轴" axis={x} options={options} onChange={(a) => setAxes([a, y])} />
+              <AxisEditor title="Y 轴" axis={y} options={options} onChange={(a) => setAxes([x, a])} />
+              {!valid && <div className="text-[10px] text-hl-red">X 轴与 Y 轴必须是不同的参数。</div>}
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                {([['grid', '网格搜索'], ['random', '随机搜索']] as [SearchMode, string][]).map(([m, label]) => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`py-1 rounded border ${mode === m ? 'border-hl-blue text-white bg-hl-blue/10' : 'border-hl-border text-gray-500 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {mode === 'random' && (
+                <ParamSlider label="Samples" value={samples} min={10} max={200} step={10} digits={0} onChange={setSamples} accent="accent-hl-blue" />
+              )}
+              <ParamSlider label="Duration (s)" value={duration} min={30} max={600} step={30} digits={0} onChange={setDuration} accent="accent-hl-blue" />
+              <ParamSlider label="Walk-Forward Folds" value={folds} min={0} max={6} step={1} digits={0} onChange={setFolds} accent="accent-hl-green" />
+              <div className="flex justify-between items-center text-xs">
+                <span className="text-gray-400">Seed</span>
+                <input
+                  type="number"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                  className="w-24 bg-[#0d0e11] border border-hl-border rounded px-2 py-1 text-right font-mono text-white"
+                />
+              </div>
+              <p className="text-[10px] text-gray-500">
+                成交模型、手续费、风控与延迟沿用策略模拟面板的设置；价格路径按面板中的 σ = {config.volatility.toFixed(2)} 生成，扫描的 σ 是策略自身的估计。
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+
+const MAX_CHART_POINTS = 600;
+
+// Keeps long runs cheap to draw: every n-th point plus the last one
+export const downsample = <T,>(points: T[], max = MAX_CHART_POINTS): T[] => {
+  if (points.length <= max) return points;
+  const stride = Math.ceil(points.length / max);
+  return points.filter((_, i) => i % stride === 0 || i === points.length - 1);
+};
+
+export const ContentCard = ({ title, children, className = "" }: { title: string, children?: React.ReactNode, className?: string }) => (
+  <div className={`bg-hl-card border border-hl-border rounded-xl p-6 mb-6 ${className}`}>
+    <h3 className="text-xl font-bold text-white mb-4 flex items-center">
+      <span className="bg-gradient-to-r from-hl-green to-hl-blue w-2 h-6 mr-3 rounded-sm"></span>
+      {title}
+    </h3>
+    <div className="text-gray-300 leading-relaxed space-y-4">
+      {children}
+    </div>
+  </div>
+);
+
+export const CodeBlock = ({ code, language = 'rust' }: { code: string; language?: string }) => (
+  <div className="bg-[#0d0e11] border border-hl-border rounded-lg overflow-hidden my-4 shadow-lg">
+    <div className="flex justify-between items-center px-4 py-2 bg-[#1a1c23] border-b border-hl-border">
+      <span className="text-xs text-gray-400 font-mono uppercase">{language}</span>
+      <div className="flex space-x-2">
+        <div className="w-2 h-2 rounded-full bg-hl-red/50"></div>
+        <div className="w-2 h-2 rounded-full bg-yellow-500/50"></div>
+        <div className="w-2 h-2 rounded-full bg-hl-green/50"></div>
+      </div>
+    </div>
+    <pre className="p-4 overflow-x-auto text-sm font-mono text-gray-300 scrollbar-thin scrollbar-thumb-hl-border scrollbar-track-transparent">
+      <code>{code}</code>
+    </pre>
+  </div>
+);
+
+export const StatTile = ({ label, value, className = "text-gray-300" }: { label: string; value: React.ReactNode; className?: string }) => (
+  <div className="bg-[#0d0e11] p-2 rounded border border-hl-border text-center">
+    <div className="text-[10px] text-gray-500">{label}</div>
+    <div className={`text-lg font-mono font-bold ${className}`}>{value}</div>
+  </div>
+);
+
+export const ParamSlider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  digits = 2,
+  accent = 'accent-hl-accent'
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  digits?: number;
+  accent?: string;
+}) => (
+  <div>
+    <div className="flex justify-between text-xs mb-1">
+      <span className="text-gray-400">{label}</span>
+      <span className="text-white font-mono">{value.toFixed(digits)}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className={`w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer ${accent}`}
+    />
+  </div>
+);
@@ -0,0 +1,388 @@
+// AMM venues: constant-product (x·y=k) and Uniswap-v3-style concentrated-liquidity pools, with ticks, swap fees and
+// LP positions, run against the same fair-value path as the CLOB quoter so market making and LP-ing can be compared.
+// A constant-product pool is the full-range special case: reserves x = L/√P, y = L·√P, so x·y = L².
+import { SimState } from '../types';
+import { maxDrawdown } from './backtest';
+import { marketPath, runRng } from './compare';
+import { createRng, Rng } from './rng';
+import { advanceSimulation, createInitialSimState, markToMarketPnl, SimConfig } from './simulation';
+import { INITIAL_CASH, INITIAL_PRICE } from './stoikov';
+
+export type PoolKind = 'constantProduct' | 'concentrated';
+
+export interface LpPosition {
+  lower: number;     // Ticks; price = 1.0001^tick
+  upper: number;
+  liquidity: number;
+  feesBase: number;  // Fees earned so far, kept apart from the liquidity (not compounded)
+  feesQuote: number;
+}
+
+export interface Pool {
+  kind: PoolKind;
+  fee: number;                   // Taken from the input amount of every swap
+  tickSpacing: number;
+  sqrtPrice: number;             // √(quote per base)
+  tick: number;                  // The tick the price is in
+  liquidity: number;             // Active at the current price
+  ticks: Record<number, number>; // Initialised tick → liquidity added when the price crosses it upwards
+  positions: LpPosition[];
+}
+
+export interface SwapResult {
+  pool: Pool;
+  amountIn: number; // Including the fee; quote for a buy, base for a sell
+  amountOut: number;
+  fee: number;
+}
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+const LOG_TICK = Math.log(1.0001);
+
+export const tickToSqrtPrice = (tick: number): number => Math.exp((tick * LOG_TICK) / 2);
+
+export const priceToTick = (price: number): number => Math.floor(Math.log(price) / LOG_TICK);
+
+export const poolPrice = (pool: Pool): number => pool.sqrtPrice * pool.sqrtPrice;
+
+/** The widest range the pool's tick spacing allows. */
+export const fullRange = (tickSpacing: number): [number, number] => [
+  Math.ceil(MIN_TICK / tickSpacing) * tickSpacing,
+  Math.floor(MAX_TICK / tickSpacing) * tickSpacing,
+];
+
+/** The ticks bounding `price·(1 ± width)`, widened out to the spacing. */
+export const rangeTicks = (price: number, width: number, tickSpacing: number): [number, number] => [
+  Math.floor(priceToTick(price * (1 - width)) / tickSpacing) * tickSpacing,
+  Math.ceil(priceToTick(price * (1 + width)) / tickSpacing) * tickSpacing,
+];
+
+export const createPool = (kind: PoolKind, price: number, fee: number, tickSpacing: number): Pool => ({
+  kind,
+  fee,
+  tickSpacing: kind === 'constantProduct' ? 1 : tickSpacing,
+  sqrtPrice: Math.sqrt(price),
+  tick: priceToTick(price),
+  liquidity: 0,
+  ticks: {},
+  positions: [],
+});
+
+/** Token amounts a position holds at `sqrtPrice`: all base below the range, all quote above it. */
+export const positionAmounts = (sqrtPrice: number, lower: number, upper: number, liquidity: number): { base: number; quote: number } => {
+  const sa = tickToSqrtPrice(lower);
+  const sb = tickToSqrtPrice(upper);
+  const s = Math.min(Math.max(sqrtPrice, sa), sb);
+  return { base: liquidity * (1 / s - 1 / sb), quote: liquidity * (s - sa) };
+};
+
+/** The liquidity a deposit worth `value` (quote) buys in [lower, upper) at the pool's price. */
+export const liquidityForValue = (pool: Pool, lower: number, upper: number, value: number): number => {
+  const unit = positionAmounts(pool.sqrtPrice, lower, upper, 1);
+  return value / (unit.base * poolPrice(pool) + unit.quote);
+};
+
+/** Adds an LP position; it is the last entry of the returned pool's `positions`. */
+export const addPosition = (pool: Pool, lower: number, upper: number, liquidity: number): Pool => {
+  const [min, max] = fullRange(pool.tickSpacing);
+  if (pool.kind === 'constantProduct' && (lower !== min || upper !== max)) {
+    throw new Error('恒定乘积池只接受全区间头寸');
+  }
+  if (lower >= upper || lower < min || upper > max || lower % pool.tickSpacing !== 0 || upper % pool.tickSpacing !== 0) {
+    throw new Error(`无效的价格区间 [${lower}, ${upper})：需按 ${pool.tickSpacing} 对齐且下限小于上限`);
+  }
+  return {
+    ...pool,
+    liquidity: lower <= pool.tick && pool.tick < upper ? pool.liquidity + liquidity : pool.liquidity,
+    ticks: { ...pool.ticks, [lower]: (pool.ticks[lower] ?? 0) + liquidity, [upper]: (pool.ticks[upper] ?? 0) - liquidity },
+    positions: [...pool.positions, { lower, upper, liquidity, feesBase: 0, feesQuote: 0 }],
+  };
+};
+
+/**
+ * Exact-input swap. A buy pays `amountIn` quote for base and pushes the price up; a sell pays base. The swap walks
+ * tick by tick, changing the active liquidity as it crosses initialised ticks, and stops early at `limitSqrtPrice`.
+ * Each step's fee goes to the positions in range, pro rata to their liquidity.
+ */
+export const swap = (pool: Pool, side: 'buy' | 'sell', amountIn: number, limitSqrtPrice?: number): SwapResult => {
+  const up = side === 'buy';
+  const limit = limitSqrtPrice ?? (up ? Infinity : 0);
+  const initialised = Object.keys(pool.ticks).map(Number).sort((a, b) => a - b);
+  const positions = pool.positions.map(p => ({ ...p }));
+  let { sqrtPrice, tick, liquidity } = pool;
+  let remaining = amountIn;
+  let totalIn = 0;
+  let totalOut = 0;
+  let totalFee = 0;
+
+  while (remaining > 0 && (up ? sqrtPrice < limit : sqrtPrice > limit)) {
+    const next = up ? initialised.find(t => t > tick) : initialised.filter(t => t <= tick).pop();
+    if (next === undefined && liquidity <= 0) break;
+    const nextSqrt = next === undefined ? (up ? Infinity : 0) : tickToSqrtPrice(next);
+    const target = up ? Math.min(nextSqrt, limit) : Math.max(nextSqrt, limit);
+
+    const available = remaining * (1 - pool.fee);
+    let stepIn = 0;
+    let reached = true;
+    let sqrtNext = target;
+    if (liquidity > 0) {
+      const toTarget = up ? liquidity * (target - sqrtPrice) : liquidity * (1 / target - 1 / sqrtPrice);
+      if (toTarget <= available) {
+        stepIn = toTarget;
+      } else {
+        stepIn = available;
+        reached = false;
+        sqrtNext = up ? sqrtPrice + available / liquidity : 1 / (1 / sqrtPrice + available / liquidity);
+      }
+    }
+    const stepOut = up ? liquidity * (1 / sqrtPrice - 1 / sqrtNext) : liquidity * (sqrtPrice - sqrtNext);
+    const stepFee = reached ? (stepIn * pool.fee) / (1 - pool.fee) : remaining - stepIn;
+
+    if (liquidity > 0 && stepFee > 0) {
+      positions.forEach(p => {
+        if (p.lower > tick || tick >= p.upper) return;
+        const share = (stepFee * p.liquidity) / liquidity;
+        if (up) p.feesQuote += share;
+        else p.feesBase += share;
+      });
+    }
+    totalIn += stepIn + stepFee;
+    totalOut += stepOut;
+    totalFee += stepFee;
+    remaining = reached ? remaining - stepIn - stepFee : 0;
+    sqrtPrice = sqrtNext;
+
+    if (reached && next !== undefined && target === nextSqrt) {
+      liquidity += up ? pool.ticks[next] : -pool.ticks[next];
+      tick = up ? next : next - 1;
+    } else {
+      tick = priceToTick(sqrtPrice * sqrtPrice);
+    }
+  }
+
+  return {
+    pool: { ...pool, sqrtPrice, tick, liquidity, positions },
+    amountIn: totalIn,
+    amountOut: totalOut,
+    fee: totalFee,
+  };
+};
+
+/**
+ * What an arbitrageur does when the pool is away from the outside price: trades it back to the edge of the no-arb
+ * band fair·(1 − fee) … fair / (1 − fee). Null when the pool is already inside the band.
+ */
+export const arbitrage = (pool: Pool, fair: number): { side: 'buy' | 'sell'; result: SwapResult } | null => {
+  const price = poolPrice(pool);
+  if (price < fair * (1 - pool.fee)) return { side: 'buy', result: swap(pool, 'buy', Infinity, Math.sqrt(fair * (1 - pool.fee))) };
+  if (price > fair / (1 - pool.fee)) return { side: 'sell', result: swap(pool, 'sell', Infinity, Math.sqrt(fair / (1 - pool.fee))) };
+  return null;
+};
+
+/** Average fill price of a swap worth `notional` quote, and its slippage against the pool price (fee included). */
+export const executionPrice = (pool: Pool, side: 'buy' | 'sell', notional: number): { price: number; impact: number } => {
+  const mid = poolPrice(pool);
+  const { amountIn, amountOut } = swap(pool, side, side === 'buy' ? notional : notional / mid);
+  const price = side === 'buy' ? amountIn / amountOut : amountOut / amountIn;
+  return { price, impact: side === 'buy' ? price / mid - 1 : 1 - price / mid };
+};
+
+/** Active liquidity over the initialised ticks between `from` and `to`, as [price, liquidity] steps. */
+export const liquidityProfile = (pool: Pool, from: number, to: number): { price: number; liquidity: number }[] => {
+  const lower = priceToTick(from);
+  const upper = priceToTick(to);
+  const initialised = Object.keys(pool.ticks).map(Number).sort((a, b) => a - b);
+  let liquidity = initialised.filter(t => t <= lower).reduce((sum, t) => sum + pool.ticks[t], 0);
+  const steps = [{ price: from, liquidity }];
+  initialised
+    .filter(t => t > lower && t < upper)
+    .forEach(t => {
+      liquidity += pool.ticks[t];
+      steps.push({ price: tickToSqrtPrice(t) ** 2, liquidity });
+    });
+  steps.push({ price: to, liquidity });
+  return steps;
+};
+
+export interface PositionValue {
+  base: number;
+  quote: number;
+  value: number; // Holdings at `mark`, fees excluded
+  fees: number;  // Earned fees at `mark`
+}
+
+export const positionValue = (pool: Pool, position: LpPosition, mark: number): PositionValue => {
+  const { base, quote } = positionAmounts(pool.sqrtPrice, position.lower, position.upper, position.liquidity);
+  return { base, quote, value: base * mark + quote, fees: position.feesBase * mark + position.feesQuote };
+};
+
+// --- CLOB vs LP on one path ---
+
+export interface AmmConfig {
+  fee: number;
+  tickSpacing: number;
+  rangeWidth: number; // Our concentrated range: ±width around the starting price
+  poolDepth: number;  // Other LPs' liquidity, in quote value at the starting price
+  noiseRate: number;  // Uninformed swaps per second
+  noiseSize: number;  // Mean swap notional (quote), exponentially distributed
+  capital: number;    // What each venue's LP deposits; the CLOB quoter trades against the same collateral
+}
+
+// Uniswap v3's fee tiers and their tick spacings
+export const FEE_TIERS: { fee: number; tickSpacing: number }[] = [
+  { fee: 0.0005, tickSpacing: 10 },
+  { fee: 0.003, tickSpacing: 60 },
+  { fee: 0.01, tickSpacing: 200 },
+];
+
+export const DEFAULT_AMM: AmmConfig = {
+  fee: 0.003,
+  tickSpacing: 60,
+  rangeWidth: 0.02,
+  poolDepth: 1_000_000,
+  noiseRate: 1,
+  noiseSize: 2000,
+  capital: INITIAL_CASH,
+};
+
+export const VENUES = ['clob', 'constantProduct', 'concentrated'] as const;
+export type Venue = (typeof VENUES)[number];
+
+export interface VenuePoint {
+  time: number;
+  price: number;
+  poolPrice: Record<PoolKind, number>;
+  pnl: Record<Venue, number>;
+}
+
+export interface VenueSummary {
+  pnl: number;
+  fees: number;                   // LP fee income, or the CLOB's net maker rebates
+  impermanentLoss: number | null; // LP holdings against simply holding the deposit; null for the CLOB
+  hodlPnl: number | null;         // What holding the deposit would have made
+  maxDrawdown: number;
+  volume: number;                 // Our traded notional; for an LP, its pro-rata share of the swap flow
+  inRange: number | null;         // Fraction of the run the position earned fees
+}
+
+export interface VenueComparison {
+  points: VenuePoint[];
+  summaries: Record<Venue, VenueSummary>;
+  pools: Record<PoolKind, Pool>; // At the end of the run, for swap quotes and the liquidity profile
+  range: [number, number];       // Our concentrated range, in price
+}
+
+interface LpRun {
+  pool: Pool;
+  index: number; // Our position
+  deposit: { base: number; quote: number };
+  inRange: number;
+}
+
+// Other LPs: all full-range in the constant-product pool; half full-range and half within ±10% in the concentrated one
+const seedPool = (kind: PoolKind, config: AmmConfig, price: number): LpRun => {
+  let pool = createPool(kind, price, config.fee, config.tickSpacing);
+  const [min, max] = fullRange(pool.tickSpacing);
+  const add = (lower: number, upper: number, value: number) => {
+    pool = addPosition(pool, lower, upper, liquidityForValue(pool, lower, upper, value));
+  };
+  if (kind === 'constantProduct') {
+    add(min, max, config.poolDepth);
+    add(min, max, config.capital);
+  } else {
+    const [bandLower, bandUpper] = rangeTicks(price, 0.1, pool.tickSpacing);
+    const [lower, upper] = rangeTicks(price, config.rangeWidth, pool.tickSpacing);
+    add(min, max, config.poolDepth / 2);
+    add(bandLower, bandUpper, config.poolDepth / 2);
+    add(lower, upper, config.capital);
+  }
+  const index = pool.positions.length - 1;
+  const { base, quote } = positionValue(pool, pool.positions[index], price);
+  return { pool, index, deposit: { base, quote }, inRange: 0 };
+};
+
+// Uninformed order flow for one tick, shared by both pools: at most one swap, side and notional drawn up front
+const noiseSwap = (config: AmmConfig, dt: number, rng: Rng): { side: 'buy' | 'sell'; notional: number } | null => {
+  if (rng() >= 1 - Math.exp(-config.noiseRate * dt)) return null;
+  const side = rng() < 0.5 ? 'buy' : 'sell';
+  return { side, notional: -Math.log(1 - rng()) * config.noiseSize };
+};
+
+const stepPool = (run: LpRun, fair: number, noise: { side: 'buy' | 'sell'; notional: number } | null): LpRun => {
+  let pool = arbitrage(run.pool, fair)?.result.pool ?? run.pool;
+  if (noise) pool = swap(pool, noise.side, noise.side === 'buy' ? noise.notional : noise.notional / poolPrice(pool)).pool;
+  const ours = pool.positions[run.index];
+  const active = ours.lower <= pool.tick && pool.tick < ours.upper;
+  return { ...run, pool, inRange: run.inRange + (active ? 1 : 0) };
+};
+
+const lpPnl = (run: LpRun, mark: number, capital: number): number => {
+  const { value, fees } = positionValue(run.pool, run.pool.positions[run.index], mark);
+  return value + fees - capital;
+};
+
+const lpSummary = (run: LpRun, mark: number, capital: number, equity: number[], ticks: number): VenueSummary => {
+  const { value, fees } = positionValue(run.pool, run.pool.positions[run.index], mark);
+  const hodl = run.deposit.base * mark + run.deposit.quote;
+  return {
+    pnl: value + fees - capital,
+    fees,
+    impermanentLoss: value - hodl,
+    hodlPnl: hodl - capital,
+    maxDrawdown: maxDrawdown(equity),
+    volume: fees / run.pool.fee,
+    inRange: ticks > 0 ? run.inRange / ticks : 0,
+  };
+};
+
+/**
+ * Runs the CLOB quoter (with the Simulation settings) and an LP position in each pool for `ticks` steps of the
+ * fair-value path drawn from `seed`. The pools follow the path through arbitrage and earn from noise swaps;
+ * every venue is marked at the fair value.
+ */
+export const runVenueComparison = (base: SimConfig, amm: AmmConfig, seed: number, ticks: number): VenueComparison => {
+  const path = marketPath(base, seed, ticks);
+  const rng = runRng(seed);
+  const flowRng = createRng(seed + 2);
+  const config = { ...base, margin: { ...base.margin, collateral: amm.capital } };
+  let clob: SimState = createInitialSimState(config);
+  let cp = seedPool('constantProduct', amm, INITIAL_PRICE);
+  let cl = seedPool('concentrated', amm, INITIAL_PRICE);
+  const points: VenuePoint[] = [];
+
+  path.forEach(fair => {
+    clob = advanceSimulation(clob, fair, config, rng).state;
+    const noise = noiseSwap(amm, base.dt, flowRng);
+    cp = stepPool(cp, fair, noise);
+    cl = stepPool(cl, fair, noise);
+    points.push({
+      time: clob.time,
+      price: fair,
+      poolPrice: { constantProduct: poolPrice(cp.pool), concentrated: poolPrice(cl.pool) },
+      pnl: { clob: markToMarketPnl(clob), constantProduct: lpPnl(cp, fair, amm.capital), concentrated: lpPnl(cl, fair, amm.capital) },
+    });
+  });
+
+  const mark = path.length > 0 ? path[path.length - 1] : INITIAL_PRICE;
+  const equity = (venue: Venue) => points.map(p => p.pnl[venue]);
+  const ours = cl.pool.positions[cl.index];
+  return {
+    points,
+    summaries: {
+      clob: {
+        pnl: markToMarketPnl(clob),
+        fees: -clob.ledger.fees,
+        impermanentLoss: null,
+        hodlPnl: null,
+        maxDrawdown: maxDrawdown(equity('clob')),
+        volume: clob.ledger.volume,
+        inRange: null,
+      },
+      constantProduct: lpSummary(cp, mark, amm.capital, equity('constantProduct'), path.length),
+      concentrated: lpSummary(cl, mark, amm.capital, equity('concentrated'), path.length),
+    },
+    pools: { constantProduct: cp.pool, concentrated: cl.pool },
+    range: [tickToSqrtPrice(ours.lower) ** 2, tickToSqrtPrice(ours.upper) ** 2],
+  };
+};
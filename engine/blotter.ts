@@ -0,0 +1,98 @@
+// Fill blotter and markouts: every fill of ours, and how far the mid moved for or against it 1s, 5s and 30s later.
+import { Liquidity } from './fees';
+import { StepResult } from './simulation';
+
+export const MARKOUT_HORIZONS = [1, 5, 30]; // Seconds after the fill
+
+export const MAX_BLOTTER_FILLS = 200;
+
+export type Side = 'buy' | 'sell';
+
+export interface Fill {
+  time: number;
+  side: Side;
+  price: number;
+  size: number;
+  fee: number;
+  liquidity: Liquidity;
+  inventory: number; // Position after the fill
+}
+
+export interface BlotterFill extends Fill {
+  id: number;
+  mid: number;                 // Mid when it filled
+  markouts: (number | null)[]; // Mid move in our favour at each horizon; null until the horizon has passed
+}
+
+// Size-weighted sums per horizon, so the average is per unit filled
+export interface MarkoutTotals {
+  size: number[];
+  move: number[];
+}
+
+export interface Blotter {
+  fills: BlotterFill[];     // The latest MAX_BLOTTER_FILLS, oldest first
+  pending: BlotterFill[][]; // Per horizon, fills still waiting for it, oldest first
+  totals: Record<Side, MarkoutTotals>;
+  count: number;            // Fills seen this session
+}
+
+const emptyTotals = (): MarkoutTotals => ({ size: MARKOUT_HORIZONS.map(() => 0), move: MARKOUT_HORIZONS.map(() => 0) });
+
+export const createBlotter = (): Blotter => ({
+  fills: [],
+  pending: MARKOUT_HORIZONS.map(() => []),
+  totals: { buy: emptyTotals(), sell: emptyTotals() },
+  count: 0,
+});
+
+/** The fills in one step, each with the position right after it (walking back from the end-of-tick inventory). */
+export const stepFills = ({ state, events }: StepResult): Fill[] => {
+  let inventory = state.inventory;
+  const fills: Fill[] = [];
+  for (let i = events.length - 1; i >= 0; i--) {
+    const e = events[i];
+    if (e.type !== 'fill') continue;
+    fills.unshift({ time: state.time, side: e.side, price: e.price, size: e.size, fee: e.fee, liquidity: e.liquidity, inventory });
+    inventory -= e.side === 'buy' ? e.size : -e.size;
+  }
+  return fills;
+};
+
+// Positive when the mid moved our way: up after a buy, down after a sell
+const favourableMove = (fill: BlotterFill, mid: number): number => (fill.side === 'buy' ? mid - fill.mid : fill.mid - mid);
+
+/**
+ * Adds one step to the blotter (mutates it: the worker updates it every tick at full speed). Markouts due
+ * by the step's time are settled against its mid before the step's own fills are added.
+ */
+export const recordFills = (blotter: Blotter, result: StepResult) => {
+  const { time, midPrice } = result.state;
+  MARKOUT_HORIZONS.forEach((horizon, k) => {
+    const queue = blotter.pending[k];
+    while (queue.length > 0 && time >= queue[0].time + horizon - 1e-9) {
+      const fill = queue.shift()!;
+      const move = favourableMove(fill, midPrice);
+      fill.markouts[k] = move;
+      blotter.totals[fill.side].size[k] += fill.size;
+      blotter.totals[fill.side].move[k] += move * fill.size;
+    }
+  });
+
+  stepFills(result).forEach(f => {
+    const fill: BlotterFill = { ...f, id: blotter.count++, mid: midPrice, markouts: MARKOUT_HORIZONS.map(() => null) };
+    blotter.fills.push(fill);
+    blotter.pending.forEach(queue => queue.push(fill));
+  });
+  if (blotter.fills.length > MAX_BLOTTER_FILLS) blotter.fills.splice(0, blotter.fills.length - MAX_BLOTTER_FILLS);
+};
+
+/** Average favourable mid move per unit filled at each horizon; null where no fill has reached it yet. */
+export const averageMarkouts = (totals: MarkoutTotals): (number | null)[] =>
+  totals.size.map((size, k) => (size > 0 ? totals.move[k] / size : null));
+
+/** Both sides pooled. */
+export const combinedTotals = (blotter: Blotter): MarkoutTotals => ({
+  size: MARKOUT_HORIZONS.map((_, k) => blotter.totals.buy.size[k] + blotter.totals.sell.size[k]),
+  move: MARKOUT_HORIZONS.map((_, k) => blotter.totals.buy.move[k] + blotter.totals.sell.move[k]),
+});
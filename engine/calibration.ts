@@ -0,0 +1,173 @@
+// Online calibration: realised volatility from the mid path, and the order-arrival intensity λ(δ) = A·e^(−kδ)
+// fitted from how often our quotes at each distance from mid get filled.
+import { CalibrationState, QuoteLadder, SimState, VarianceBucket } from '../types';
+import { generatorVolatility } from './marketModels';
+import type { SimConfig } from './simulation';
+import { FILL_DECAY } from './stoikov';
+
+export type VolEstimator = 'ewma' | 'rolling';
+
+export interface CalibrationConfig {
+  auto: boolean;            // Quote with the estimates instead of the configured σ, A and k
+  volEstimator: VolEstimator;
+  halfLife: number;         // EWMA half-life (s)
+  window: number;           // Rolling-window length (s)
+  fitHalfLife: number;      // How fast old fills are forgotten by the intensity fit (s)
+}
+
+export const DEFAULT_CALIBRATION: CalibrationConfig = {
+  auto: false,
+  volEstimator: 'ewma',
+  halfLife: 30,
+  window: 60,
+  fitHalfLife: 300,
+};
+
+const DISTANCE_BUCKETS = 40;
+const MIN_VOL_SAMPLES = 20;
+const MIN_BUCKET_HITS = 3;
+
+export interface QuoteExposure {
+  distance: number; // From the mid the quote was matched against; negative = through the mid
+  hit: boolean;
+}
+
+export interface CalibrationTruth {
+  sigma: number | null;
+  arrivalA: number | null;
+  arrivalK: number | null;
+}
+
+export const createCalibrationState = (mid: number, time: number): CalibrationState => ({
+  lastMid: mid,
+  lastTime: time,
+  samples: 0,
+  ewmaVariance: 0,
+  buckets: [],
+  ticks: Array(DISTANCE_BUCKETS).fill(0),
+  seconds: Array(DISTANCE_BUCKETS).fill(0),
+  hits: Array(DISTANCE_BUCKETS).fill(0),
+  sigma: null,
+  arrivalA: null,
+  arrivalK: null,
+});
+
+const decay = (dt: number, halfLife: number) => Math.exp((-Math.LN2 * dt) / halfLife);
+
+const addToBuckets = (buckets: VarianceBucket[], time: number, sq: number, dt: number, window: number): VarianceBucket[] => {
+  const second = Math.floor(time);
+  const last = buckets[buckets.length - 1];
+  const kept = buckets.filter(b => b.second > second - window);
+  if (last && last.second === second) {
+    return [...kept.slice(0, -1), { second, sumSq: last.sumSq + sq, seconds: last.seconds + dt }];
+  }
+  return [...kept, { second, sumSq: sq, seconds: dt }];
+};
+
+/**
+ * Weighted least squares of ln λ on δ over the distance buckets with enough fills, each weighted by its fill
+ * count. Per-tick hit rates are converted back to a Poisson rate, λ = −ln(1 − p) / dt, so that the fit is
+ * unbiased when several arrivals in one tick still make only one fill.
+ */
+export const fitArrival = (ticks: number[], seconds: number[], hits: number[], bucketWidth: number): { A: number; k: number } | null => {
+  const points = hits.flatMap((h, i) => {
+    if (h < MIN_BUCKET_HITS || ticks[i] <= 0) return [];
+    const p = Math.min(h / ticks[i], 0.999);
+    const lambda = -Math.log(1 - p) / (seconds[i] / ticks[i]);
+    return [{ x: (i + 0.5) * bucketWidth, y: Math.log(lambda), w: h }];
+  });
+  if (points.length < 2) return null;
+  const sw = points.reduce((a, p) => a + p.w, 0);
+  const mx = points.reduce((a, p) => a + p.w * p.x, 0) / sw;
+  const my = points.reduce((a, p) => a + p.w * p.y, 0) / sw;
+  const sxx = points.reduce((a, p) => a + p.w * (p.x - mx) ** 2, 0);
+  if (sxx <= 0) return null;
+  const slope = points.reduce((a, p) => a + p.w * (p.x - mx) * (p.y - my), 0) / sxx;
+  if (slope >= 0) return null;
+  return { A: Math.exp(my - slope * mx), k: -slope };
+};
+
+/**
+ * Folds one tick into the estimates: the mid change into the volatility estimators, and each quote that
+ * rested through the tick into the exposure at its distance. Distances are bucketed by `bucketWidth`.
+ */
+export const updateCalibration = (
+  prev: CalibrationState,
+  mid: number,
+  time: number,
+  quotes: QuoteExposure[],
+  config: CalibrationConfig,
+  bucketWidth: number
+): CalibrationState => {
+  const dt = time - prev.lastTime;
+  if (dt <= 0) return prev;
+
+  const move = mid - prev.lastMid;
+  const sq = move * move;
+  const lambda = decay(dt, config.halfLife);
+  const ewmaVariance = prev.samples === 0 ? sq / dt : lambda * prev.ewmaVariance + (1 - lambda) * (sq / dt);
+  const buckets = addToBuckets(prev.buckets, time, sq, dt, config.window);
+  const samples = prev.samples + 1;
+  const rollingSeconds = buckets.reduce((a, b) => a + b.seconds, 0);
+  const variance = config.volEstimator === 'ewma' ? ewmaVariance : buckets.reduce((a, b) => a + b.sumSq, 0) / rollingSeconds;
+
+  const forget = decay(dt, config.fitHalfLife);
+  const ticks = prev.ticks.map(v => v * forget);
+  const seconds = prev.seconds.map(v => v * forget);
+  const hits = prev.hits.map(v => v * forget);
+  quotes.forEach(q => {
+    const i = Math.floor(q.distance / bucketWidth);
+    if (i < 0 || i >= DISTANCE_BUCKETS) return;
+    ticks[i] += 1;
+    seconds[i] += dt;
+    if (q.hit) hits[i] += 1;
+  });
+  const fit = fitArrival(ticks, seconds, hits, bucketWidth);
+
+  return {
+    lastMid: mid,
+    lastTime: time,
+    samples,
+    ewmaVariance,
+    buckets,
+    ticks,
+    seconds,
+    hits,
+    sigma: samples >= MIN_VOL_SAMPLES ? Math.sqrt(variance) : null,
+    arrivalA: fit?.A ?? prev.arrivalA,
+    arrivalK: fit?.k ?? prev.arrivalK,
+  };
+};
+
+/**
+ * Our quote levels during a tick, each marked hit if one of the tick's fills was at its price on its side.
+ * `resting` is what could have traded; filled levels missing from it are added back from the fills.
+ */
+export const quoteExposure = (
+  resting: QuoteLadder,
+  mid: number,
+  fills: { side: 'buy' | 'sell'; price: number }[],
+  tickSize: number
+): QuoteExposure[] => {
+  const at = (side: 'buy' | 'sell', price: number) => fills.some(f => f.side === side && Math.abs(f.price - price) < tickSize / 2);
+  const levels = [
+    ...resting.bids.map(l => ({ side: 'buy' as const, price: l.price })),
+    ...resting.asks.map(l => ({ side: 'sell' as const, price: l.price })),
+  ];
+  fills.forEach(f => {
+    if (!levels.some(l => l.side === f.side && Math.abs(l.price - f.price) < tickSize / 2)) levels.push({ side: f.side, price: f.price });
+  });
+  return levels.map(l => ({ distance: l.side === 'buy' ? mid - l.price : l.price - mid, hit: at(l.side, l.price) }));
+};
+
+/**
+ * What the estimators should find, where the simulator knows it: the generator's volatility, and A and k of
+ * the Poisson hit model. The 'intensity' curve is p = c·e^(−1.5δ) per tick, i.e. roughly A = c/dt, k = 1.5.
+ * The simulated book and recorded tapes have no closed-form intensity.
+ */
+export const calibrationTruth = (state: SimState, config: SimConfig): CalibrationTruth => {
+  const sigma = state.market ? generatorVolatility(state.book?.fairValue ?? state.midPrice, state.market, config.market, config.volatility, config.dt) : null;
+  if (config.fillModel !== 'poisson' || !state.market) return { sigma, arrivalA: null, arrivalK: null };
+  if (config.hitModel === 'arrival') return { sigma, arrivalA: config.arrivalA, arrivalK: config.arrivalK };
+  return { sigma, arrivalA: config.fillIntensity / config.dt, arrivalK: FILL_DECAY };
+};
@@ -0,0 +1,116 @@
+// Lockstep A/B runs: several strategy configurations quoting against one seeded market path.
+import { SimState } from '../types';
+import { maxDrawdown, sharpeRatio } from './backtest';
+import { createMarketState } from './marketModels';
+import { createRng, Rng } from './rng';
+import { advanceSimulation, createInitialSimState, markToMarketPnl, SimConfig, stepMarket } from './simulation';
+import { DEFAULT_STRATEGY, StrategyConfig } from './strategies';
+import { INITIAL_PRICE } from './stoikov';
+
+export interface ComparisonVariant {
+  label: string;
+  strategy: StrategyConfig;
+  volatility: number; // σ the strategy assumes; the shared path moves with the base config's σ
+}
+
+export interface ComparisonPoint {
+  time: number;
+  price: number;
+  equity: number[]; // One per variant, same order as the variants
+}
+
+export interface ComparisonSummary {
+  pnl: number;
+  sharpe: number;   // Per second, see sharpeRatio
+  maxDrawdown: number;
+  inventoryVariance: number;
+  fills: number;
+  fillRate: number; // Fills per minute
+  fees: number;     // Paid (negative = net rebate)
+}
+
+export interface ComparisonResult {
+  points: ComparisonPoint[];
+  summaries: ComparisonSummary[];
+}
+
+export const DEFAULT_VARIANTS: ComparisonVariant[] = [
+  { label: 'A-S γ=0.1', strategy: DEFAULT_STRATEGY, volatility: 0.5 },
+  { label: 'A-S γ=0.3', strategy: { id: 'avellanedaStoikov', params: { ...DEFAULT_STRATEGY.params, riskAversion: 0.3 } }, volatility: 0.5 },
+  { label: 'Fixed 5t', strategy: { id: 'fixedSpread', params: { halfSpreadTicks: 5 } }, volatility: 0.5 },
+  { label: 'GLFT', strategy: { id: 'glft', params: { riskAversion: 0.1, maxLots: 5 } }, volatility: 0.5 },
+];
+
+export const variantConfig = (base: SimConfig, variant: ComparisonVariant): SimConfig => ({
+  ...base,
+  strategy: variant.strategy,
+  strategyVolatility: variant.volatility,
+});
+
+const variance = (xs: number[]): number => {
+  if (xs.length === 0) return 0;
+  const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+  return xs.reduce((a, x) => a + (x - mean) ** 2, 0) / xs.length;
+};
+
+/**
+ * The fair-value path every variant (or sweep point) quotes against: `ticks` steps of the base price model.
+ * Informed impact is left out, since it would depend on each variant's own fills.
+ */
+export const marketPath = (base: SimConfig, seed: number, ticks: number): number[] => {
+  const rng = createRng(seed);
+  const path: number[] = [];
+  let fair = INITIAL_PRICE;
+  let market = createMarketState(fair);
+  for (let i = 0; i < ticks; i++) {
+    const next = stepMarket(fair, market, base, rng);
+    fair = next.price;
+    market = next.state;
+    path.push(fair);
+  }
+  return path;
+};
+
+/** Fresh strategy randomness for one run on a path; every run on the same seed starts from the same stream. */
+export const runRng = (seed: number): Rng => createRng(seed + 1);
+
+/**
+ * Runs every variant for `ticks` steps on the same fair-value path drawn from `seed`.
+ * Each variant's own randomness (fills, background book flow, latency) starts from an identical
+ * stream too, so differences between rows come from the configuration rather than luck.
+ */
+export const runComparison = (base: SimConfig, variants: ComparisonVariant[], seed: number, ticks: number): ComparisonResult => {
+  const path = marketPath(base, seed, ticks);
+  const configs = variants.map(v => variantConfig(base, v));
+  const rngs = variants.map(() => runRng(seed));
+  let states: SimState[] = configs.map(c => createInitialSimState(c));
+  const fills = variants.map(() => 0);
+  const inventories: number[][] = variants.map(() => []);
+  const points: ComparisonPoint[] = [];
+
+  path.forEach(fair => {
+    states = states.map((state, v) => {
+      const { state: next, events } = advanceSimulation(state, fair, configs[v], rngs[v]);
+      fills[v] += events.filter(e => e.type === 'fill').length;
+      inventories[v].push(next.inventory);
+      return next;
+    });
+    points.push({ time: states[0].time, price: fair, equity: states.map(markToMarketPnl) });
+  });
+
+  const minutes = (ticks * base.dt) / 60;
+  const times = points.map(p => p.time * 1000);
+  const summaries = states.map((state, v) => {
+    const equity = points.map(p => p.equity[v]);
+    return {
+      pnl: markToMarketPnl(state),
+      sharpe: sharpeRatio(equity, times),
+      maxDrawdown: maxDrawdown(equity),
+      inventoryVariance: variance(inventories[v]),
+      fills: fills[v],
+      fillRate: minutes > 0 ? fills[v] / minutes : 0,
+      fees: state.ledger.fees,
+    };
+  });
+  return { points, summaries };
+};
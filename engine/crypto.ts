@@ -0,0 +1,273 @@
+// Just enough Ethereum crypto to sign and verify exchange actions in the browser without a wallet:
+// SHA-256 / HMAC (for RFC 6979 nonces), Keccak-256 and secp256k1 ECDSA with public-key recovery.
+// BigInt and unoptimised: fine for a handful of signatures, not for a signing hot path.
+
+export type Hex = `0x${string}`;
+
+export const bytesToHex = (bytes: Uint8Array): Hex =>
+  `0x${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) throw new Error(`无效的十六进制: ${hex}`);
+  return Uint8Array.from({ length: clean.length / 2 }, (_, i) => parseInt(clean.slice(i * 2, i * 2 + 2), 16));
+};
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+export const utf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export const bytesToBigInt = (bytes: Uint8Array): bigint => (bytes.length === 0 ? 0n : BigInt(bytesToHex(bytes)));
+
+/** Big-endian, left-padded to `length` bytes. */
+export const bigIntToBytes = (value: bigint, length = 32): Uint8Array => hexToBytes(value.toString(16).padStart(length * 2, '0'));
+
+// --- SHA-256 / HMAC-SHA256 ---
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+export const sha256 = (data: Uint8Array): Uint8Array => {
+  const h = Uint32Array.from([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor((data.length * 8) / 2 ** 32));
+  view.setUint32(padded.length - 4, (data.length * 8) >>> 0);
+  const w = new Uint32Array(64);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(block + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((v, i) => (h[i] = (h[i] + v) >>> 0));
+  }
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((v, i) => outView.setUint32(i * 4, v));
+  return out;
+};
+
+export const hmacSha256 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const inner = block.map(b => b ^ 0x36);
+  const outer = block.map(b => b ^ 0x5c);
+  return sha256(concatBytes(outer, sha256(concatBytes(inner, message))));
+};
+
+// --- Keccak-256 (the original padding Ethereum uses, not SHA3-256) ---
+
+const MASK64 = (1n << 64n) - 1n;
+
+const KECCAK_RC = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets, indexed x + 5y
+const KECCAK_ROT = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+const rotl64 = (v: bigint, n: number): bigint => (n === 0 ? v : ((v << BigInt(n)) | (v >> BigInt(64 - n))) & MASK64);
+
+const keccakF = (a: bigint[]) => {
+  const b = new Array<bigint>(25);
+  const c = new Array<bigint>(5);
+  for (let round = 0; round < 24; round++) {
+    for (let x = 0; x < 5; x++) c[x] = a[x] ^ a[x + 5] ^ a[x + 10] ^ a[x + 15] ^ a[x + 20];
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) a[x + y] ^= d;
+    }
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(a[x + 5 * y], KECCAK_ROT[x + 5 * y]);
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) a[x + y] = b[x + y] ^ ((b[((x + 1) % 5) + y] ^ MASK64) & b[((x + 2) % 5) + y]);
+    }
+    a[0] ^= KECCAK_RC[round];
+  }
+};
+
+export const keccak256 = (data: Uint8Array): Uint8Array => {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(data.length / rate + 1) * rate);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+  const state = new Array<bigint>(25).fill(0n);
+  const view = new DataView(padded.buffer);
+  for (let block = 0; block < padded.length; block += rate) {
+    for (let i = 0; i < rate / 8; i++) state[i] ^= view.getBigUint64(block + i * 8, true);
+    keccakF(state);
+  }
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) outView.setBigUint64(i * 8, state[i], true);
+  return out;
+};
+
+// --- secp256k1 ---
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+type Point = { x: bigint; y: bigint } | null; // null is the point at infinity
+
+const G: Point = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+const mod = (a: bigint, m: bigint): bigint => ((a % m) + m) % m;
+
+const invert = (a: bigint, m: bigint): bigint => {
+  let [r0, r1] = [mod(a, m), m];
+  let [s0, s1] = [1n, 0n];
+  while (r1 !== 0n) {
+    const q = r0 / r1;
+    [r0, r1] = [r1, r0 - q * r1];
+    [s0, s1] = [s1, s0 - q * s1];
+  }
+  return mod(s0, m);
+};
+
+const powMod = (base: bigint, exp: bigint, m: bigint): bigint => {
+  let result = 1n;
+  let b = mod(base, m);
+  for (let e = exp; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+  }
+  return result;
+};
+
+const addPoints = (p: Point, q: Point): Point => {
+  if (!p) return q;
+  if (!q) return p;
+  if (p.x === q.x && mod(p.y + q.y, P) === 0n) return null;
+  const slope = p.x === q.x
+    ? mod(3n * p.x * p.x * invert(2n * p.y, P), P)
+    : mod((q.y - p.y) * invert(q.x - p.x, P), P);
+  const x = mod(slope * slope - p.x - q.x, P);
+  return { x, y: mod(slope * (p.x - x) - p.y, P) };
+};
+
+const multiply = (k: bigint, point: Point): Point => {
+  let result: Point = null;
+  let addend = point;
+  for (let e = mod(k, N); e > 0n; e >>= 1n) {
+    if (e & 1n) result = addPoints(result, addend);
+    addend = addPoints(addend, addend);
+  }
+  return result;
+};
+
+const pointToAddress = (point: Point): Hex => {
+  if (!point) throw new Error('无效的公钥');
+  return bytesToHex(keccak256(concatBytes(bigIntToBytes(point.x), bigIntToBytes(point.y))).slice(12));
+};
+
+const privateKeyScalar = (privateKey: Hex): bigint => {
+  const d = bytesToBigInt(hexToBytes(privateKey));
+  if (d <= 0n || d >= N) throw new Error('私钥超出 secp256k1 范围');
+  return d;
+};
+
+/** Lower-case 0x address of a private key. */
+export const privateKeyToAddress = (privateKey: Hex): Hex => pointToAddress(multiply(privateKeyScalar(privateKey), G));
+
+export interface Signature {
+  r: Hex;
+  s: Hex;
+  v: number; // 27 or 28
+}
+
+// RFC 6979 deterministic nonce: the same key and digest always give the same signature
+const deterministicK = (d: bigint, digest: Uint8Array): bigint => {
+  const x = bigIntToBytes(d);
+  const h = bigIntToBytes(mod(bytesToBigInt(digest), N));
+  let v = new Uint8Array(32).fill(1);
+  let k = new Uint8Array(32);
+  k = hmacSha256(k, concatBytes(v, Uint8Array.of(0), x, h));
+  v = hmacSha256(k, v);
+  k = hmacSha256(k, concatBytes(v, Uint8Array.of(1), x, h));
+  v = hmacSha256(k, v);
+  for (;;) {
+    v = hmacSha256(k, v);
+    const candidate = bytesToBigInt(v);
+    if (candidate > 0n && candidate < N) return candidate;
+    k = hmacSha256(k, concatBytes(v, Uint8Array.of(0)));
+    v = hmacSha256(k, v);
+  }
+};
+
+/** Signs a 32-byte digest. Low-s, with the recovery bit in `v` as Ethereum expects. */
+export const signDigest = (privateKey: Hex, digest: Uint8Array): Signature => {
+  const d = privateKeyScalar(privateKey);
+  const e = bytesToBigInt(digest);
+  const k = deterministicK(d, digest);
+  const R = multiply(k, G)!;
+  const r = mod(R.x, N);
+  let s = mod(invert(k, N) * (e + r * d), N);
+  let recovery = Number(R.y & 1n);
+  if (s > N / 2n) {
+    s = N - s;
+    recovery ^= 1;
+  }
+  return { r: bytesToHex(bigIntToBytes(r)), s: bytesToHex(bigIntToBytes(s)), v: 27 + recovery };
+};
+
+/** The address that produced `signature` over `digest` (ecrecover). Throws if the signature is malformed. */
+export const recoverAddress = (digest: Uint8Array, signature: Signature): Hex => {
+  const r = bytesToBigInt(hexToBytes(signature.r));
+  const s = bytesToBigInt(hexToBytes(signature.s));
+  if (r <= 0n || r >= N || s <= 0n || s >= N) throw new Error('签名 r/s 超出范围');
+  if (signature.v !== 27 && signature.v !== 28) throw new Error(`签名 v 必须是 27 或 28，收到 ${signature.v}`);
+  const ySquared = mod(r * r * r + 7n, P);
+  let y = powMod(ySquared, (P + 1n) / 4n, P);
+  if (mod(y * y, P) !== ySquared) throw new Error('签名 r 不在曲线上');
+  if (Number(y & 1n) !== signature.v - 27) y = P - y;
+  const rInv = invert(r, N);
+  const e = bytesToBigInt(digest);
+  const q = addPoints(multiply(mod(s * rInv, N), { x: r, y }), multiply(mod(-e * rInv, N), G));
+  return pointToAddress(q);
+};
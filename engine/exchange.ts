@@ -0,0 +1,184 @@
+// Hyperliquid exchange actions: order / cancel / modify wires built from our Order type, and L1 action signing
+// (msgpack hash -> phantom agent -> EIP-712 digest -> secp256k1), the same steps the official SDKs take.
+import { Order } from '../types';
+import { bigIntToBytes, bytesToHex, concatBytes, Hex, hexToBytes, keccak256, recoverAddress, Signature, signDigest, utf8 } from './crypto';
+import { encodeMsgpack } from './msgpack';
+
+export type Tif = 'Alo' | 'Ioc' | 'Gtc';
+
+export interface AssetMeta {
+  name: string;
+  asset: number;      // Index in the exchange's perp universe
+  szDecimals: number; // Size precision; the lot is 10^-szDecimals
+  maxLeverage: number;
+}
+
+export const ASSETS: AssetMeta[] = [
+  { name: 'BTC', asset: 0, szDecimals: 5, maxLeverage: 40 },
+  { name: 'ETH', asset: 1, szDecimals: 4, maxLeverage: 25 },
+  { name: 'SOL', asset: 5, szDecimals: 2, maxLeverage: 20 },
+];
+
+export const getAsset = (asset: number): AssetMeta | undefined => ASSETS.find(a => a.asset === asset);
+
+// Perp prices: at most 5 significant figures and 6 − szDecimals decimals; integer prices are always valid
+const MAX_PERP_DECIMALS = 6;
+const MAX_SIG_FIGS = 5;
+
+// Hardhat's first dev account: public knowledge, never holds funds. Real keys belong in env vars or a KMS.
+export const TEST_PRIVATE_KEY: Hex = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Type aliases rather than interfaces so wires and actions stay assignable to MsgpackValue
+export type OrderWire = {
+  a: number;  // Asset
+  b: boolean; // Is buy
+  p: string;  // Price
+  s: string;  // Size
+  r: boolean; // Reduce only
+  t: { limit: { tif: Tif } };
+  c?: Hex;    // Client order id (16 bytes)
+};
+
+export type ExchangeAction =
+  | { type: 'order'; orders: OrderWire[]; grouping: 'na' }
+  | { type: 'cancel'; cancels: { a: number; o: number }[] }
+  | { type: 'cancelByCloid'; cancels: { asset: number; cloid: Hex }[] }
+  | { type: 'batchModify'; modifies: { oid: number | Hex; order: OrderWire }[] };
+
+// Body of POST /exchange
+export interface ExchangeRequest {
+  action: ExchangeAction;
+  nonce: number; // Milliseconds; must be fresh and unused
+  signature: Signature;
+  vaultAddress: Hex | null;
+}
+
+export interface OrderOptions {
+  tif: Tif;
+  reduceOnly?: boolean;
+  cloid?: Hex;
+  tickSize?: number; // Our own tick grid, applied before the exchange's precision rules
+}
+
+/** Decimals the exchange accepts for `price` on an asset with `szDecimals`. */
+export const priceDecimals = (price: number, szDecimals: number): number => {
+  const integerDigits = Math.floor(Math.log10(Math.abs(price))) + 1;
+  return Math.max(0, Math.min(MAX_PERP_DECIMALS - szDecimals, MAX_SIG_FIGS - integerDigits));
+};
+
+const snap = (value: number, step: number, side: Order['side']): number =>
+  (side === 'buy' ? Math.floor(value / step + 1e-9) : Math.ceil(value / step - 1e-9)) * step;
+
+/**
+ * Rounds a limit price to our tick, then to the exchange's precision. Bids round down and asks up,
+ * so rounding never makes a quote more aggressive (and never turns a post-only quote into a taker).
+ */
+export const roundPrice = (price: number, side: Order['side'], meta: AssetMeta, tickSize?: number): number => {
+  const ticked = tickSize ? snap(price, tickSize, side) : price;
+  if (Number.isInteger(ticked)) return ticked;
+  const decimals = priceDecimals(ticked, meta.szDecimals);
+  return Number(snap(ticked, 10 ** -decimals, side).toFixed(decimals));
+};
+
+/** Rounds a size down to the asset's lot. */
+export const roundSize = (size: number, meta: AssetMeta): number =>
+  Number((Math.floor(size * 10 ** meta.szDecimals + 1e-9) / 10 ** meta.szDecimals).toFixed(meta.szDecimals));
+
+export const isValidPrice = (price: number, meta: AssetMeta): boolean =>
+  price > 0 && (Number.isInteger(price) || (roundPrice(price, 'buy', meta) === price && roundPrice(price, 'sell', meta) === price));
+
+export const isValidSize = (size: number, meta: AssetMeta): boolean => size > 0 && roundSize(size, meta) === size;
+
+/** Decimal string as the exchange expects it: at most 8 decimals, no trailing zeros. */
+export const floatToWire = (x: number): string => {
+  const fixed = x.toFixed(8);
+  if (Math.abs(Number(fixed) - x) >= 1e-12) throw new Error(`${x} 超过 8 位小数精度`);
+  const trimmed = fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+  return trimmed === '-0' ? '0' : trimmed;
+};
+
+/** A stable 16-byte client order id for one of our order ids. */
+export const cloidFor = (orderId: string): Hex => bytesToHex(keccak256(utf8(orderId)).slice(0, 16));
+
+export const orderWire = (order: Order, meta: AssetMeta, options: OrderOptions): OrderWire => {
+  const price = roundPrice(order.price, order.side, meta, options.tickSize);
+  const size = roundSize(order.size, meta);
+  if (size <= 0) throw new Error(`数量 ${order.size} 低于最小手数 ${10 ** -meta.szDecimals}`);
+  return {
+    a: meta.asset,
+    b: order.side === 'buy',
+    p: floatToWire(price),
+    s: floatToWire(size),
+    r: options.reduceOnly ?? false,
+    t: { limit: { tif: options.tif } },
+    c: options.cloid,
+  };
+};
+
+export const orderAction = (orders: OrderWire[]): ExchangeAction => ({ type: 'order', orders, grouping: 'na' });
+
+export const cancelAction = (cancels: { asset: number; oid: number }[]): ExchangeAction => ({
+  type: 'cancel',
+  cancels: cancels.map(c => ({ a: c.asset, o: c.oid })),
+});
+
+export const cancelByCloidAction = (cancels: { asset: number; cloid: Hex }[]): ExchangeAction => ({ type: 'cancelByCloid', cancels });
+
+/** Replaces a resting order (by exchange oid or our cloid) with `order`. */
+export const modifyAction = (modifies: { oid: number | Hex; order: OrderWire }[]): ExchangeAction => ({ type: 'batchModify', modifies });
+
+// --- Signing ---
+
+const EIP712_DOMAIN = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000' as Hex,
+};
+
+const typeHash = (signature: string): Uint8Array => keccak256(utf8(signature));
+
+const DOMAIN_SEPARATOR = keccak256(concatBytes(
+  typeHash('EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)'),
+  keccak256(utf8(EIP712_DOMAIN.name)),
+  keccak256(utf8(EIP712_DOMAIN.version)),
+  bigIntToBytes(BigInt(EIP712_DOMAIN.chainId)),
+  bigIntToBytes(BigInt(EIP712_DOMAIN.verifyingContract)),
+));
+
+const AGENT_TYPE_HASH = typeHash('Agent(string source,bytes32 connectionId)');
+
+export interface SigningSteps {
+  msgpack: Hex;      // The action as hashed
+  connectionId: Hex; // keccak256(msgpack ‖ nonce ‖ vault flag [‖ vault])
+  source: 'a' | 'b'; // Phantom agent source: mainnet or testnet
+  digest: Hex;       // EIP-712 digest that is actually signed
+}
+
+/** Every intermediate value of signing an L1 action, for display and for verification. */
+export const signingSteps = (action: ExchangeAction, nonce: number, isMainnet: boolean, vaultAddress: Hex | null = null): SigningSteps => {
+  const packed = encodeMsgpack(action);
+  const vault = vaultAddress ? concatBytes(Uint8Array.of(1), hexToBytes(vaultAddress)) : Uint8Array.of(0);
+  const connectionId = keccak256(concatBytes(packed, bigIntToBytes(BigInt(nonce), 8), vault));
+  const source = isMainnet ? 'a' : 'b';
+  const agentHash = keccak256(concatBytes(AGENT_TYPE_HASH, keccak256(utf8(source)), connectionId));
+  const digest = keccak256(concatBytes(Uint8Array.of(0x19, 0x01), DOMAIN_SEPARATOR, agentHash));
+  return { msgpack: bytesToHex(packed), connectionId: bytesToHex(connectionId), source, digest: bytesToHex(digest) };
+};
+
+export const signL1Action = (
+  privateKey: Hex,
+  action: ExchangeAction,
+  nonce: number,
+  isMainnet: boolean,
+  vaultAddress: Hex | null = null
+): ExchangeRequest => ({
+  action,
+  nonce,
+  signature: signDigest(privateKey, hexToBytes(signingSteps(action, nonce, isMainnet, vaultAddress).digest)),
+  vaultAddress,
+});
+
+/** The address that signed `request`. A tampered action recovers to some other address rather than failing. */
+export const recoverL1Signer = (request: ExchangeRequest, isMainnet: boolean): Hex =>
+  recoverAddress(hexToBytes(signingSteps(request.action, request.nonce, isMainnet, request.vaultAddress).digest), request.signature);
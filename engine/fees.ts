@@ -0,0 +1,73 @@
+// Hyperliquid-style economics: volume-tiered maker/taker fees and periodic perp funding.
+import { Rng } from './rng';
+
+export type Liquidity = 'maker' | 'taker';
+
+export interface FeeTier {
+  minVolume: number; // 14-day traded volume (USDC) needed for this tier
+  makerBps: number;  // Negative = rebate
+  takerBps: number;
+}
+
+export interface FeeSchedule {
+  tiers: FeeTier[];     // Ascending by minVolume
+  baseVolume: number;   // 14-day volume carried into the session (USDC)
+}
+
+export type FundingMode = 'off' | 'fixed' | 'simulated';
+
+export interface FundingConfig {
+  mode: FundingMode;
+  rate: number;          // Per interval (0.0001 = 1bp); the mean level in 'simulated' mode
+  interval: number;      // Seconds between payments (Hyperliquid: 3600)
+  rateVolatility: number; // Per-interval shock to the simulated rate
+  meanReversion: number;  // 0..1 pull back towards `rate` each interval
+}
+
+// Loosely follows Hyperliquid's published perp schedule; the top tiers pay makers a rebate
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  tiers: [
+    { minVolume: 0, makerBps: 1.5, takerBps: 4.5 },
+    { minVolume: 5_000_000, makerBps: 1.2, takerBps: 4.0 },
+    { minVolume: 25_000_000, makerBps: 0.8, takerBps: 3.5 },
+    { minVolume: 100_000_000, makerBps: 0.4, takerBps: 3.0 },
+    { minVolume: 500_000_000, makerBps: 0, takerBps: 2.8 },
+    { minVolume: 2_000_000_000, makerBps: -0.1, takerBps: 2.6 },
+    { minVolume: 7_000_000_000, makerBps: -0.2, takerBps: 2.4 },
+  ],
+  baseVolume: 0,
+};
+
+// The interval is compressed from Hyperliquid's hourly payment so funding shows up within a demo session
+export const DEFAULT_FUNDING: FundingConfig = {
+  mode: 'simulated',
+  rate: 0.0000125,
+  interval: 60,
+  rateVolatility: 0.00002,
+  meanReversion: 0.2,
+};
+
+export const feeTierIndex = (schedule: FeeSchedule, sessionVolume: number): number => {
+  const volume = schedule.baseVolume + sessionVolume;
+  let idx = 0;
+  schedule.tiers.forEach((tier, i) => {
+    if (volume >= tier.minVolume) idx = i;
+  });
+  return idx;
+};
+
+/** Fee in USDC for a fill of `notional`; positive is paid, negative is a rebate received. */
+export const tradeFee = (schedule: FeeSchedule, sessionVolume: number, notional: number, liquidity: Liquidity): number => {
+  const tier = schedule.tiers[feeTierIndex(schedule, sessionVolume)];
+  return notional * (liquidity === 'maker' ? tier.makerBps : tier.takerBps) / 10000;
+};
+
+/** Funding paid by a position (longs pay when the rate is positive); negative means received. */
+export const fundingPayment = (inventory: number, mark: number, rate: number): number => inventory * mark * rate;
+
+/** Next funding rate: fixed, or a mean-reverting random walk around the configured level. */
+export const nextFundingRate = (current: number, config: FundingConfig, rng: Rng): number => {
+  if (config.mode !== 'simulated') return config.rate;
+  const shock = (rng() - 0.5) * 2 * config.rateVolatility;
+  return current + config.meanReversion * (config.rate - current) + shock;
+};
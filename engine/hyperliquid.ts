@@ -0,0 +1,131 @@
+// Hyperliquid WebSocket market data: subscription messages, wire payloads and their typed snapshots.
+import { QuoteLadder, SimBook } from '../types';
+import { TapeTrade } from './backtest';
+import { MY_ORDER_PREFIX, placeOrder } from './orderBook';
+
+export type FeedChannel = 'l2Book' | 'trades';
+
+// Wire format: prices and sizes arrive as strings (the Rust `L2Book` struct keeps them that way to avoid precision loss)
+export interface WsLevel {
+  px: string;
+  sz: string;
+  n: number; // Number of orders at the level
+}
+
+export interface WsBook {
+  coin: string;
+  levels: [WsLevel[], WsLevel[]]; // [bids best-first, asks best-first]
+  time: number;
+}
+
+export interface WsTrade {
+  coin: string;
+  side: 'B' | 'A'; // Aggressor: B = buyer lifted the ask, A = seller hit the bid
+  px: string;
+  sz: string;
+  time: number;
+  hash?: string;
+  tid?: number;
+}
+
+export interface SnapshotLevel {
+  price: number;
+  size: number;
+  count: number;
+}
+
+export interface BookSnapshot {
+  coin: string;
+  time: number; // Exchange time (ms)
+  bids: SnapshotLevel[];
+  asks: SnapshotLevel[];
+}
+
+export type FeedEvent =
+  | { type: 'book'; snapshot: BookSnapshot }
+  | { type: 'trades'; coin: string; time: number; trades: TapeTrade[] };
+
+export const DEFAULT_FEED_URL = 'ws://localhost:8765';
+
+export const subscriptionMessage = (type: FeedChannel, coin: string): string =>
+  JSON.stringify({ method: 'subscribe', subscription: { type, coin } });
+
+const toNumber = (raw: unknown, field: string): number => {
+  const n = Number(raw);
+  if (raw === undefined || raw === null || raw === '' || !isFinite(n)) throw new Error(`无效的 ${field}: ${String(raw)}`);
+  return n;
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isWsLevel = (v: unknown): v is WsLevel => isRecord(v) && typeof v.px === 'string' && typeof v.sz === 'string';
+
+const isWsBook = (v: unknown): v is WsBook =>
+  isRecord(v) &&
+  typeof v.coin === 'string' &&
+  Array.isArray(v.levels) &&
+  v.levels.length === 2 &&
+  v.levels.every(side => Array.isArray(side) && side.every(isWsLevel));
+
+const isWsTrade = (v: unknown): v is WsTrade =>
+  isRecord(v) && typeof v.coin === 'string' && (v.side === 'B' || v.side === 'A') && typeof v.px === 'string' && typeof v.sz === 'string';
+
+const parseLevels = (levels: WsLevel[]): SnapshotLevel[] =>
+  levels.map(l => ({ price: toNumber(l.px, 'px'), size: toNumber(l.sz, 'sz'), count: l.n ?? 1 }));
+
+/**
+ * Parses one WebSocket frame. Returns `null` for channels we don't consume
+ * (subscriptionResponse, pong, ...); throws on a malformed l2Book/trades payload.
+ */
+export const parseFeedMessage = (raw: string): FeedEvent | null => {
+  let msg: unknown;
+  try {
+    msg = JSON.parse(raw);
+  } catch {
+    throw new Error('行情消息不是合法 JSON');
+  }
+  if (!isRecord(msg)) return null;
+
+  if (msg.channel === 'l2Book') {
+    const book = msg.data;
+    if (!isWsBook(book)) throw new Error('l2Book 缺少 levels 或档位格式不正确');
+    return {
+      type: 'book',
+      snapshot: { coin: book.coin, time: toNumber(book.time, 'time'), bids: parseLevels(book.levels[0]), asks: parseLevels(book.levels[1]) },
+    };
+  }
+
+  if (msg.channel === 'trades') {
+    const trades = msg.data;
+    if (!Array.isArray(trades)) throw new Error('trades 数据不是数组');
+    if (!trades.every(isWsTrade)) throw new Error('trades 数据格式不正确');
+    return {
+      type: 'trades',
+      coin: trades[0]?.coin ?? '',
+      time: trades.reduce((t, tr) => Math.max(t, toNumber(tr.time, 'time')), 0),
+      trades: trades.map(t => ({ price: toNumber(t.px, 'px'), size: toNumber(t.sz, 'sz'), side: t.side === 'A' ? 'sell' : 'buy' })),
+    };
+  }
+
+  return null;
+};
+
+export const snapshotMid = (snapshot: BookSnapshot): number | undefined => {
+  const bid = snapshot.bids[0]?.price;
+  const ask = snapshot.asks[0]?.price;
+  if (bid !== undefined && ask !== undefined) return (bid + ask) / 2;
+  return bid ?? ask;
+};
+
+/**
+ * Converts a snapshot into the simulator's book shape (one aggregate order per level) so the depth ladder can draw it.
+ * Our own quotes, if given, join the back of their level's queue.
+ */
+export const snapshotToBook = (snapshot: BookSnapshot, tickSize: number, mine: QuoteLadder = { bids: [], asks: [] }): SimBook => {
+  const book: SimBook = { bids: [], asks: [], fairValue: snapshotMid(snapshot) ?? 0, nextId: 0 };
+  snapshot.bids.forEach(l => placeOrder(book, { id: `hl-${book.nextId++}`, price: l.price, size: l.size, side: 'buy' }, tickSize));
+  snapshot.asks.forEach(l => placeOrder(book, { id: `hl-${book.nextId++}`, price: l.price, size: l.size, side: 'sell' }, tickSize));
+  mine.bids.forEach(l => placeOrder(book, { id: `${MY_ORDER_PREFIX}${book.nextId++}`, price: l.price, size: l.size, side: 'buy' }, tickSize));
+  mine.asks.forEach(l => placeOrder(book, { id: `${MY_ORDER_PREFIX}${book.nextId++}`, price: l.price, size: l.size, side: 'sell' }, tickSize));
+  return book;
+};
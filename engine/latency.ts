@@ -0,0 +1,90 @@
+// Tick-to-trade latency model: how long after a price move our new quotes actually rest on the exchange.
+import { LatencyState, PendingQuote, QuoteLadder } from '../types';
+import { gaussian, Rng } from './rng';
+
+export interface LatencyConfig {
+  enabled: boolean;
+  feedMs: number;    // Exchange -> our process (WS feed)
+  computeMs: number; // Parse + book + strategy + risk
+  orderMs: number;   // Order gateway -> resting on the book (one-way)
+  jitter: number;    // Log-normal shape; 0 = deterministic, larger = fatter p99 tail
+}
+
+export interface LatencySample {
+  feed: number;
+  compute: number;
+  order: number;
+  total: number;
+}
+
+export const LATENCY_PRESETS: { label: string; config: Omit<LatencyConfig, 'enabled'> }[] = [
+  { label: 'Rust + Colo', config: { feedMs: 0.5, computeMs: 0.05, orderMs: 1, jitter: 0.3 } },
+  { label: 'Rust + Cloud', config: { feedMs: 8, computeMs: 0.05, orderMs: 15, jitter: 0.5 } },
+  { label: 'Python + Home', config: { feedMs: 40, computeMs: 5, orderMs: 120, jitter: 0.6 } },
+];
+
+export const DEFAULT_LATENCY: LatencyConfig = { enabled: false, ...LATENCY_PRESETS[0].config };
+
+const MAX_SAMPLES = 1000;
+
+export const createLatencyState = (desired: QuoteLadder): LatencyState => ({
+  pending: [],
+  desired,
+  lastMs: 0,
+  samples: [],
+  staleLoss: 0,
+  staleFills: 0,
+});
+
+// Mean-preserving log-normal draw
+const draw = (mean: number, jitter: number, rng: Rng): number =>
+  mean * Math.exp(jitter * gaussian(rng) - (jitter * jitter) / 2);
+
+export const sampleLatency = (config: LatencyConfig, rng: Rng): LatencySample => {
+  const feed = draw(config.feedMs, config.jitter, rng);
+  const compute = draw(config.computeMs, config.jitter, rng);
+  const order = draw(config.orderMs, config.jitter, rng);
+  return { feed, compute, order, total: feed + compute + order };
+};
+
+/** Draws this tick's feed + compute + order delay and records it as the current tick-to-trade latency. */
+export const sampleTickToTrade = (state: LatencyState, config: LatencyConfig, rng: Rng): LatencyState => {
+  const { total } = sampleLatency(config, rng);
+  return { ...state, lastMs: total, samples: [...state.samples.slice(-(MAX_SAMPLES - 1)), total] };
+};
+
+/** Queues a quote update decided at `time`; it reaches the exchange after the current tick-to-trade delay. */
+export const sendQuote = (state: LatencyState, update: Omit<PendingQuote, 'liveAt'>, time: number): LatencyState => ({
+  ...state,
+  pending: [...state.pending, { ...update, liveAt: time + state.lastMs / 1000 }],
+});
+
+/**
+ * Splits in-flight updates into those that land before `horizon` (oldest first) and those still travelling.
+ * The caller lands each one at its `liveAt`: until then the quotes it replaces can still trade.
+ */
+export const arrivedQuotes = (state: LatencyState, horizon: number): { arrived: PendingQuote[]; pending: PendingQuote[] } => ({
+  arrived: state.pending.filter(p => p.liveAt < horizon),
+  pending: state.pending.filter(p => p.liveAt >= horizon),
+});
+
+/** The part of a `dt`-long tick between `from` and `to`, clamped to [0, 1]. */
+export const tickShare = (from: number, to: number, dt: number): number => (dt > 0 ? Math.min(1, Math.max(0, (to - from) / dt)) : 1);
+
+export const percentile = (samples: number[], p: number): number => {
+  if (samples.length === 0) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+};
+
+/**
+ * Books PnL given up by filling at a stale price instead of the quote we wanted at that moment.
+ * Positive = lost: a sell below our desired best ask or a buy above our desired best bid.
+ * A fill at any level the strategy still wants is not stale.
+ */
+export const recordStaleFill = (state: LatencyState, side: 'buy' | 'sell', price: number, size: number): LatencyState => {
+  const levels = side === 'sell' ? state.desired.asks : state.desired.bids;
+  if (levels.length === 0 || levels.some(l => Math.abs(l.price - price) < 1e-9)) return state;
+  const loss = side === 'sell' ? (levels[0].price - price) * size : (price - levels[0].price) * size;
+  return { ...state, staleLoss: state.staleLoss + loss, staleFills: state.staleFills + 1 };
+};
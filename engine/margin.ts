@@ -0,0 +1,90 @@
+// Perp margin, Hyperliquid cross-margin style for one coin: account equity, initial and maintenance margin at the
+// chosen leverage, the liquidation price, and when a position has to be force-closed.
+import { MarginState } from '../types';
+import { INITIAL_CASH } from './stoikov';
+
+export interface MarginConfig {
+  enabled: boolean;
+  collateral: number;         // USDC deposited; equity = collateral + session PnL
+  leverage: number;           // Initial margin = notional / leverage
+  maxLeverage: number;        // The coin's cap; maintenance margin is half the initial margin at max leverage
+  liquidationPenalty: number; // Fraction of the liquidated notional lost on top of closing at the mark
+}
+
+// The simulated coin trades like ETH (25x max)
+export const DEFAULT_MARGIN: MarginConfig = {
+  enabled: true,
+  collateral: INITIAL_CASH,
+  leverage: 10,
+  maxLeverage: 25,
+  liquidationPenalty: 0.01,
+};
+
+export interface MarginSnapshot {
+  equity: number;
+  notional: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  leverage: number;                // Effective: notional / equity
+  utilisation: number;             // Initial margin / equity; above 1 no position-increasing orders are accepted
+  liquidationPrice: number | null; // null when flat, or when no positive price can liquidate the position
+  distance: number | null;         // |mark − liquidation price| / mark
+}
+
+export const createMarginState = (): MarginState => ({ liquidations: 0, penalties: 0 });
+
+export const maintenanceRate = (config: MarginConfig): number => 1 / (2 * config.maxLeverage);
+
+/**
+ * The mark at which equity falls to maintenance margin. With equity E, signed size q and maintenance rate m at
+ * mark P, solving E + q(L − P) = |q|·L·m for L gives L = P − side·(E − |q|·P·m) / |q| / (1 − m·side).
+ */
+export const liquidationPrice = (inventory: number, mark: number, equity: number, rate: number): number | null => {
+  if (inventory === 0) return null;
+  const side = Math.sign(inventory);
+  const size = Math.abs(inventory);
+  const price = mark - (side * (equity - size * mark * rate)) / size / (1 - rate * side);
+  return price > 0 ? price : null;
+};
+
+export const marginSnapshot = (inventory: number, mark: number, pnl: number, config: MarginConfig): MarginSnapshot => {
+  const equity = config.collateral + pnl;
+  const notional = Math.abs(inventory) * mark;
+  const initialMargin = notional / config.leverage;
+  const liq = liquidationPrice(inventory, mark, equity, maintenanceRate(config));
+  return {
+    equity,
+    notional,
+    initialMargin,
+    maintenanceMargin: notional * maintenanceRate(config),
+    leverage: equity > 0 ? notional / equity : Infinity,
+    utilisation: equity > 0 ? initialMargin / equity : Infinity,
+    liquidationPrice: liq,
+    distance: liq === null ? null : Math.abs(mark - liq) / mark,
+  };
+};
+
+/**
+ * Which sides may rest a `quoteSize` order: one that would take the position's initial margin above equity is
+ * refused, as the exchange does. Orders that reduce the position are always allowed.
+ */
+export const marginSides = (inventory: number, mark: number, pnl: number, quoteSize: number, config: MarginConfig): { bid: boolean; ask: boolean } => {
+  if (!config.enabled) return { bid: true, ask: true };
+  const equity = config.collateral + pnl;
+  const fits = (next: number) => Math.abs(next) <= Math.abs(inventory) || (Math.abs(next) * mark) / config.leverage <= equity;
+  return { bid: fits(inventory + quoteSize), ask: fits(inventory - quoteSize) };
+};
+
+/**
+ * How much each side may rest in total before a full fill would take initial margin above equity, so every level
+ * of the grid is covered and not only the first. Reducing orders are allowed up to the same size on the other side.
+ */
+export const marginRoom = (inventory: number, mark: number, pnl: number, config: MarginConfig): { bid: number; ask: number } => {
+  if (!config.enabled) return { bid: Infinity, ask: Infinity };
+  const cap = Math.max(0, ((config.collateral + pnl) * config.leverage) / mark);
+  return { bid: Math.max(0, cap - inventory, -2 * inventory), ask: Math.max(0, cap + inventory, 2 * inventory) };
+};
+
+/** Equity has fallen below maintenance margin on an open position. */
+export const isLiquidatable = (inventory: number, mark: number, pnl: number, config: MarginConfig): boolean =>
+  config.enabled && inventory !== 0 && config.collateral + pnl < Math.abs(inventory) * mark * maintenanceRate(config);
@@ -0,0 +1,201 @@
+// Seedable fair-value generators for the simulated market. Each model moves the price one tick from its own
+// state; σ (SimConfig.volatility) sets the base per-tick move so switching model keeps the same scale.
+import { MarketModelState } from '../types';
+import { gaussian, Rng } from './rng';
+import { StrategyParam, StrategyParams } from './strategies';
+
+export type MarketModelId = 'uniform' | 'gbm' | 'merton' | 'garch' | 'ou' | 'regime';
+
+export interface MarketConfig {
+  model: MarketModelId;
+  params: StrategyParams;
+  impactTicks: number; // Informed flow: ticks the price moves against us per unit we are filled
+}
+
+// What a model sees each tick
+export interface MarketInput {
+  price: number;
+  volatility: number; // σ as configured: the half-width of the uniform shock
+  sigma: number;      // Base per-tick standard deviation (price units), the same for every model
+  dt: number;         // Seconds per tick
+}
+
+export interface MarketModel {
+  id: MarketModelId;
+  label: string;
+  description: string;
+  params: StrategyParam[];
+  defaults: StrategyParams;
+  step: (input: MarketInput, state: MarketModelState, params: StrategyParams, rng: Rng) => { price: number; state: MarketModelState };
+}
+
+// The original walk draws uniform(−σ, σ) shocks; Gaussian shocks are scaled to the same standard deviation
+export const UNIFORM_STD = 1 / Math.sqrt(3);
+
+const BPS = 1e-4;
+
+// Chance of at least one event at `perSecond` during `dt`
+const eventProbability = (perSecond: number, dt: number): number => 1 - Math.exp(-perSecond * dt);
+
+// Log-normal step with per-tick log volatility `v` and log drift `mu`, the −v²/2 keeps E[S'] = S·e^mu
+const logStep = (price: number, mu: number, v: number, rng: Rng): number =>
+  price * Math.exp(mu - (v * v) / 2 + v * gaussian(rng));
+
+const uniform: MarketModel = {
+  id: 'uniform',
+  label: 'Uniform Walk',
+  description: '均匀冲击的算术随机游走（原始模型）。',
+  params: [],
+  defaults: {},
+  step: ({ price, volatility }, state, _p, rng) => ({ price: price + (rng() - 0.5) * volatility * 2, state }),
+};
+
+const gbm: MarketModel = {
+  id: 'gbm',
+  label: 'GBM',
+  description: '几何布朗运动：对数收益服从正态分布，波动与价格成比例。',
+  params: [
+    { key: 'driftBps', label: 'Drift (bp/min)', kind: 'range', min: -20, max: 20, step: 1, digits: 0 },
+  ],
+  defaults: { driftBps: 0 },
+  step: ({ price, sigma, dt }, state, p, rng) => ({
+    price: logStep(price, (p.driftBps * BPS * dt) / 60, sigma / state.anchor, rng),
+    state,
+  }),
+};
+
+const merton: MarketModel = {
+  id: 'merton',
+  label: 'Jump-Diffusion (Merton)',
+  description: 'GBM 叠加泊松跳跃，跳幅对数正态；漂移已补偿，跳跃不改变期望价格。',
+  params: [
+    { key: 'jumpRate', label: 'Jumps (per min)', kind: 'range', min: 0, max: 10, step: 0.5, digits: 1 },
+    { key: 'jumpMeanBps', label: 'Mean Jump (bp)', kind: 'range', min: -50, max: 50, step: 5, digits: 0 },
+    { key: 'jumpStdBps', label: 'Jump Std (bp)', kind: 'range', min: 0, max: 100, step: 5, digits: 0 },
+  ],
+  defaults: { jumpRate: 2, jumpMeanBps: 0, jumpStdBps: 30 },
+  step: ({ price, sigma, dt }, state, p, rng) => {
+    const m = p.jumpMeanBps * BPS;
+    const s = p.jumpStdBps * BPS;
+    const rate = p.jumpRate / 60;
+    // Compensator: subtract the jumps' expected drift so the price stays a martingale
+    const diffused = logStep(price, -rate * dt * (Math.exp(m + (s * s) / 2) - 1), sigma / state.anchor, rng);
+    const jumped = rng() < eventProbability(rate, dt) ? diffused * Math.exp(m + s * gaussian(rng)) : diffused;
+    return { price: jumped, state };
+  },
+};
+
+const garch: MarketModel = {
+  id: 'garch',
+  label: 'GARCH(1,1)',
+  description: '波动聚集：大冲击之后方差升高并缓慢衰减，长期方差仍为 σ²。',
+  params: [
+    { key: 'alpha', label: 'Shock Weight (α)', kind: 'range', min: 0.01, max: 0.2, step: 0.01 },
+    { key: 'persistence', label: 'Persistence (α+β)', kind: 'range', min: 0.9, max: 0.999, step: 0.001, digits: 3 },
+  ],
+  defaults: { alpha: 0.05, persistence: 0.995 },
+  step: ({ price, sigma }, state, p, rng) => {
+    const alpha = Math.min(p.alpha, p.persistence);
+    const beta = p.persistence - alpha;
+    const z = gaussian(rng);
+    // h' = ω + α·ε² + β·h with ω = (1 − α − β)·σ², kept in units of σ²
+    const varianceRatio = 1 - p.persistence + alpha * z * z * state.varianceRatio + beta * state.varianceRatio;
+    return { price: price + sigma * Math.sqrt(state.varianceRatio) * z, state: { ...state, varianceRatio } };
+  },
+};
+
+const ou: MarketModel = {
+  id: 'ou',
+  label: 'Mean-Reverting (OU)',
+  description: 'Ornstein-Uhlenbeck：价格被拉回起始价，偏离越大回归越快。',
+  params: [
+    { key: 'halfLife', label: 'Half-life (s)', kind: 'range', min: 1, max: 300, step: 1, digits: 0 },
+  ],
+  defaults: { halfLife: 30 },
+  step: ({ price, sigma, dt }, state, p, rng) => {
+    const pull = 1 - Math.exp((-Math.LN2 * dt) / p.halfLife);
+    return { price: price + (state.anchor - price) * pull + sigma * gaussian(rng), state };
+  },
+};
+
+const regime: MarketModel = {
+  id: 'regime',
+  label: 'Regime Switching',
+  description: '平静与趋势两种状态间切换：趋势期价格单边漂移且波动放大，做市商最容易亏损。',
+  params: [
+    { key: 'trendRate', label: 'Trends (per min)', kind: 'range', min: 0, max: 10, step: 0.5, digits: 1 },
+    { key: 'trendSeconds', label: 'Trend Duration (s)', kind: 'range', min: 5, max: 120, step: 5, digits: 0 },
+    { key: 'trendDrift', label: 'Trend Drift (σ/tick)', kind: 'range', min: 0, max: 1, step: 0.05 },
+    { key: 'trendVol', label: 'Trend Vol (×σ)', kind: 'range', min: 1, max: 5, step: 0.25 },
+  ],
+  defaults: { trendRate: 1, trendSeconds: 20, trendDrift: 0.25, trendVol: 2 },
+  step: ({ price, sigma, dt }, state, p, rng) => {
+    let trend = state.trend;
+    if (trend === 0) {
+      if (rng() < eventProbability(p.trendRate / 60, dt)) trend = rng() < 0.5 ? -1 : 1;
+    } else if (rng() < eventProbability(1 / p.trendSeconds, dt)) {
+      trend = 0;
+    }
+    const vol = trend === 0 ? sigma : sigma * p.trendVol;
+    return { price: price + trend * p.trendDrift * sigma + vol * gaussian(rng), state: { ...state, trend } };
+  },
+};
+
+export const MARKET_MODELS: MarketModel[] = [uniform, gbm, merton, garch, ou, regime];
+
+export const getMarketModel = (id: MarketModelId): MarketModel => MARKET_MODELS.find(m => m.id === id) ?? uniform;
+
+export const DEFAULT_MARKET: MarketConfig = { model: 'uniform', params: {}, impactTicks: 0 };
+
+export const createMarketState = (price: number): MarketModelState => ({ anchor: price, varianceRatio: 1, trend: 0, impact: 0 });
+
+/** Moves the fair value one tick under `config.model`, plus any informed impact owed from our last fills. */
+export const stepMarketModel = (
+  price: number,
+  state: MarketModelState,
+  config: MarketConfig,
+  volatility: number,
+  dt: number,
+  rng: Rng
+): { price: number; state: MarketModelState } => {
+  const model = getMarketModel(config.model);
+  const next = model.step({ price, volatility, sigma: volatility * UNIFORM_STD, dt }, state, { ...model.defaults, ...config.params }, rng);
+  return { price: next.price + state.impact, state: { ...next.state, impact: 0 } };
+};
+
+/** σ as configured (the half-width of the per-tick uniform shock) in price units per √s, as quoting models use it. */
+export const volatilityPerSecond = (volatility: number, dt: number): number => (volatility * UNIFORM_STD) / Math.sqrt(dt);
+
+/**
+ * The generator's volatility right now, in price units per √s: what a volatility estimator watching the fair
+ * value should converge to. The σ setting fixes each tick's step (standard deviation σ/√3), so this also
+ * depends on the tick length. Jumps are included as the variance they add on average.
+ */
+export const generatorVolatility = (price: number, state: MarketModelState, config: MarketConfig, volatility: number, dt: number): number => {
+  const model = getMarketModel(config.model);
+  const p = { ...model.defaults, ...config.params };
+  const sigma = volatility * UNIFORM_STD;
+  const scaled = (sigma * price) / state.anchor;
+  const perTick = (() => {
+    switch (model.id) {
+      case 'gbm':
+        return scaled * scaled;
+      case 'merton': {
+        const m = p.jumpMeanBps * BPS;
+        const s = p.jumpStdBps * BPS;
+        return scaled * scaled + eventProbability(p.jumpRate / 60, dt) * (m * m + s * s) * price * price;
+      }
+      case 'garch':
+        return sigma * sigma * state.varianceRatio;
+      case 'regime':
+        return state.trend === 0 ? sigma * sigma : (sigma * p.trendVol) ** 2;
+      default:
+        return sigma * sigma;
+    }
+  })();
+  return Math.sqrt(perTick / dt);
+};
+
+/** The move informed flow owes after our fills: buys push the price down, sells push it up. */
+export const informedImpact = (fills: { side: 'buy' | 'sell'; size: number }[], config: MarketConfig, tickSize: number): number =>
+  fills.reduce((a, f) => a + (f.side === 'buy' ? -1 : 1) * f.size * config.impactTicks * tickSize, 0);
@@ -0,0 +1,235 @@
+// A local stand-in for Hyperliquid's /exchange endpoint: checks signatures and nonces the way the venue does and
+// answers with the same response shapes and error strings, against a static one-tick-wide book per asset.
+import { Hex } from './crypto';
+import { AssetMeta, ExchangeAction, ExchangeRequest, getAsset, isValidPrice, isValidSize, OrderWire, priceDecimals, recoverL1Signer } from './exchange';
+
+const MIN_ORDER_VALUE = 10;
+const NONCE_WINDOW = 100;              // The exchange remembers each signer's 100 highest nonces
+const NONCE_MAX_AGE_MS = 2 * 86_400_000;
+const NONCE_MAX_AHEAD_MS = 86_400_000;
+
+export interface RestingOrder {
+  oid: number;
+  asset: number;
+  side: 'buy' | 'sell';
+  price: number;
+  size: number;
+  cloid?: Hex;
+  timestamp: number;
+}
+
+export interface MockExchangeState {
+  isMainnet: boolean;
+  signers: Hex[];                 // Addresses with an account; anything else is rejected
+  mids: Record<number, number>;   // Asset → mid of the static book
+  nonces: Record<Hex, number[]>;  // Signer → its highest used nonces, ascending
+  resting: RestingOrder[];
+  nextOid: number;
+}
+
+export type OrderStatus =
+  | { resting: { oid: number; cloid?: Hex } }
+  | { filled: { totalSz: string; avgPx: string; oid: number; cloid?: Hex } }
+  | { error: string };
+
+export type CancelStatus = 'success' | { error: string };
+
+export type ExchangeResponse =
+  | { status: 'ok'; response: { type: 'order'; data: { statuses: OrderStatus[] } } }
+  | { status: 'ok'; response: { type: 'cancel'; data: { statuses: CancelStatus[] } } }
+  | { status: 'err'; response: string };
+
+export const createMockExchange = (signers: Hex[], mids: Record<number, number>, isMainnet = false): MockExchangeState => ({
+  isMainnet,
+  signers: signers.map(s => s.toLowerCase() as Hex),
+  mids,
+  nonces: {},
+  resting: [],
+  nextOid: 1_000_000,
+});
+
+/** Best bid and ask of the static book: one price increment either side of the mid. */
+export const mockBbo = (mid: number, meta: AssetMeta): [number, number] => {
+  const step = 10 ** -priceDecimals(mid, meta.szDecimals);
+  const decimals = priceDecimals(mid, meta.szDecimals);
+  return [Number((mid - step).toFixed(decimals)), Number((mid + step).toFixed(decimals))];
+};
+
+const err = (response: string): ExchangeResponse => ({ status: 'err', response });
+
+const checkNonce = (used: number[], nonce: number, now: number): string | null => {
+  if (!Number.isSafeInteger(nonce) || nonce <= now - NONCE_MAX_AGE_MS || nonce >= now + NONCE_MAX_AHEAD_MS) {
+    return `Invalid nonce: nonce ${nonce} is outside the allowed time window`;
+  }
+  if (used.includes(nonce)) return `Invalid nonce: duplicate nonce ${nonce}`;
+  if (used.length >= NONCE_WINDOW && nonce < used[0]) return `Invalid nonce: nonce ${nonce} is lower than the lowest of the last ${NONCE_WINDOW}`;
+  return null;
+};
+
+// --- Request shape: the body is untrusted JSON ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isHex = (v: unknown): v is Hex => typeof v === 'string' && /^0x[0-9a-fA-F]*$/.test(v);
+const TIFS: unknown[] = ['Alo', 'Ioc', 'Gtc'];
+
+const isOrderWire = (v: unknown): v is OrderWire =>
+  isRecord(v) &&
+  typeof v.a === 'number' &&
+  typeof v.b === 'boolean' &&
+  typeof v.p === 'string' &&
+  typeof v.s === 'string' &&
+  typeof v.r === 'boolean' &&
+  isRecord(v.t) &&
+  isRecord(v.t.limit) &&
+  TIFS.includes(v.t.limit.tif) &&
+  (v.c === undefined || isHex(v.c));
+
+const everyOf = (v: unknown, check: (item: unknown) => boolean) => Array.isArray(v) && v.every(check);
+
+// Unknown action types pass, so they are answered like the venue does once the signature checks out
+const isAction = (v: unknown): v is ExchangeAction => {
+  if (!isRecord(v) || typeof v.type !== 'string') return false;
+  switch (v.type) {
+    case 'order':
+      return everyOf(v.orders, isOrderWire);
+    case 'cancel':
+      return everyOf(v.cancels, c => isRecord(c) && typeof c.a === 'number' && typeof c.o === 'number');
+    case 'cancelByCloid':
+      return everyOf(v.cancels, c => isRecord(c) && typeof c.asset === 'number' && isHex(c.cloid));
+    case 'batchModify':
+      return everyOf(v.modifies, m => isRecord(m) && (typeof m.oid === 'number' || isHex(m.oid)) && isOrderWire(m.order));
+    default:
+      return true;
+  }
+};
+
+const isRequest = (v: unknown): v is ExchangeRequest =>
+  isRecord(v) &&
+  isAction(v.action) &&
+  typeof v.nonce === 'number' &&
+  isRecord(v.signature) &&
+  isHex(v.signature.r) &&
+  isHex(v.signature.s) &&
+  typeof v.signature.v === 'number' &&
+  (v.vaultAddress === undefined || v.vaultAddress === null || isHex(v.vaultAddress));
+
+interface Placement {
+  status: OrderStatus;
+  rest?: RestingOrder;
+}
+
+const placeOrder = (state: MockExchangeState, wire: OrderWire, oid: number, now: number): Placement => {
+  const meta = getAsset(wire.a);
+  const mid = state.mids[wire.a];
+  if (!meta || mid === undefined) return { status: { error: `Invalid asset ${wire.a}` } };
+  const price = Number(wire.p);
+  const size = Number(wire.s);
+  if (!isValidPrice(price, meta)) return { status: { error: 'Order has invalid price.' } };
+  if (!isValidSize(size, meta)) return { status: { error: 'Order has invalid size.' } };
+  if (price * size < MIN_ORDER_VALUE) return { status: { error: `Order must have minimum value of $${MIN_ORDER_VALUE}. asset=${wire.a}` } };
+  if (wire.c && state.resting.some(o => o.cloid === wire.c)) return { status: { error: `Duplicate cloid. asset=${wire.a}` } };
+
+  const [bid, ask] = mockBbo(mid, meta);
+  const crosses = wire.b ? price >= ask : price <= bid;
+  const tif = wire.t.limit.tif;
+  if (crosses && tif === 'Alo') {
+    return { status: { error: `Post only order would have immediately matched, bbo was ${bid}@${ask}. asset=${wire.a}` } };
+  }
+  if (crosses) {
+    return { status: { filled: { totalSz: wire.s, avgPx: String(wire.b ? ask : bid), oid, cloid: wire.c } } };
+  }
+  if (tif === 'Ioc') {
+    return { status: { error: `Order could not immediately match against any resting orders. asset=${wire.a}` } };
+  }
+  return {
+    status: { resting: { oid, cloid: wire.c } },
+    rest: { oid, asset: wire.a, side: wire.b ? 'buy' : 'sell', price, size, cloid: wire.c, timestamp: now },
+  };
+};
+
+const applyAction = (state: MockExchangeState, action: ExchangeAction, now: number): { state: MockExchangeState; response: ExchangeResponse } => {
+  let resting = state.resting;
+  let nextOid = state.nextOid;
+  const place = (wire: OrderWire): OrderStatus => {
+    const placed = placeOrder({ ...state, resting }, wire, nextOid++, now);
+    if (placed.rest) resting = [...resting, placed.rest];
+    return placed.status;
+  };
+  const cancel = (match: (o: RestingOrder) => boolean, asset: number): CancelStatus => {
+    if (!resting.some(match)) return { error: `Order was never placed, already canceled, or filled. asset=${asset}` };
+    resting = resting.filter(o => !match(o));
+    return 'success';
+  };
+  const done = (response: ExchangeResponse) => ({ state: { ...state, resting, nextOid }, response });
+
+  switch (action.type) {
+    case 'order':
+      return done({ status: 'ok', response: { type: 'order', data: { statuses: action.orders.map(place) } } });
+    case 'cancel':
+      return done({
+        status: 'ok',
+        response: { type: 'cancel', data: { statuses: action.cancels.map(c => cancel(o => o.oid === c.o && o.asset === c.a, c.a)) } },
+      });
+    case 'cancelByCloid':
+      return done({
+        status: 'ok',
+        response: { type: 'cancel', data: { statuses: action.cancels.map(c => cancel(o => o.cloid === c.cloid && o.asset === c.asset, c.asset)) } },
+      });
+    case 'batchModify': {
+      // A modify is a cancel-and-replace: the replacement gets a new oid. A replacement that is refused leaves
+      // the original resting.
+      const statuses = action.modifies.map((m): OrderStatus => {
+        const target = resting.find(o => (typeof m.oid === 'number' ? o.oid === m.oid : o.cloid === m.oid));
+        if (!target) return { error: 'Cannot modify canceled or filled order' };
+        const others = resting.filter(o => o !== target);
+        const placed = placeOrder({ ...state, resting: others }, m.order, nextOid, now);
+        if ('error' in placed.status) return placed.status;
+        nextOid++;
+        resting = placed.rest ? [...others, placed.rest] : others;
+        return placed.status;
+      });
+      return done({ status: 'ok', response: { type: 'order', data: { statuses } } });
+    }
+    default:
+      return done(err(`Unknown action type: ${(action as { type: string }).type}`));
+  }
+};
+
+/**
+ * Handles one POST body. Pure: the caller keeps the returned state. Request-level failures (malformed body,
+ * bad nonce, unknown signer) come back as `status: 'err'`; per-order failures as errors inside `statuses`.
+ */
+export const handleExchange = (state: MockExchangeState, body: unknown, now: number): { state: MockExchangeState; response: ExchangeResponse } => {
+  if (!isRequest(body)) return { state, response: err('Failed to deserialize the JSON body into the target type') };
+  const request = body;
+
+  let signer: Hex;
+  try {
+    signer = recoverL1Signer(request, state.isMainnet);
+  } catch {
+    return { state, response: err('Invalid signature') };
+  }
+  // A tampered payload or the wrong network recovers to an address without an account, as on the real venue
+  if (!state.signers.includes(signer)) {
+    return { state, response: err(`User or API Wallet ${signer} does not exist.`) };
+  }
+
+  const used = state.nonces[signer] ?? [];
+  const nonceError = checkNonce(used, request.nonce, now);
+  if (nonceError) return { state, response: err(nonceError) };
+  const nonces = { ...state.nonces, [signer]: [...used, request.nonce].sort((a, b) => a - b).slice(-NONCE_WINDOW) };
+
+  return applyAction({ ...state, nonces }, request.action, now);
+};
+
+/** The `openOrders` info query, in the venue's shape. */
+export const openOrders = (state: MockExchangeState) =>
+  state.resting.map(o => ({
+    coin: getAsset(o.asset)?.name ?? String(o.asset),
+    side: o.side === 'buy' ? 'B' : 'A',
+    limitPx: String(o.price),
+    sz: String(o.size),
+    oid: o.oid,
+    timestamp: o.timestamp,
+    cloid: o.cloid ?? null,
+  }));
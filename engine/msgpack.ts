@@ -0,0 +1,64 @@
+// MessagePack encoder for exchange actions. Hyperliquid hashes the msgpack bytes of an action, so key order
+// (insertion order) and integer widths must match what its SDKs produce: the smallest encoding for each value.
+
+export type MsgpackValue = null | boolean | number | string | MsgpackValue[] | { [key: string]: MsgpackValue | undefined };
+
+const header = (out: number[], small: number, smallMax: number, codes: [number, number, number], length: number) => {
+  if (length <= smallMax) out.push(small | length);
+  else if (length < 0x100 && codes[0] !== 0) out.push(codes[0], length);
+  else if (length < 0x10000) out.push(codes[1], length >> 8, length & 0xff);
+  else out.push(codes[2], (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff);
+};
+
+const bigEndian = (value: bigint, bytes: number): number[] =>
+  Array.from({ length: bytes }, (_, i) => Number((value >> BigInt(8 * (bytes - 1 - i))) & 0xffn));
+
+const encodeInto = (out: number[], value: MsgpackValue) => {
+  if (value === null) {
+    out.push(0xc0);
+  } else if (typeof value === 'boolean') {
+    out.push(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value) && Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        if (value < 0x80) out.push(value);
+        else if (value < 0x100) out.push(0xcc, value);
+        else if (value < 0x10000) out.push(0xcd, ...bigEndian(BigInt(value), 2));
+        else if (value < 0x100000000) out.push(0xce, ...bigEndian(BigInt(value), 4));
+        else out.push(0xcf, ...bigEndian(BigInt(value), 8));
+      } else {
+        const v = BigInt.asUintN(64, BigInt(value));
+        if (value >= -32) out.push(value & 0xff);
+        else if (value >= -0x80) out.push(0xd0, ...bigEndian(v, 1));
+        else if (value >= -0x8000) out.push(0xd1, ...bigEndian(v, 2));
+        else if (value >= -0x80000000) out.push(0xd2, ...bigEndian(v, 4));
+        else out.push(0xd3, ...bigEndian(v, 8));
+      }
+    } else {
+      const view = new DataView(new ArrayBuffer(8));
+      view.setFloat64(0, value);
+      out.push(0xcb, ...new Uint8Array(view.buffer));
+    }
+  } else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value);
+    header(out, 0xa0, 31, [0xd9, 0xda, 0xdb], bytes.length);
+    out.push(...bytes);
+  } else if (Array.isArray(value)) {
+    header(out, 0x90, 15, [0, 0xdc, 0xdd], value.length);
+    value.forEach(v => encodeInto(out, v));
+  } else {
+    // Undefined fields are left out rather than encoded as nil, like optional fields in the SDKs
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined) as [string, MsgpackValue][];
+    header(out, 0x80, 15, [0, 0xde, 0xdf], entries.length);
+    entries.forEach(([k, v]) => {
+      encodeInto(out, k);
+      encodeInto(out, v);
+    });
+  }
+};
+
+export const encodeMsgpack = (value: MsgpackValue): Uint8Array => {
+  const out: number[] = [];
+  encodeInto(out, value);
+  return Uint8Array.from(out);
+};
@@ -0,0 +1,190 @@
+// Simulated L2 order book with FIFO queues per price level. Our own orders carry the `my-` id prefix.
+import { BookLevel, Order, SimBook } from '../types';
+import { Rng } from './rng';
+
+export interface BookFlowConfig {
+  levels: number;           // Depth (in ticks) around fair value where background liquidity is added
+  addsPerTick: number;      // New background limit orders per side per tick
+  maxOrderSize: number;     // Background limit order size is uniform 1..maxOrderSize
+  cancelProb: number;       // Chance each background order is cancelled per tick
+  marketOrderProb: number;  // Chance of a noise market order per side per tick
+  maxMarketSize: number;    // Noise market order size is uniform 1..maxMarketSize
+  sizeUnit: number;         // Background sizes above are in multiples of this (coins)
+  aggressor?: { side: 'buy' | 'sell'; intensity: number }; // One-sided flow: this side's market orders arrive `intensity` times as often
+}
+
+export interface BookFill {
+  orderId: string;
+  side: 'buy' | 'sell'; // Side of the resting order that was filled
+  price: number;
+  size: number;
+}
+
+export const DEFAULT_BOOK_FLOW: BookFlowConfig = {
+  levels: 10,
+  addsPerTick: 4,
+  maxOrderSize: 5,
+  cancelProb: 0.05,
+  marketOrderProb: 0.35,
+  maxMarketSize: 8,
+  sizeUnit: 1,
+};
+
+// Sizes are fractional for coins like BTC; anything below this is treated as fully filled
+const SIZE_EPSILON = 1e-9;
+
+export const MY_ORDER_PREFIX = 'my-';
+
+export const isMyOrder = (order: Order): boolean => order.id.startsWith(MY_ORDER_PREFIX);
+
+const toTicks = (price: number, tickSize: number) => Math.round(price / tickSize);
+
+export const cloneBook = (book: SimBook): SimBook => ({
+  ...book,
+  bids: book.bids.map(l => ({ price: l.price, orders: l.orders.map(o => ({ ...o })) })),
+  asks: book.asks.map(l => ({ price: l.price, orders: l.orders.map(o => ({ ...o })) })),
+});
+
+export const bestBid = (book: SimBook): number | undefined => book.bids[0]?.price;
+export const bestAsk = (book: SimBook): number | undefined => book.asks[0]?.price;
+
+export const bookMid = (book: SimBook): number => {
+  const bid = bestBid(book);
+  const ask = bestAsk(book);
+  if (bid !== undefined && ask !== undefined) return (bid + ask) / 2;
+  return bid ?? ask ?? book.fairValue;
+};
+
+export const levelSize = (level: BookLevel): number => level.orders.reduce((sum, o) => sum + o.size, 0);
+
+/** Appends `order` to the back of the queue at its price level (mutates `book`). */
+export const placeOrder = (book: SimBook, order: Order, tickSize: number): void => {
+  const levels = order.side === 'buy' ? book.bids : book.asks;
+  const ticks = toTicks(order.price, tickSize);
+  const better = (a: number, b: number) => order.side === 'buy' ? a > b : a < b;
+  let idx = levels.findIndex(l => !better(toTicks(l.price, tickSize), ticks));
+  if (idx === -1) idx = levels.length;
+  if (levels[idx] && toTicks(levels[idx].price, tickSize) === ticks) {
+    levels[idx].orders.push(order);
+  } else {
+    levels.splice(idx, 0, { price: ticks * tickSize, orders: [order] });
+  }
+};
+
+/** Removes an order by id (mutates `book`). Returns the removed order, if any. */
+export const cancelOrder = (book: SimBook, id: string): Order | undefined => {
+  for (const levels of [book.bids, book.asks]) {
+    for (let i = 0; i < levels.length; i++) {
+      const idx = levels[i].orders.findIndex(o => o.id === id);
+      if (idx === -1) continue;
+      const [removed] = levels[i].orders.splice(idx, 1);
+      if (levels[i].orders.length === 0) levels.splice(i, 1);
+      return removed;
+    }
+  }
+  return undefined;
+};
+
+export const myOrders = (book: SimBook): Order[] =>
+  [...book.bids, ...book.asks].flatMap(l => l.orders.filter(isMyOrder));
+
+/** Size resting ahead of order `id` in its level's FIFO queue. */
+export const queueAhead = (book: SimBook, id: string): number | undefined => {
+  for (const level of [...book.bids, ...book.asks]) {
+    const idx = level.orders.findIndex(o => o.id === id);
+    if (idx !== -1) return level.orders.slice(0, idx).reduce((sum, o) => sum + o.size, 0);
+  }
+  return undefined;
+};
+
+/**
+ * Aggressive order of `size` on `side` walking the opposite side of the book (mutates `book`).
+ * `limit` caps how far it sweeps; resting orders are consumed strictly in FIFO order.
+ */
+export const executeMarketOrder = (book: SimBook, side: 'buy' | 'sell', size: number, limit?: number): BookFill[] => {
+  const levels = side === 'buy' ? book.asks : book.bids;
+  const fills: BookFill[] = [];
+  let remaining = size;
+  while (remaining > SIZE_EPSILON && levels.length > 0) {
+    const level = levels[0];
+    if (limit !== undefined && (side === 'buy' ? level.price > limit : level.price < limit)) break;
+    while (remaining > SIZE_EPSILON && level.orders.length > 0) {
+      const resting = level.orders[0];
+      const take = Math.min(resting.size, remaining);
+      resting.size -= take;
+      remaining -= take;
+      fills.push({ orderId: resting.id, side: resting.side, price: level.price, size: take });
+      if (resting.size <= SIZE_EPSILON) level.orders.shift();
+    }
+    if (level.orders.length === 0) levels.shift();
+  }
+  return fills;
+};
+
+const randInt = (rng: Rng, max: number) => 1 + Math.floor(rng() * max);
+const randSize = (rng: Rng, max: number, unit: number) => randInt(rng, max) * unit;
+
+export const createBook = (fairValue: number, tickSize: number, flow: BookFlowConfig, rng: Rng): SimBook => {
+  const book: SimBook = { bids: [], asks: [], fairValue, nextId: 0 };
+  const center = toTicks(fairValue, tickSize);
+  for (let i = 1; i <= flow.levels; i++) {
+    for (const side of ['buy', 'sell'] as const) {
+      const price = (side === 'buy' ? center - i : center + i) * tickSize;
+      placeOrder(book, { id: `bg-${book.nextId++}`, price, size: randSize(rng, flow.maxOrderSize, flow.sizeUnit), side }, tickSize);
+    }
+  }
+  return book;
+};
+
+/**
+ * The takers in `share` of a tick (mutates `book`): informed traders sweep any liquidity left on the wrong side
+ * of `fairValue`, and noise market orders hit the touch with the chance scaled to the share.
+ */
+export const stepTakerFlow = (book: SimBook, fairValue: number, flow: BookFlowConfig, rng: Rng, share = 1): BookFill[] => {
+  book.fairValue = fairValue;
+  const fills: BookFill[] = [];
+
+  // 1. Informed flow: stale quotes get picked off (this is where adverse selection comes from)
+  const staleBids = book.bids.filter(l => l.price > fairValue).reduce((sum, l) => sum + levelSize(l), 0);
+  if (staleBids > 0) fills.push(...executeMarketOrder(book, 'sell', staleBids, fairValue));
+  const staleAsks = book.asks.filter(l => l.price < fairValue).reduce((sum, l) => sum + levelSize(l), 0);
+  if (staleAsks > 0) fills.push(...executeMarketOrder(book, 'buy', staleAsks, fairValue));
+
+  // 2. Noise flow
+  for (const side of ['buy', 'sell'] as const) {
+    const bias = flow.aggressor?.side === side ? flow.aggressor.intensity : 1;
+    if (rng() < flow.marketOrderProb * bias * share) fills.push(...executeMarketOrder(book, side, randSize(rng, flow.maxMarketSize, flow.sizeUnit)));
+  }
+  return fills;
+};
+
+/**
+ * One tick of background participants (mutates `book`):
+ * 1. informed traders sweep any liquidity left on the wrong side of the new fair value,
+ * 2. noise market orders hit the touch,
+ * 3. background orders are cancelled and new limit orders join around fair value.
+ * `share` is the part of the tick left for the takers when an earlier part already ran through stepTakerFlow.
+ * Returns every fill against resting orders, ours included.
+ */
+export const stepBookFlow = (book: SimBook, fairValue: number, tickSize: number, flow: BookFlowConfig, rng: Rng, share = 1): BookFill[] => {
+  const fills = stepTakerFlow(book, fairValue, flow, rng, share);
+
+  // 3. Cancels (never ours) and new liquidity; far-away levels are dropped to keep the book bounded
+  const center = toTicks(fairValue, tickSize);
+  for (const levels of [book.bids, book.asks]) {
+    for (let i = levels.length - 1; i >= 0; i--) {
+      const tooFar = Math.abs(toTicks(levels[i].price, tickSize) - center) > flow.levels * 2;
+      levels[i].orders = levels[i].orders.filter(o => isMyOrder(o) || (!tooFar && rng() >= flow.cancelProb));
+      if (levels[i].orders.length === 0) levels.splice(i, 1);
+    }
+  }
+  for (const side of ['buy', 'sell'] as const) {
+    for (let i = 0; i < flow.addsPerTick; i++) {
+      const offset = randInt(rng, flow.levels);
+      const price = (side === 'buy' ? center - offset : center + offset) * tickSize;
+      placeOrder(book, { id: `bg-${book.nextId++}`, price, size: randSize(rng, flow.maxOrderSize, flow.sizeUnit), side }, tickSize);
+    }
+  }
+
+  return fills;
+};
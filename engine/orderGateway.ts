@@ -0,0 +1,252 @@
+// Order gateway: our orders' lifecycle (new → acked → partially filled → filled / cancelled / rejected) and the
+// exchange's request rate limit, a token bucket that every place, cancel and modify draws from.
+import { GatewayState, OrderStatus, PendingQuote, QuoteLadder, QuoteLevel, TrackedOrder } from '../types';
+import { MY_ORDER_PREFIX } from './orderBook';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  requestsPerMinute: number; // Refill rate; Hyperliquid allows 1200 per minute per IP
+  burst: number;             // Bucket size: how far ahead of the refill rate a busy spell can run
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = { enabled: true, requestsPerMinute: 1200, burst: 100 };
+
+export const ORDER_STATUSES: OrderStatus[] = ['new', 'acked', 'partiallyFilled', 'filled', 'cancelled', 'rejected'];
+
+const MAX_CLOSED = 50;
+const WINDOW = 60;
+const SIZE_EPSILON = 1e-9;
+
+export const createGatewayState = (config: RateLimitConfig, time = 0): GatewayState => ({
+  tokens: config.burst,
+  refilledAt: time,
+  reserved: 0,
+  nextId: 1,
+  open: [],
+  closed: [],
+  counts: { new: 0, acked: 0, partiallyFilled: 0, filled: 0, cancelled: 0, rejected: 0 },
+  requests: 0,
+  skipped: 0,
+  throttled: false,
+  windowStart: time,
+  windowRequests: 0,
+  lastWindowRequests: 0,
+});
+
+/** A copy the step can mutate; closed orders are never changed in place. */
+export const cloneGateway = (state: GatewayState): GatewayState => ({
+  ...state,
+  open: state.open.map(o => ({ ...o })),
+  counts: { ...state.counts },
+});
+
+/** Tops the bucket up for the time since the last refill and rolls the one-minute window (mutates `state`). */
+export const refillGateway = (state: GatewayState, config: RateLimitConfig, time: number): void => {
+  state.tokens = Math.min(config.burst, state.tokens + Math.max(0, time - state.refilledAt) * (config.requestsPerMinute / 60));
+  state.refilledAt = time;
+  if (time - state.windowStart >= WINDOW) {
+    state.lastWindowRequests = time - state.windowStart < 2 * WINDOW ? state.windowRequests : 0;
+    state.windowStart += Math.floor((time - state.windowStart) / WINDOW) * WINDOW;
+    state.windowRequests = 0;
+  }
+};
+
+/** Requests that can be sent now without going over the limit. */
+export const requestBudget = (state: GatewayState, config: RateLimitConfig, reserved = 0): number =>
+  config.enabled ? Math.max(0, Math.floor(state.tokens - reserved + 1e-9)) : Infinity;
+
+const spend = (state: GatewayState, config: RateLimitConfig, count: number) => {
+  state.requests += count;
+  state.windowRequests += count;
+  if (config.enabled) state.tokens -= count;
+};
+
+const transition = (state: GatewayState, order: TrackedOrder, status: OrderStatus, time: number, reason?: string) => {
+  order.status = status;
+  order.updatedAt = time;
+  if (reason) order.reason = reason;
+  state.counts[status]++;
+  if (status === 'filled' || status === 'cancelled' || status === 'rejected') {
+    state.open = state.open.filter(o => o !== order);
+    state.closed = [...state.closed.slice(-(MAX_CLOSED - 1)), order];
+  }
+};
+
+const findOpen = (state: GatewayState, id: string | undefined) => (id === undefined ? undefined : state.open.find(o => o.id === id));
+
+/** Starts tracking a place request for `level`; returns the level carrying its new order id (mutates `state`). */
+export const orderSent = (state: GatewayState, level: QuoteLevel, side: 'buy' | 'sell', time: number): QuoteLevel => {
+  const id = `${MY_ORDER_PREFIX}${state.nextId++}`;
+  state.open.push({ id, price: level.price, size: level.size, side, status: 'new', filled: 0, createdAt: time, updatedAt: time });
+  state.counts.new++;
+  return { ...level, id };
+};
+
+export const orderAcked = (state: GatewayState, id: string | undefined, time: number): void => {
+  const order = findOpen(state, id);
+  if (order?.status === 'new') transition(state, order, 'acked', time);
+};
+
+export const orderRejected = (state: GatewayState, id: string | undefined, time: number, reason: string): void => {
+  const order = findOpen(state, id);
+  if (order) transition(state, order, 'rejected', time, reason);
+};
+
+export const orderCancelled = (state: GatewayState, id: string | undefined, time: number): void => {
+  const order = findOpen(state, id);
+  if (order) transition(state, order, 'cancelled', time);
+};
+
+export const orderFilled = (state: GatewayState, id: string | undefined, size: number, time: number): void => {
+  const order = findOpen(state, id);
+  if (!order) return;
+  order.filled += size;
+  if (order.filled >= order.size - SIZE_EPSILON) transition(state, order, 'filled', time);
+  else if (order.status !== 'partiallyFilled') transition(state, order, 'partiallyFilled', time);
+  else order.updatedAt = time;
+};
+
+const samePrice = (a: number, b: number, tickSize: number) => Math.abs(a - b) < tickSize / 2;
+
+// One request against the exchange: a modify when it both cancels and places, otherwise a lone cancel or place
+export interface SideOp {
+  side: 'buy' | 'sell';
+  cancel?: QuoteLevel;
+  place?: QuoteLevel;
+  urgent: boolean; // Pulls a quote priced better than we now want: the one the next taker picks off
+  rank: number;    // Level index, best first
+}
+
+/**
+ * The requests that turn one side's `live` levels (best first) into `target`. Levels resting at a wanted price
+ * are kept; the most aggressive unwanted level is re-priced onto the best missing one, and so on outwards.
+ */
+export const sideOps = (side: 'buy' | 'sell', live: QuoteLevel[], target: QuoteLevel[], tickSize: number): SideOp[] => {
+  const cancels = live.filter(l => !target.some(t => samePrice(t.price, l.price, tickSize)));
+  const places = target.filter(t => !live.some(l => samePrice(t.price, l.price, tickSize)));
+  const best = target[0]?.price;
+  const isUrgent = (l: QuoteLevel | undefined) =>
+    l !== undefined && (best === undefined || (side === 'buy' ? l.price > best : l.price < best));
+  return Array.from({ length: Math.max(cancels.length, places.length) }, (_, i) => ({
+    side,
+    cancel: cancels[i],
+    place: places[i],
+    urgent: isUrgent(cancels[i]),
+    rank: i,
+  }));
+};
+
+/** Urgent pulls first, then the best level of each side, then deeper levels; bids before asks on ties. */
+const byPriority = (a: SideOp, b: SideOp) =>
+  Number(b.urgent) - Number(a.urgent) || a.rank - b.rank || (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1);
+
+const sortLevels = (levels: QuoteLevel[], side: 'buy' | 'sell') =>
+  [...levels].sort((a, b) => (side === 'buy' ? b.price - a.price : a.price - b.price));
+
+export type QuoteUpdate = Omit<PendingQuote, 'liveAt'>;
+
+export interface PlannedUpdate {
+  update: QuoteUpdate; // What is actually sent, new levels carrying their order ids
+  requests: number;
+  placed: number;      // Requests that place an order (a modify counts)
+  skipped: number;
+}
+
+/**
+ * How the quoter spends a limited request budget. `sent` is what it believes is live (or already on its way);
+ * `wanted` is this tick's update. Changes are ranked (urgent pulls, then the touch, then depth) and sent until
+ * the budget runs out; the rest are skipped and the old levels stay live. Sends are tracked as new orders
+ * (mutates `gateway`).
+ */
+export const planUpdate = (
+  gateway: GatewayState,
+  sent: QuoteLadder,
+  wanted: QuoteUpdate,
+  budget: number,
+  tickSize: number,
+  time: number
+): PlannedUpdate => {
+  const targets = { buy: wanted.bids, sell: wanted.asks };
+  const current = { buy: sent.bids, sell: sent.asks };
+  const ops = (['buy', 'sell'] as const)
+    .flatMap(side => (targets[side] === undefined ? [] : sideOps(side, current[side], targets[side] ?? [], tickSize)))
+    .sort(byPriority);
+  const chosen = ops.slice(0, Math.max(0, budget));
+
+  const plan = (side: 'buy' | 'sell'): QuoteLevel[] | null | undefined => {
+    const target = targets[side];
+    if (target === undefined) return undefined;
+    const sideOpsAll = ops.filter(op => op.side === side);
+    const done = chosen.filter(op => op.side === side);
+    const withIds = (levels: QuoteLevel[]) =>
+      levels.map(l => (done.some(op => op.place === l) ? orderSent(gateway, l, side, time) : l));
+    if (done.length === sideOpsAll.length) return target === null ? null : withIds(target);
+    if (done.length === 0) return undefined;
+    const cancelled = done.flatMap(op => (op.cancel ? [op.cancel] : []));
+    const placed = done.flatMap(op => (op.place ? [op.place] : []));
+    return withIds(sortLevels([...current[side].filter(l => !cancelled.includes(l)), ...placed], side));
+  };
+
+  const update = { bids: plan('buy'), asks: plan('sell') };
+  return { update, requests: chosen.length, placed: chosen.filter(op => op.place).length, skipped: ops.length - chosen.length };
+};
+
+/** Records the quoter's decision: requests budgeted for the update in flight and whether it was cut short. */
+export const recordPlan = (gateway: GatewayState, plan: PlannedUpdate): void => {
+  gateway.reserved += plan.requests;
+  gateway.skipped += plan.skipped;
+  gateway.throttled = plan.skipped > 0;
+};
+
+/**
+ * Exchange side of an update: executes one side's requests in the order the quoter sent them while
+ * the bucket lasts. Places beyond it are rejected, cancels beyond it fail and the order stays live.
+ * `hooks.reject` lets the venue refuse a place for other reasons (its message). Returns the levels that end up
+ * live (mutates `gateway`).
+ */
+export const executeSide = (
+  gateway: GatewayState,
+  config: RateLimitConfig,
+  side: 'buy' | 'sell',
+  live: QuoteLevel[],
+  target: QuoteLevel[],
+  tickSize: number,
+  time: number,
+  hooks: { cancel?: (level: QuoteLevel) => void; place?: (level: QuoteLevel) => void; reject?: () => string | undefined } = {}
+): QuoteLevel[] => {
+  let result = live;
+  sideOps(side, live, target, tickSize).forEach(op => {
+    if (requestBudget(gateway, config) < 1) {
+      if (op.place) orderRejected(gateway, op.place.id, time, '超出请求频率限制 (rate limited)');
+      return;
+    }
+    spend(gateway, config, 1);
+    if (op.cancel) {
+      hooks.cancel?.(op.cancel);
+      orderCancelled(gateway, op.cancel.id, time);
+      result = result.filter(l => l !== op.cancel);
+    }
+    if (op.place) {
+      // A level placed without going through the planner (e.g. a refill) is tracked from here
+      const placed = op.place.id && findOpen(gateway, op.place.id) ? op.place : orderSent(gateway, op.place, side, time);
+      const reason = hooks.reject?.();
+      if (reason) {
+        orderRejected(gateway, placed.id, time, reason);
+        return;
+      }
+      hooks.place?.(placed);
+      orderAcked(gateway, placed.id, time);
+      result = [...result, placed];
+    }
+  });
+  // A planned order whose price turned out to be live already was never needed
+  target.forEach(t => {
+    if (findOpen(gateway, t.id)?.status === 'new') orderCancelled(gateway, t.id, time);
+  });
+  return sortLevels(result, side);
+};
+
+/** Releases the budget reserved for an update once it has reached the exchange. */
+export const releaseReserved = (gateway: GatewayState, update: QuoteUpdate): void => {
+  gateway.reserved = Math.max(0, gateway.reserved - (update.requests ?? 0));
+};
@@ -0,0 +1,113 @@
+// Playback of the live Simulation off the main thread: the worker steps the engine in frames and posts one batch per frame.
+import { Scenario, SimState, SimulationStats } from '../types';
+import { Blotter, recordFills } from './blotter';
+import { Rng } from './rng';
+import { RunRecord, RunSummary } from './runs';
+import { applyStepToStats, SimConfig, stepSimulation, StepResult } from './simulation';
+
+// Multiples of real time (one tick per `dt`), or as fast as the worker can step
+export type Speed = 1 | 10 | 100 | 'max';
+
+export const SPEEDS: Speed[] = [1, 10, 100, 'max'];
+
+export const FRAME_MS = 50;
+// Max time a frame may spend stepping, so the worker still reads messages between frames
+export const FRAME_BUDGET_MS = 40;
+
+export interface ChartPoint {
+  time: number; // Sim seconds
+  price: number;
+  reservation: number;
+  bid: number;
+  ask: number;
+  inventory: number;
+  theoreticalSpread?: number;
+  realisedSpread: number;
+  buyFill?: number;  // Price of one of our buys since the previous point (chart marker)
+  sellFill?: number;
+}
+
+export interface Session {
+  state: SimState;
+  stats: SimulationStats;
+  blotter: Blotter;
+}
+
+export type SimWorkerRequest =
+  | { type: 'reset'; config: SimConfig; state: SimState; stats: SimulationStats; seed: number }
+  | { type: 'config'; config: SimConfig }
+  | { type: 'load'; session: Session } // Continue from a session stepped elsewhere (live feed)
+  | { type: 'play'; speed: Speed }
+  | { type: 'pause' }
+  | { type: 'releaseKillSwitch' }
+  | { type: 'injectScenario'; scenario: Scenario }
+  | { type: 'exportRun' }               // Reply with the run recorded since the last reset
+  | { type: 'replay'; run: RunRecord }; // Replay a saved run from its seed and keep recording onto it
+
+export type SimWorkerMessage =
+  | {
+      type: 'batch';
+      session: Session;
+      points: ChartPoint[]; // At most one per frame: the chart is downsampled to the frame rate
+      ticks: number;        // Ticks stepped in this frame
+      ticksPerSecond: number;
+    }
+  | { type: 'run'; run: RunRecord }
+  // `verified`: the replay ended on the PnL the run was saved with
+  | { type: 'replayed'; run: RunSummary; config: SimConfig; seed: number; verified: boolean };
+
+export const chartPoint = ({ state, events }: StepResult): ChartPoint => {
+  const quote = events.find(e => e.type === 'quote');
+  const fill = (side: 'buy' | 'sell') => events.find(e => e.type === 'fill' && e.side === side);
+  const buy = fill('buy');
+  const sell = fill('sell');
+  return {
+    time: state.time,
+    price: state.midPrice,
+    reservation: state.reservationPrice,
+    bid: state.myBid,
+    ask: state.myAsk,
+    inventory: state.inventory,
+    theoreticalSpread: quote?.type === 'quote' ? quote.theoreticalSpread : undefined,
+    realisedSpread: state.myAsk - state.myBid,
+    buyFill: buy?.type === 'fill' ? buy.price : undefined,
+    sellFill: sell?.type === 'fill' ? sell.price : undefined,
+  };
+};
+
+/**
+ * Steps up to `due` ticks (Infinity = until the budget runs out) and returns the advanced session
+ * with the chart point of the last tick, carrying the frame's last fill on each side as markers.
+ * Stops early once `budgetMs` of wall time is used. `onStep` sees every tick. The blotter is updated in place.
+ */
+export const advanceFrame = (
+  session: Session,
+  config: SimConfig,
+  rng: Rng,
+  due: number,
+  budgetMs: number,
+  now: () => number,
+  onStep?: (result: StepResult, stats: SimulationStats) => void
+): { session: Session; ticks: number; point?: ChartPoint } => {
+  const start = now();
+  let { state, stats } = session;
+  let last: StepResult | undefined;
+  let ticks = 0;
+  let buyFill: number | undefined;
+  let sellFill: number | undefined;
+  while (ticks < due && now() - start < budgetMs) {
+    last = stepSimulation(state, config, rng);
+    state = last.state;
+    stats = applyStepToStats(stats, last);
+    recordFills(session.blotter, last);
+    onStep?.(last, stats);
+    for (const e of last.events) {
+      if (e.type !== 'fill') continue;
+      if (e.side === 'buy') buyFill = e.price;
+      else sellFill = e.price;
+    }
+    ticks++;
+  }
+  const point = last && { ...chartPoint(last), buyFill, sellFill };
+  return { session: { state, stats, blotter: session.blotter }, ticks, point };
+};
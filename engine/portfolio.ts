@@ -0,0 +1,180 @@
+// Multi-asset market making: one simulated book per coin, correlated price shocks and cross-asset inventory skew.
+import { HedgeContext, SimState, SimulationStats } from '../types';
+import { UNIFORM_STD } from './marketModels';
+import { gaussian, Rng } from './rng';
+import { advanceSimulation, applyStepToStats, createInitialSimState, createInitialStats, markToMarketPnl, SimConfig, SimEvent } from './simulation';
+
+export interface CoinSpec {
+  coin: string;
+  initialPrice: number;
+  tickSize: number;
+  lotSize: number;      // Order size increment (coins)
+  quoteSize: number;    // Size of each quote; rounded to whole lots
+  riskAversion: number; // γ in this coin's price/size units
+  volatility: number;   // Price units per tick, same convention as SimConfig.volatility
+  maxPosition: number;  // Coins
+  maxNotional: number;  // USDC
+}
+
+export interface PortfolioConfig {
+  coins: CoinSpec[];
+  correlations: Record<string, number>; // Keyed by pairKey(a, b); missing pairs are uncorrelated
+  maxHedgedNotional: number;            // Limit on correlation-adjusted exposure (USDC)
+}
+
+export interface PortfolioState {
+  coins: SimState[]; // Same order as PortfolioConfig.coins
+  stats: SimulationStats[];
+  time: number;
+}
+
+export interface PortfolioStep {
+  state: PortfolioState;
+  events: SimEvent[][];
+}
+
+export interface PortfolioSummary {
+  pnl: number;
+  netDelta: number;       // Σ qᵢ·sᵢ (USDC)
+  grossNotional: number;  // Σ |qᵢ·sᵢ|
+  hedgedNotional: number; // √(δᵀ ρ δ): what the book is really exposed to once correlation is netted
+  tickRisk: number;       // 1-tick σ of portfolio value (USDC) under the simulated price process
+  utilisation: number;    // Worst of the per-coin and portfolio limits, 1 = at a limit
+  coinUtilisation: number[];
+}
+
+// Sizes and ticks loosely follow Hyperliquid; γ is scaled so one quote of inventory skews each coin by a similar number of ticks
+export const COIN_SPECS: CoinSpec[] = [
+  { coin: 'BTC', initialPrice: 65000, tickSize: 1, lotSize: 0.001, quoteSize: 0.01, riskAversion: 10, volatility: 5, maxPosition: 0.1, maxNotional: 10000 },
+  { coin: 'ETH', initialPrice: 3450, tickSize: 0.1, lotSize: 0.01, quoteSize: 0.2, riskAversion: 0.5, volatility: 0.5, maxPosition: 2, maxNotional: 10000 },
+  { coin: 'SOL', initialPrice: 150, tickSize: 0.01, lotSize: 0.1, quoteSize: 5, riskAversion: 0.02, volatility: 0.05, maxPosition: 50, maxNotional: 10000 },
+];
+
+export const pairKey = (a: string, b: string): string => [a, b].sort().join('/');
+
+export const DEFAULT_PORTFOLIO: PortfolioConfig = {
+  coins: COIN_SPECS,
+  correlations: { [pairKey('BTC', 'ETH')]: 0.8, [pairKey('BTC', 'SOL')]: 0.7, [pairKey('ETH', 'SOL')]: 0.75 },
+  maxHedgedNotional: 15000,
+};
+
+export const roundToLot = (size: number, lot: number): number => Math.max(1, Math.round(size / lot)) * lot;
+
+export const correlationMatrix = (config: PortfolioConfig): number[][] =>
+  config.coins.map(a => config.coins.map(b => (a.coin === b.coin ? 1 : config.correlations[pairKey(a.coin, b.coin)] ?? 0)));
+
+// Lower-triangular L with L·Lᵀ = ρ. A matrix that is not positive definite is floored rather than rejected.
+const cholesky = (m: number[][]): number[][] => {
+  const n = m.length;
+  const l = m.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = m[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      l[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-9)) : sum / l[j][j];
+    }
+  }
+  return l;
+};
+
+/** Per-coin SimConfig: the shared settings (fees, funding, latency, loss limits) with this coin's instrument and γ. */
+export const coinConfig = (spec: CoinSpec, base: SimConfig): SimConfig => {
+  const quoteSize = roundToLot(spec.quoteSize, spec.lotSize);
+  return {
+    ...base,
+    // Simplified A-S and the book fill model are scale-free in ticks, unlike the Poisson hit model and the closed-form spread
+    strategy: { id: 'avellanedaStoikov', params: { riskAversion: spec.riskAversion, closedForm: 0, horizon: 60 } },
+    volatility: spec.volatility,
+    fillModel: 'book',
+    tickSize: spec.tickSize,
+    quoteSize,
+    bookFlow: { ...base.bookFlow, sizeUnit: quoteSize },
+    risk: { ...base.risk, maxInventory: spec.maxPosition, maxNotional: spec.maxNotional },
+  };
+};
+
+/**
+ * Inventory held elsewhere, expressed in each coin's own units: Σⱼ≠ᵢ ρᵢⱼ·(σⱼ/σᵢ)·qⱼ.
+ * Added to qᵢ it gives γσᵢ²·q_eff = γ·Σⱼ Cov(i, j)·qⱼ, the multi-asset reservation price skew.
+ */
+export const crossInventories = (coins: SimState[], config: PortfolioConfig): number[] => {
+  const rho = correlationMatrix(config);
+  return config.coins.map((spec, i) =>
+    config.coins.reduce((sum, other, j) => (j === i ? sum : sum + rho[i][j] * (other.volatility / spec.volatility) * coins[j].inventory), 0)
+  );
+};
+
+/**
+ * What each coin's risk check needs to hold the portfolio's correlation-adjusted notional, √(δᵀ ρ δ), under
+ * `maxHedgedNotional`: the other coins' deltas weighted by their correlation with it, and their own part of δᵀ ρ δ.
+ */
+export const hedgeContexts = (coins: SimState[], config: PortfolioConfig): HedgeContext[] => {
+  const rho = correlationMatrix(config);
+  const deltas = coins.map(c => c.inventory * c.midPrice);
+  return deltas.map((_, i) => {
+    let cross = 0;
+    let rest = 0;
+    deltas.forEach((dj, j) => {
+      if (j === i) return;
+      cross += rho[i][j] * dj;
+      deltas.forEach((dk, k) => {
+        if (k !== i) rest += dj * dk * rho[j][k];
+      });
+    });
+    return { cross, rest, limit: config.maxHedgedNotional };
+  });
+};
+
+export const createPortfolioState = (config: PortfolioConfig, base: SimConfig): PortfolioState => ({
+  coins: config.coins.map(spec => createInitialSimState(coinConfig(spec, base), spec.initialPrice)),
+  stats: config.coins.map(() => createInitialStats()),
+  time: 0,
+});
+
+/**
+ * One tick for every coin: correlated fair-value shocks, then each coin quotes and matches on its own book.
+ * A coin stops quoting the side that would push the portfolio's hedged notional past its limit.
+ */
+export const stepPortfolio = (prev: PortfolioState, config: PortfolioConfig, base: SimConfig, rng: Rng): PortfolioStep => {
+  const l = cholesky(correlationMatrix(config));
+  const shocks = config.coins.map(() => gaussian(rng));
+  const cross = crossInventories(prev.coins, config);
+  const hedges = hedgeContexts(prev.coins, config);
+
+  const results = config.coins.map((spec, i) => {
+    const coin = prev.coins[i];
+    const z = l[i].reduce((sum, lij, j) => sum + lij * shocks[j], 0);
+    const fair = (coin.book?.fairValue ?? coin.midPrice) + z * spec.volatility * UNIFORM_STD;
+    return advanceSimulation({ ...coin, crossInventory: cross[i], hedge: hedges[i] }, fair, coinConfig(spec, base), rng);
+  });
+
+  return {
+    state: {
+      coins: results.map(r => r.state),
+      stats: results.map((r, i) => applyStepToStats(prev.stats[i], r)),
+      time: prev.time + base.dt,
+    },
+    events: results.map(r => r.events),
+  };
+};
+
+export const summarizePortfolio = (state: PortfolioState, config: PortfolioConfig): PortfolioSummary => {
+  const rho = correlationMatrix(config);
+  const deltas = state.coins.map(c => c.inventory * c.midPrice);
+  const priceRisk = state.coins.map((c, i) => c.inventory * config.coins[i].volatility * UNIFORM_STD);
+  const quad = (v: number[]) => Math.sqrt(Math.max(0, v.reduce((sum, vi, i) => sum + v.reduce((s, vj, j) => s + vi * vj * rho[i][j], 0), 0)));
+
+  const hedgedNotional = quad(deltas);
+  const coinUtilisation = config.coins.map((spec, i) =>
+    Math.max(Math.abs(state.coins[i].inventory) / spec.maxPosition, Math.abs(deltas[i]) / spec.maxNotional)
+  );
+  return {
+    pnl: state.coins.reduce((sum, c) => sum + markToMarketPnl(c), 0),
+    netDelta: deltas.reduce((a, b) => a + b, 0),
+    grossNotional: deltas.reduce((a, b) => a + Math.abs(b), 0),
+    hedgedNotional,
+    tickRisk: quad(priceRisk),
+    utilisation: Math.max(hedgedNotional / config.maxHedgedNotional, ...coinUtilisation),
+    coinUtilisation,
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createRiskState, DEFAULT_RISK_LIMITS, evaluateRisk, recordOrders, RiskInput, riskRoom } from './risk';
+
+const input = (over: Partial<RiskInput> = {}): RiskInput => ({ time: 0, inventory: 0, mid: 1000, pnl: 0, quoteSize: 1, ...over });
+
+describe('evaluateRisk', () => {
+  it('quotes both sides well inside the limits', () => {
+    const risk = evaluateRisk(createRiskState(), input(), DEFAULT_RISK_LIMITS);
+    expect(risk.suppressBid).toBe(false);
+    expect(risk.suppressAsk).toBe(false);
+    expect(risk.halted).toBe(false);
+    expect(risk.breaches).toHaveLength(0);
+  });
+
+  it('suppresses the side that would take the position past maxInventory', () => {
+    const long = evaluateRisk(createRiskState(), input({ inventory: 10 }), DEFAULT_RISK_LIMITS);
+    expect(long.suppressBid).toBe(true);
+    expect(long.suppressAsk).toBe(false);
+    expect(long.breaches.map(b => b.rule)).toContain('maxInventory');
+
+    const short = evaluateRisk(createRiskState(), input({ inventory: -10 }), DEFAULT_RISK_LIMITS);
+    expect(short.suppressAsk).toBe(true);
+    expect(short.suppressBid).toBe(false);
+  });
+
+  it('suppresses bids past maxNotional', () => {
+    const risk = evaluateRisk(createRiskState(), input({ inventory: 5, mid: 3000 }), DEFAULT_RISK_LIMITS);
+    expect(risk.suppressBid).toBe(true);
+    expect(risk.active).toContain('maxNotional:suppressBid');
+  });
+
+  it('fires the kill-switch on drawdown from the peak and keeps it latched', () => {
+    const peaked = evaluateRisk(createRiskState(), input({ pnl: 300 }), DEFAULT_RISK_LIMITS);
+    const fallen = evaluateRisk(peaked, input({ time: 1, pnl: 300 - DEFAULT_RISK_LIMITS.maxDrawdown - 1 }), DEFAULT_RISK_LIMITS);
+    expect(fallen.halted).toBe(true);
+    expect(fallen.haltReason).toBeDefined();
+
+    const recovered = evaluateRisk(fallen, input({ time: 2, pnl: 300 }), DEFAULT_RISK_LIMITS);
+    expect(recovered.halted).toBe(true);
+  });
+
+  it('throttles at the order-rate limit within one second', () => {
+    const busy = recordOrders(createRiskState(), 0, DEFAULT_RISK_LIMITS.maxOrderRate);
+    expect(evaluateRisk(busy, input({ time: 0.5 }), DEFAULT_RISK_LIMITS).throttled).toBe(true);
+    expect(evaluateRisk(busy, input({ time: 1.5 }), DEFAULT_RISK_LIMITS).throttled).toBe(false);
+  });
+
+  it('logs a breach once while it keeps firing', () => {
+    const first = evaluateRisk(createRiskState(), input({ inventory: 10 }), DEFAULT_RISK_LIMITS);
+    const second = evaluateRisk(first, input({ time: 1, inventory: 10 }), DEFAULT_RISK_LIMITS);
+    expect(second.breaches).toHaveLength(first.breaches.length);
+  });
+
+  it('does nothing when disabled', () => {
+    const risk = evaluateRisk(createRiskState(), input({ inventory: 50, pnl: -5000 }), { ...DEFAULT_RISK_LIMITS, enabled: false });
+    expect(risk.suppressBid || risk.suppressAsk || risk.halted).toBe(false);
+  });
+});
+
+describe('riskRoom', () => {
+  it('leaves room up to maxInventory on each side', () => {
+    expect(riskRoom(input({ inventory: 7 }), DEFAULT_RISK_LIMITS)).toEqual({ bid: 3, ask: 17 });
+    expect(riskRoom(input({ inventory: 12 }), DEFAULT_RISK_LIMITS).bid).toBe(0);
+  });
+
+  it('is bound by maxNotional at high prices', () => {
+    expect(riskRoom(input({ mid: 3000 }), DEFAULT_RISK_LIMITS).bid).toBeCloseTo(5, 10);
+  });
+
+  it('stops at the hedged notional limit', () => {
+    const hedge = { cross: 0, rest: 0, limit: 4000 };
+    const room = riskRoom(input({ inventory: 1, hedge }), DEFAULT_RISK_LIMITS);
+    expect(room.bid).toBeCloseTo(3, 10);
+    expect(room.ask).toBeCloseTo(5, 10);
+  });
+
+  it('is unbounded when the risk layer is off', () => {
+    expect(riskRoom(input({ inventory: 50 }), { ...DEFAULT_RISK_LIMITS, enabled: false }).bid).toBe(Infinity);
+  });
+});
@@ -0,0 +1,154 @@
+// Pre-trade risk layer (step 4 of process_tick): sits between quote calculation and the matching engine.
+import { HedgeContext, RiskBreach, RiskRule, RiskState } from '../types';
+
+export interface RiskLimits {
+  enabled: boolean;
+  maxInventory: number;   // Max absolute position (coins)
+  maxNotional: number;    // Max absolute position value (USDC)
+  maxDrawdown: number;    // Max drop from peak PnL (USDC) before the kill-switch fires
+  dailyLossLimit: number; // Max loss since the start of the session day (USDC)
+  maxOrderRate: number;   // Max order placements per second
+}
+
+export interface RiskInput {
+  time: number;
+  inventory: number;
+  mid: number;
+  pnl: number;
+  quoteSize: number;
+  hedge?: HedgeContext; // Multi-asset: the correlation-adjusted notional limit applies too
+}
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  enabled: true,
+  maxInventory: 10,
+  maxNotional: 15000,
+  maxDrawdown: 500,
+  dailyLossLimit: 1000,
+  maxOrderRate: 50,
+};
+
+const MAX_BREACH_LOG = 50;
+const SECONDS_PER_DAY = 86400;
+
+export const createRiskState = (): RiskState => ({
+  suppressBid: false,
+  suppressAsk: false,
+  throttled: false,
+  halted: false,
+  peakPnl: 0,
+  day: 0,
+  dayStartPnl: 0,
+  orderTimes: [],
+  active: [],
+  breaches: [],
+});
+
+/** Clears the kill-switch and re-arms the loss limits from the current PnL. The breach log is kept. */
+export const resetKillSwitch = (state: RiskState, pnl: number): RiskState => ({
+  ...state,
+  halted: false,
+  haltReason: undefined,
+  peakPnl: pnl,
+  dayStartPnl: pnl,
+  active: [],
+});
+
+/** Re-evaluates every limit for the upcoming quote. Newly firing rules are appended to the breach log. */
+export const evaluateRisk = (prev: RiskState, input: RiskInput, limits: RiskLimits): RiskState => {
+  const now = input.time;
+  const orderTimes = prev.orderTimes.filter(t => now - t < 1);
+  const peakPnl = Math.max(prev.peakPnl, input.pnl);
+  const day = Math.floor(now / SECONDS_PER_DAY);
+  const dayStartPnl = day !== prev.day ? input.pnl : prev.dayStartPnl;
+  const base = { ...prev, orderTimes, peakPnl, day, dayStartPnl };
+
+  if (!limits.enabled) {
+    return { ...base, suppressBid: false, suppressAsk: false, throttled: false, halted: false, haltReason: undefined, active: [] };
+  }
+
+  const firing: Omit<RiskBreach, 'time'>[] = [];
+  const fire = (rule: RiskRule, action: RiskBreach['action'], reason: string) => firing.push({ rule, action, reason });
+  const { inventory, mid, quoteSize } = input;
+
+  if (inventory + quoteSize > limits.maxInventory) {
+    fire('maxInventory', 'suppressBid', `持仓 ${inventory} 已达上限 ${limits.maxInventory}，停止买入报价`);
+  }
+  if (inventory - quoteSize < -limits.maxInventory) {
+    fire('maxInventory', 'suppressAsk', `持仓 ${inventory} 已达上限 -${limits.maxInventory}，停止卖出报价`);
+  }
+  if (Math.abs(inventory + quoteSize) * mid > limits.maxNotional && inventory >= 0) {
+    fire('maxNotional', 'suppressBid', `多头名义价值将超过 $${limits.maxNotional}`);
+  }
+  if (Math.abs(inventory - quoteSize) * mid > limits.maxNotional && inventory <= 0) {
+    fire('maxNotional', 'suppressAsk', `空头名义价值将超过 $${limits.maxNotional}`);
+  }
+  if (input.hedge) {
+    // √(δ² + 2δ·Σρδⱼ + rest): the portfolio's hedged notional with this coin at `q`
+    const { cross, rest, limit } = input.hedge;
+    const hedged = (q: number) => Math.sqrt(Math.max(0, (q * mid) ** 2 + 2 * q * mid * cross + rest));
+    const current = hedged(inventory);
+    if (hedged(inventory + quoteSize) > limit && hedged(inventory + quoteSize) > current) {
+      fire('maxHedgedNotional', 'suppressBid', `组合对冲后名义价值将超过 $${limit}，停止买入报价`);
+    }
+    if (hedged(inventory - quoteSize) > limit && hedged(inventory - quoteSize) > current) {
+      fire('maxHedgedNotional', 'suppressAsk', `组合对冲后名义价值将超过 $${limit}，停止卖出报价`);
+    }
+  }
+  if (peakPnl - input.pnl > limits.maxDrawdown) {
+    fire('maxDrawdown', 'halt', `回撤 $${(peakPnl - input.pnl).toFixed(2)} 超过 $${limits.maxDrawdown}，熔断`);
+  }
+  if (dayStartPnl - input.pnl > limits.dailyLossLimit) {
+    fire('dailyLoss', 'halt', `当日亏损 $${(dayStartPnl - input.pnl).toFixed(2)} 超过 $${limits.dailyLossLimit}，熔断`);
+  }
+  if (orderTimes.length >= limits.maxOrderRate) {
+    fire('orderRate', 'throttle', `1 秒内下单 ${orderTimes.length} 次，达到 ${limits.maxOrderRate}/s 上限`);
+  }
+
+  const keys = firing.map(f => `${f.rule}:${f.action}`);
+  const newBreaches = firing
+    .filter((_, i) => !prev.active.includes(keys[i]))
+    .map(f => ({ ...f, time: now }));
+  const halt = firing.find(f => f.action === 'halt');
+
+  return {
+    ...base,
+    suppressBid: firing.some(f => f.action === 'suppressBid'),
+    suppressAsk: firing.some(f => f.action === 'suppressAsk'),
+    throttled: firing.some(f => f.action === 'throttle'),
+    halted: prev.halted || !!halt,
+    haltReason: prev.halted ? prev.haltReason : halt?.reason,
+    active: keys,
+    breaches: newBreaches.length ? [...prev.breaches, ...newBreaches].slice(-MAX_BREACH_LOG) : prev.breaches,
+  };
+};
+
+/**
+ * How much more each side may rest before a position limit would be crossed if it all filled. The grid keeps
+ * several levels per side, so its levels are cut to this room; a side with no room for one quote is suppressed
+ * by `evaluateRisk`. Sides that reduce the position are never cut.
+ */
+export const riskRoom = (input: RiskInput, limits: RiskLimits): { bid: number; ask: number } => {
+  if (!limits.enabled) return { bid: Infinity, ask: Infinity };
+  const { inventory, mid } = input;
+  let bid = Math.min(limits.maxInventory - inventory, limits.maxNotional / mid - inventory);
+  let ask = Math.min(limits.maxInventory + inventory, limits.maxNotional / mid + inventory);
+  if (input.hedge) {
+    // Positions whose hedged notional stays within the limit, or within the current one when already above it:
+    // the roots of (q·mid)² + 2q·mid·cross + rest = level
+    const { cross, rest, limit } = input.hedge;
+    const x = inventory * mid;
+    const level = Math.max(limit ** 2, x ** 2 + 2 * x * cross + rest);
+    const half = Math.sqrt(Math.max(0, cross ** 2 - rest + level));
+    bid = Math.min(bid, (half - cross) / mid - inventory);
+    ask = Math.min(ask, inventory + (half + cross) / mid);
+  }
+  return { bid: Math.max(0, bid), ask: Math.max(0, ask) };
+};
+
+/** Records `count` order placements at `time` for the order-rate limit. */
+export const recordOrders = (state: RiskState, time: number, count: number): RiskState =>
+  count > 0 ? { ...state, orderTimes: [...state.orderTimes, ...Array(count).fill(time)] } : state;
+
+export const canQuoteBid = (state: RiskState): boolean => !state.halted && !state.suppressBid;
+export const canQuoteAsk = (state: RiskState): boolean => !state.halted && !state.suppressAsk;
@@ -0,0 +1,62 @@
+// Saved runs in IndexedDB. Summaries live in their own store so the history list never loads tick data.
+import { RunRecord, RunSummary, summarizeRun } from './runs';
+
+const DB_NAME = 'mm-simulator';
+const DB_VERSION = 1;
+const RUNS = 'runs';
+const SUMMARIES = 'runSummaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(RUNS, { keyPath: 'id' });
+      req.result.createObjectStore(SUMMARIES, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+};
+
+const completed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const result = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+/** Saves (or overwrites, by id) a run and its summary. */
+export const saveRun = async (run: RunRecord): Promise<void> => {
+  const tx = (await openDb()).transaction([RUNS, SUMMARIES], 'readwrite');
+  tx.objectStore(RUNS).put(run);
+  tx.objectStore(SUMMARIES).put(summarizeRun(run));
+  return completed(tx);
+};
+
+/** Every saved run, newest first. */
+export const listRuns = async (): Promise<RunSummary[]> => {
+  const summaries = await result<RunSummary[]>((await openDb()).transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadRun = async (id: string): Promise<RunRecord | undefined> =>
+  result<RunRecord | undefined>((await openDb()).transaction(RUNS).objectStore(RUNS).get(id));
+
+export const deleteRun = async (id: string): Promise<void> => {
+  const tx = (await openDb()).transaction([RUNS, SUMMARIES], 'readwrite');
+  tx.objectStore(RUNS).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  return completed(tx);
+};
@@ -0,0 +1,212 @@
+// Recorded Simulation runs: config, seed and every change made while running, so any run can be replayed
+// tick for tick, plus its tick history, fills and stats for export.
+import { Scenario, SimulationStats } from '../types';
+import { createBlotter, Fill, recordFills, stepFills } from './blotter';
+import { getMarketModel } from './marketModels';
+import { Session } from './playback';
+import { resetKillSwitch } from './risk';
+import { createRng, Rng } from './rng';
+import { startScenario } from './scenarios';
+import {
+  applyStepToStats,
+  createInitialSimState,
+  createInitialStats,
+  DEFAULT_SIM_CONFIG,
+  markToMarketPnl,
+  SimConfig,
+  stepSimulation,
+  StepResult
+} from './simulation';
+import { getStrategy } from './strategies';
+
+export const RUN_VERSION = 1;
+
+// Tick and fill history stop here (about 80 min at real time); the stats and a replay from the seed still cover the whole run
+export const MAX_RUN_TICKS = 100_000;
+
+export interface RunTick {
+  time: number;
+  mid: number;
+  fair: number; // Fair value behind the book (equals mid in the Poisson model)
+  bid: number;
+  ask: number;
+  inventory: number;
+  pnl: number;
+}
+
+// Something the user did mid-run, applied before tick `tick` is stepped
+export type RunAction =
+  | { tick: number; type: 'config'; config: SimConfig }
+  | { tick: number; type: 'releaseKillSwitch' }
+  | { tick: number; type: 'scenario'; scenario: Scenario };
+
+export interface RunRecord {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  seed: number;
+  config: SimConfig;     // As the run started
+  actions: RunAction[];
+  tickCount: number;
+  replayable: boolean;   // False once live-feed ticks, which the seed cannot reproduce, were mixed in
+  ticks: RunTick[];      // The first MAX_RUN_TICKS ticks
+  fills: Fill[];         // Fills within those ticks
+  stats: SimulationStats;
+}
+
+export type RunSummary = Pick<RunRecord, 'id' | 'name' | 'createdAt' | 'seed' | 'tickCount' | 'replayable'> & {
+  pnl: number;
+  fills: number;
+  duration: number;   // Sim seconds
+  truncated: boolean; // Longer than the recorded tick and fill history
+};
+
+export const runName = (config: SimConfig, seed: number): string =>
+  `${getStrategy(config.strategy.id).label} · ${getMarketModel(config.market.model).label} · seed ${seed}`;
+
+export const createRun = (config: SimConfig, seed: number, now = Date.now()): RunRecord => ({
+  version: RUN_VERSION,
+  id: `run-${now}-${seed}`,
+  name: runName(config, seed),
+  createdAt: now,
+  seed,
+  config,
+  actions: [],
+  tickCount: 0,
+  replayable: true,
+  ticks: [],
+  fills: [],
+  stats: createInitialStats(),
+});
+
+export const summarizeRun = (run: RunRecord): RunSummary => ({
+  id: run.id,
+  name: run.name,
+  createdAt: run.createdAt,
+  seed: run.seed,
+  tickCount: run.tickCount,
+  replayable: run.replayable,
+  pnl: run.stats.pnl,
+  fills: run.stats.trades,
+  duration: run.tickCount * run.config.dt,
+  truncated: run.tickCount > MAX_RUN_TICKS,
+});
+
+/** Appends one stepped tick to `run` (mutates it: the worker records at full speed). */
+export const recordStep = (run: RunRecord, result: StepResult, stats: SimulationStats) => {
+  const { state } = result;
+  run.tickCount++;
+  run.stats = stats;
+  if (run.tickCount > MAX_RUN_TICKS) return;
+  run.ticks.push({
+    time: state.time,
+    mid: state.midPrice,
+    fair: state.book?.fairValue ?? state.midPrice,
+    bid: state.myBid,
+    ask: state.myAsk,
+    inventory: state.inventory,
+    pnl: stats.pnl,
+  });
+  run.fills.push(...stepFills(result));
+};
+
+/** Records a mid-run change (mutates `run`). A config equal to the one in force is not a change. */
+export const recordAction = (
+  run: RunRecord,
+  action: { type: 'config'; config: SimConfig } | { type: 'releaseKillSwitch' } | { type: 'scenario'; scenario: Scenario }
+) => {
+  if (action.type === 'config' && JSON.stringify(action.config) === JSON.stringify(configAt(run, run.tickCount))) return;
+  run.actions.push({ ...action, tick: run.tickCount });
+};
+
+// The config in force before tick `tick` is stepped
+const configAt = (run: RunRecord, tick: number): SimConfig =>
+  run.actions.reduce((c, a) => (a.type === 'config' && a.tick <= tick ? a.config : c), run.config);
+
+/**
+ * Re-runs `run` from its seed, applying its recorded actions at the same ticks. Returns the session, the config
+ * in force at the end and the generator, positioned to continue exactly where the run stopped.
+ */
+export const replayRun = (
+  run: RunRecord,
+  onStep?: (result: StepResult, index: number) => void
+): { session: Session; config: SimConfig; rng: Rng } => {
+  const rng = createRng(run.seed);
+  let config = run.config;
+  let state = createInitialSimState(config);
+  let stats = createInitialStats();
+  const blotter = createBlotter();
+  let next = 0;
+  const applyActions = (tick: number) => {
+    for (; next < run.actions.length && run.actions[next].tick <= tick; next++) {
+      const action = run.actions[next];
+      if (action.type === 'config') config = action.config;
+      else if (action.type === 'scenario') state = startScenario(state, action.scenario);
+      else state = { ...state, risk: resetKillSwitch(state.risk, markToMarketPnl(state)) };
+    }
+  };
+  for (let i = 0; i < run.tickCount; i++) {
+    applyActions(i);
+    const result = stepSimulation(state, config, rng);
+    state = result.state;
+    stats = applyStepToStats(stats, result);
+    recordFills(blotter, result);
+    onStep?.(result, i);
+  }
+  applyActions(run.tickCount);
+  return { session: { state, stats, blotter }, config, rng };
+};
+
+const csv = (header: string[], rows: (string | number)[][]): string =>
+  [header.join(','), ...rows.map(r => r.join(','))].join('\n');
+
+export const ticksCsv = (run: RunRecord): string =>
+  csv(
+    ['time', 'mid', 'fair', 'bid', 'ask', 'inventory', 'pnl'],
+    run.ticks.map(t => [t.time, t.mid, t.fair, t.bid, t.ask, t.inventory, t.pnl])
+  );
+
+export const fillsCsv = (run: RunRecord): string =>
+  csv(
+    ['time', 'side', 'price', 'size', 'fee', 'liquidity', 'inventory'],
+    run.fills.map(f => [f.time, f.side, f.price, f.size, f.fee, f.liquidity, f.inventory])
+  );
+
+// Older exports lack config sections added since; they take today's defaults, except that runs recorded
+// before the request rate limit and the margin model existed quoted without them
+const withDefaults = (config: Partial<SimConfig>): SimConfig => ({
+  ...DEFAULT_SIM_CONFIG,
+  rateLimit: { ...DEFAULT_SIM_CONFIG.rateLimit, enabled: false },
+  margin: { ...DEFAULT_SIM_CONFIG.margin, enabled: false },
+  ...config,
+});
+
+/** Reads an exported run. Throws with a user-facing message if the file is not one. */
+export const parseRun = (text: string): RunRecord => {
+  let raw: Partial<RunRecord>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  if (typeof raw !== 'object' || raw === null || typeof raw.seed !== 'number' || typeof raw.config !== 'object' || typeof raw.tickCount !== 'number') {
+    throw new Error('缺少 seed / config / tickCount，不是导出的运行记录');
+  }
+  if ((raw.version ?? 0) > RUN_VERSION) throw new Error(`运行记录版本 ${raw.version} 高于当前支持的 ${RUN_VERSION}`);
+  const config = withDefaults(raw.config);
+  return {
+    version: RUN_VERSION,
+    id: raw.id ?? `run-${Date.now()}-${raw.seed}`,
+    name: raw.name ?? runName(config, raw.seed),
+    createdAt: raw.createdAt ?? Date.now(),
+    seed: raw.seed,
+    config,
+    actions: (raw.actions ?? []).map(a => (a.type === 'config' ? { ...a, config: withDefaults(a.config) } : a)),
+    tickCount: raw.tickCount,
+    replayable: raw.replayable ?? true,
+    ticks: raw.ticks ?? [],
+    fills: raw.fills ?? [],
+    stats: { ...createInitialStats(), ...raw.stats },
+  };
+};
@@ -0,0 +1,239 @@
+// Stress-scenario library: scripted events injected into a running simulation or backtest, and what the quoter
+// went through while they played out. Scenarios are plain data; add one by appending to SCENARIOS.
+import { RiskRule, Scenario, ScenarioEffect, ScenarioReport, SimState, StressEffects, StressState } from '../types';
+import { markToMarketPnl, SimConfig } from './simulation';
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'flash-crash',
+    name: '闪崩 (Flash Crash)',
+    description: '2 秒内下跌 6%，盘口流动性同时撤走七成，随后 30 秒内反弹到 -1%',
+    duration: 60,
+    steps: [
+      { at: 0, duration: 35, effect: { type: 'price', path: [[0, 0], [2, -0.06], [5, -0.06], [35, -0.01]] } },
+      { at: 0, duration: 8, effect: { type: 'liquidity', remaining: 0.3 } },
+    ],
+  },
+  {
+    id: 'toxic-buyers',
+    name: '单边毒性流 (Toxic Flow)',
+    description: '知情买方持续 30 秒扫我们的卖单，价格随之每秒上涨 0.05%',
+    duration: 60,
+    steps: [{ at: 0, duration: 30, effect: { type: 'toxicFlow', side: 'buy', intensity: 4, drift: 0.0005 } }],
+  },
+  {
+    id: 'vol-x5',
+    name: '波动率 ×5 (Vol Spike)',
+    description: '生成器的 σ 放大 5 倍，持续 30 秒；策略参数不变',
+    duration: 60,
+    steps: [{ at: 0, duration: 30, effect: { type: 'volatility', multiplier: 5 } }],
+  },
+  {
+    id: 'liquidity-vacuum',
+    name: '流动性撤离 (Liquidity Vacuum)',
+    description: '其他做市商撤走 90% 挂单，持续 20 秒',
+    duration: 45,
+    steps: [{ at: 0, duration: 20, effect: { type: 'liquidity', remaining: 0.1 } }],
+  },
+  {
+    id: 'feed-gap',
+    name: '行情中断 (Feed Gap)',
+    description: 'WebSocket 断开 5 秒，报价停在旧价格，期间价格下跌 0.8%',
+    duration: 30,
+    steps: [
+      { at: 0, duration: 5, effect: { type: 'feedGap' } },
+      { at: 0, duration: 5, effect: { type: 'price', path: [[0, 0], [5, -0.008]] } },
+    ],
+  },
+  {
+    id: 'order-rejects',
+    name: '交易所拒单 (Order Rejects)',
+    description: '10 秒内 80% 的新挂单被交易所拒绝',
+    duration: 30,
+    steps: [{ at: 0, duration: 10, effect: { type: 'rejects', rate: 0.8 } }],
+  },
+];
+
+export const NO_STRESS: StressEffects = {
+  priceShift: 0,
+  volatility: 1,
+  liquidity: 1,
+  toxic: null,
+  feedStale: false,
+  rejectRate: 0,
+};
+
+export const SCENARIO_EFFECT_LABELS: Record<ScenarioEffect['type'], string> = {
+  price: '价格冲击',
+  volatility: '波动率',
+  liquidity: '流动性',
+  toxicFlow: '毒性流',
+  feedGap: '行情中断',
+  rejects: '拒单',
+};
+
+// Piecewise-linear interpolation; held flat before the first and after the last point
+const interpolate = (path: [number, number][], t: number): number => {
+  if (path.length === 0) return 0;
+  if (t <= path[0][0]) return path[0][1];
+  for (let i = 1; i < path.length; i++) {
+    const [t1, v1] = path[i];
+    const [t0, v0] = path[i - 1];
+    if (t <= t1) return t1 === t0 ? v1 : v0 + ((v1 - v0) * (t - t0)) / (t1 - t0);
+  }
+  return path[path.length - 1][1];
+};
+
+/**
+ * The effects in force `time` seconds into the session. Price moves accumulate and persist after their step
+ * ends; everything else applies only while its step runs.
+ */
+export const stressEffects = (stress: StressState | undefined, time: number): StressEffects => {
+  if (!stress) return NO_STRESS;
+  const elapsed = time - stress.startedAt;
+  return stress.scenario.steps.reduce<StressEffects>((fx, step) => {
+    const into = Math.min(elapsed - step.at, step.duration);
+    if (into < 0) return fx;
+    const { effect } = step;
+    if (effect.type === 'price') return { ...fx, priceShift: fx.priceShift + interpolate(effect.path, into) };
+    if (effect.type === 'toxicFlow') {
+      const shift = fx.priceShift + (effect.side === 'buy' ? 1 : -1) * effect.drift * into;
+      return into >= step.duration ? { ...fx, priceShift: shift } : { ...fx, priceShift: shift, toxic: { side: effect.side, intensity: effect.intensity } };
+    }
+    if (into >= step.duration) return fx;
+    switch (effect.type) {
+      case 'volatility':
+        return { ...fx, volatility: fx.volatility * effect.multiplier };
+      case 'liquidity':
+        return { ...fx, liquidity: fx.liquidity * effect.remaining };
+      case 'feedGap':
+        return { ...fx, feedStale: true };
+      case 'rejects':
+        return { ...fx, rejectRate: Math.max(fx.rejectRate, effect.rate) };
+    }
+  }, NO_STRESS);
+};
+
+/** The price shift in price units; the persisting part of a finished scenario included. */
+export const stressShift = (stress: StressState | undefined, time: number): number =>
+  stress ? stress.basePrice * stressEffects(stress, time).priceShift : 0;
+
+/**
+ * The background book under stress: fewer resting orders and faster cancels as liquidity leaves, and the
+ * toxic side's market orders arriving more often. Only the book model reads these.
+ */
+export const stressedConfig = (config: SimConfig, effects: StressEffects): SimConfig => {
+  if (effects.liquidity === 1 && !effects.toxic) return config;
+  const flow = config.bookFlow;
+  return {
+    ...config,
+    bookFlow: {
+      ...flow,
+      addsPerTick: Math.round(flow.addsPerTick * effects.liquidity),
+      cancelProb: Math.min(1, flow.cancelProb + (1 - effects.liquidity) * 0.3),
+      aggressor: effects.toxic ?? undefined,
+    },
+  };
+};
+
+const createScenarioReport = (): ScenarioReport => ({
+  pnl: 0,
+  peakPnl: 0,
+  maxDrawdown: 0,
+  maxInventory: 0,
+  riskFired: [],
+  halted: false,
+  liquidations: 0,
+  rejected: 0,
+});
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isEffect = (e: Partial<ScenarioEffect> | undefined): e is ScenarioEffect => {
+  switch (e?.type) {
+    case 'price':
+      return Array.isArray(e.path) && e.path.every(p => Array.isArray(p) && isNumber(p[0]) && isNumber(p[1]));
+    case 'volatility':
+      return isNumber(e.multiplier) && e.multiplier > 0;
+    case 'liquidity':
+      return isNumber(e.remaining) && e.remaining > 0 && e.remaining <= 1;
+    case 'toxicFlow':
+      return (e.side === 'buy' || e.side === 'sell') && isNumber(e.intensity) && isNumber(e.drift);
+    case 'feedGap':
+      return true;
+    case 'rejects':
+      return isNumber(e.rate) && e.rate >= 0 && e.rate <= 1;
+    default:
+      return false;
+  }
+};
+
+/** Reads a scenario written as JSON (the same shape as the entries of SCENARIOS). Throws with a user-facing message. */
+export const parseScenario = (text: string): Scenario => {
+  let raw: Partial<Scenario>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON 文件');
+  }
+  if (typeof raw !== 'object' || raw === null || typeof raw.name !== 'string' || !isNumber(raw.duration) || !Array.isArray(raw.steps)) {
+    throw new Error('缺少 name / duration / steps，不是场景定义');
+  }
+  raw.steps.forEach((step, i) => {
+    if (!isNumber(step?.at) || !isNumber(step?.duration) || !isEffect(step?.effect)) {
+      throw new Error(`第 ${i + 1} 个步骤无效：需要 at、duration 和受支持的 effect`);
+    }
+  });
+  return {
+    id: raw.id ?? `custom-${raw.name}`,
+    name: raw.name,
+    description: raw.description ?? '',
+    duration: raw.duration,
+    steps: raw.steps,
+  };
+};
+
+/** Injects `scenario` at the state's current time, replacing any earlier one. */
+export const startScenario = (state: SimState, scenario: Scenario): SimState => {
+  const pnl = markToMarketPnl(state);
+  return {
+    ...state,
+    stress: {
+      scenario,
+      startedAt: state.time,
+      basePrice: state.midPrice,
+      applied: 0,
+      done: false,
+      baseline: { pnl, liquidations: state.margin?.liquidations ?? 0, rejected: state.gateway?.counts.rejected ?? 0 },
+      report: { ...createScenarioReport(), peakPnl: pnl, maxInventory: Math.abs(state.inventory) },
+    },
+  };
+};
+
+/** Carries `stress` onto a stepped state and folds the step into its report; `applied` is the shift in the stepped price. */
+export const trackScenario = (stress: StressState | undefined, state: SimState, applied: number): SimState => {
+  if (!stress) return state;
+  if (stress.done) return { ...state, stress: stress.applied === applied ? stress : { ...stress, applied } };
+  const pnl = markToMarketPnl(state);
+  const { report, baseline } = stress;
+  const peakPnl = Math.max(report.peakPnl, pnl);
+  const fired = state.risk.active.map(key => key.split(':')[0] as RiskRule);
+  return {
+    ...state,
+    stress: {
+      ...stress,
+      applied,
+      done: state.time - stress.startedAt >= stress.scenario.duration,
+      report: {
+        pnl: pnl - baseline.pnl,
+        peakPnl,
+        maxDrawdown: Math.max(report.maxDrawdown, peakPnl - pnl),
+        maxInventory: Math.max(report.maxInventory, Math.abs(state.inventory)),
+        riskFired: [...report.riskFired, ...fired.filter((r, i) => !report.riskFired.includes(r) && fired.indexOf(r) === i)],
+        halted: report.halted || state.risk.halted,
+        liquidations: (state.margin?.liquidations ?? 0) - baseline.liquidations,
+        rejected: (state.gateway?.counts.rejected ?? 0) - baseline.rejected,
+      },
+    },
+  };
+};
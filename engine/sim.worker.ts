@@ -0,0 +1,116 @@
+// Runs the live Simulation loop at the requested speed, posts one batch per frame and records the run.
+import { createBlotter } from './blotter';
+import { advanceFrame, ChartPoint, chartPoint, FRAME_BUDGET_MS, FRAME_MS, Session, SimWorkerMessage, SimWorkerRequest, Speed } from './playback';
+import { resetKillSwitch } from './risk';
+import { createRng, Rng } from './rng';
+import { createRun, recordAction, recordStep, replayRun, RunRecord, summarizeRun } from './runs';
+import { startScenario } from './scenarios';
+import { createInitialSimState, createInitialStats, DEFAULT_SIM_CONFIG, markToMarketPnl, SimConfig } from './simulation';
+
+let config: SimConfig = DEFAULT_SIM_CONFIG;
+let session: Session = { state: createInitialSimState(), stats: createInitialStats(), blotter: createBlotter() };
+let rng: Rng = createRng(42);
+let speed: Speed = 1;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let lastFrame = 0;
+let backlog = 0; // Fractional ticks owed at slow speeds
+let run: RunRecord = createRun(config, 42);
+
+// Chart points posted after a replay: the last ticks before it hands back to live playback
+const REPLAY_POINTS = 120;
+
+const post = (msg: SimWorkerMessage) => self.postMessage(msg);
+
+const frame = () => {
+  const now = performance.now();
+  const tickMs = config.dt * 1000;
+  const due = speed === 'max' ? Infinity : backlog + ((now - lastFrame) / tickMs) * speed;
+  const result = advanceFrame(session, config, rng, due, FRAME_BUDGET_MS, () => performance.now(), (step, stats) => recordStep(run, step, stats));
+  // A frame that ran out of budget drops what it owes instead of trying to catch up forever
+  backlog = speed === 'max' || result.ticks < Math.floor(due) ? 0 : due - result.ticks;
+  session = result.session;
+  const elapsed = Math.max(1, now - lastFrame);
+  lastFrame = now;
+  if (result.ticks > 0) {
+    post({
+      type: 'batch',
+      session,
+      points: result.point ? [result.point] : [],
+      ticks: result.ticks,
+      ticksPerSecond: (result.ticks / elapsed) * 1000,
+    });
+  }
+  timer = setTimeout(frame, FRAME_MS);
+};
+
+const pause = () => {
+  clearTimeout(timer);
+  timer = undefined;
+};
+
+self.onmessage = (e: MessageEvent<SimWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'reset':
+      config = msg.config;
+      session = { state: msg.state, stats: msg.stats, blotter: createBlotter() };
+      rng = createRng(msg.seed);
+      backlog = 0;
+      run = createRun(msg.config, msg.seed);
+      break;
+    case 'config':
+      config = msg.config;
+      recordAction(run, { type: 'config', config });
+      break;
+    case 'load':
+      session = msg.session;
+      run.replayable = false;
+      break;
+    case 'play':
+      speed = msg.speed;
+      if (timer === undefined) {
+        lastFrame = performance.now();
+        backlog = 0;
+        timer = setTimeout(frame, FRAME_MS);
+      }
+      break;
+    case 'pause':
+      pause();
+      break;
+    case 'releaseKillSwitch': {
+      const { state } = session;
+      session = { ...session, state: { ...state, risk: resetKillSwitch(state.risk, markToMarketPnl(state)) } };
+      recordAction(run, { type: 'releaseKillSwitch' });
+      post({ type: 'batch', session, points: [], ticks: 0, ticksPerSecond: 0 });
+      break;
+    }
+    case 'injectScenario':
+      session = { ...session, state: startScenario(session.state, msg.scenario) };
+      recordAction(run, { type: 'scenario', scenario: msg.scenario });
+      post({ type: 'batch', session, points: [], ticks: 0, ticksPerSecond: 0 });
+      break;
+    case 'exportRun':
+      post({ type: 'run', run });
+      break;
+    case 'replay': {
+      const points: ChartPoint[] = [];
+      const from = msg.run.tickCount - REPLAY_POINTS;
+      const replayed = replayRun(msg.run, (step, i) => i >= from && points.push(chartPoint(step)));
+      session = replayed.session;
+      config = replayed.config;
+      rng = replayed.rng;
+      backlog = 0;
+      // Later ticks extend the same run, so saving again overwrites it with the longer history
+      run = msg.run;
+      post({ type: 'batch', session, points, ticks: 0, ticksPerSecond: 0 });
+      post({
+        type: 'replayed',
+        run: summarizeRun(run),
+        config,
+        seed: run.seed,
+        verified: session.stats.pnl === run.stats.pnl,
+      });
+      break;
+    }
+  }
+};
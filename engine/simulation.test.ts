@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { SimState } from '../types';
+import { DEFAULT_FEE_SCHEDULE } from './fees';
+import { createRng } from './rng';
+import { Account, createInitialSimState, createLedger, DEFAULT_SIM_CONFIG, markToMarketPnl, settleFill, SimConfig, stepSimulation } from './simulation';
+
+const run = (config: SimConfig, seed: number, ticks: number, onStep?: (state: SimState) => void): SimState => {
+  const rng = createRng(seed);
+  let state = createInitialSimState(config);
+  for (let i = 0; i < ticks; i++) {
+    state = stepSimulation(state, config, rng).state;
+    onStep?.(state);
+  }
+  return state;
+};
+
+const withLatency = (config: SimConfig): SimConfig => ({ ...config, latency: { ...config.latency, enabled: true } });
+
+describe('stepSimulation', () => {
+  it.each(['book', 'poisson'] as const)('replays the same path from the same seed (%s fills)', fillModel => {
+    const config = { ...DEFAULT_SIM_CONFIG, fillModel };
+    const a = run(config, 7, 1500);
+    const b = run(config, 7, 1500);
+    expect(b).toEqual(a);
+    expect(run(config, 8, 1500)).not.toEqual(a);
+  });
+
+  it('keeps the layered grid inside maxInventory, with and without latency', () => {
+    // Five levels a side with no skew: without cutting the ladder to the room left, fills run well past the limit
+    const grid: SimConfig = {
+      ...DEFAULT_SIM_CONFIG,
+      strategy: { id: 'grid', params: { levels: 5, offsetTicks: 3, stepTicks: 2, skewTicks: 0 } },
+    };
+    for (const fillModel of ['book', 'poisson'] as const) {
+      for (const config of [{ ...grid, fillModel }, withLatency({ ...grid, fillModel })]) {
+        let worst = 0;
+        run(config, 1, 3000, state => (worst = Math.max(worst, Math.abs(state.inventory))));
+        expect(worst).toBeLessThanOrEqual(config.risk.maxInventory);
+      }
+    }
+  });
+});
+
+describe('settleFill', () => {
+  const account = (): Account => ({ inventory: 0, cash: 10000, ledger: createLedger() });
+
+  const makerFee = (notional: number, tier = 0) => (notional * DEFAULT_FEE_SCHEDULE.tiers[tier].makerBps) / 10000;
+
+  it('books position, cash, maker fee and spread capture', () => {
+    const acc = account();
+    const fee = makerFee(999 * 2);
+    expect(settleFill(acc, 'buy', 999, 2, 1000, DEFAULT_SIM_CONFIG)).toEqual({ type: 'fill', side: 'buy', price: 999, size: 2, fee, liquidity: 'maker' });
+    expect(acc.inventory).toBe(2);
+    expect(acc.cash).toBeCloseTo(10000 - 1998 - fee, 10);
+    expect(acc.ledger.spreadCapture).toBeCloseTo(2, 10);
+    expect(acc.ledger.fees).toBeCloseTo(fee, 10);
+    expect(acc.ledger.volume).toBe(1998);
+  });
+
+  it('charges the taker rate to taker fills', () => {
+    const acc = account();
+    settleFill(acc, 'sell', 1000, 1, 1000, DEFAULT_SIM_CONFIG, 'taker');
+    const fee = (1000 * DEFAULT_FEE_SCHEDULE.tiers[0].takerBps) / 10000;
+    expect(acc.inventory).toBe(-1);
+    expect(acc.cash).toBeCloseTo(11000 - fee, 10);
+  });
+
+  it('earns the spread less fees on a round trip', () => {
+    const acc = account();
+    settleFill(acc, 'buy', 999, 1, 1000, DEFAULT_SIM_CONFIG);
+    settleFill(acc, 'sell', 1001, 1, 1000, DEFAULT_SIM_CONFIG);
+    const fees = makerFee(999) + makerFee(1001);
+    expect(acc.inventory).toBe(0);
+    expect(acc.cash - 10000).toBeCloseTo(2 - fees, 10);
+    expect(acc.ledger.fees).toBeCloseTo(fees, 10);
+  });
+
+  it('moves up a fee tier once session volume crosses it', () => {
+    const config: SimConfig = { ...DEFAULT_SIM_CONFIG, fees: { ...DEFAULT_FEE_SCHEDULE, baseVolume: 4_999_000 } };
+    const acc = account();
+    settleFill(acc, 'buy', 1000, 1, 1000, config);
+    expect(acc.ledger.fees).toBeCloseTo(makerFee(1000), 10);
+    settleFill(acc, 'sell', 1000, 1, 1000, config);
+    expect(acc.ledger.fees).toBeCloseTo(makerFee(1000) + makerFee(1000, 1), 10);
+  });
+});
+
+describe('markToMarketPnl', () => {
+  it('starts flat', () => {
+    expect(markToMarketPnl(createInitialSimState())).toBe(0);
+  });
+});
@@ -0,0 +1,859 @@
+// Pure, seedable Stoikov simulation step. No React, no Math.random(): the UI (or a test) drives it.
+import {
+  CalibrationState,
+  GatewayState,
+  LatencyState,
+  Ledger,
+  MarginState,
+  MarketModelState,
+  PendingQuote,
+  QuoteLadder,
+  QuoteLevel,
+  SimBook,
+  SimState,
+  SimulationStats,
+  StressEffects
+} from '../types';
+import {
+  DEFAULT_FEE_SCHEDULE,
+  DEFAULT_FUNDING,
+  FeeSchedule,
+  FundingConfig,
+  fundingPayment,
+  Liquidity,
+  nextFundingRate,
+  tradeFee
+} from './fees';
+import { CalibrationConfig, createCalibrationState, DEFAULT_CALIBRATION, quoteExposure, updateCalibration } from './calibration';
+import { arrivedQuotes, createLatencyState, DEFAULT_LATENCY, LatencyConfig, recordStaleFill, sampleTickToTrade, sendQuote, tickShare } from './latency';
+import { createMarginState, DEFAULT_MARGIN, isLiquidatable, MarginConfig, marginRoom, marginSides } from './margin';
+import { createMarketState, DEFAULT_MARKET, informedImpact, MarketConfig, stepMarketModel, volatilityPerSecond } from './marketModels';
+import {
+  cloneGateway,
+  createGatewayState,
+  DEFAULT_RATE_LIMIT,
+  executeSide,
+  orderCancelled,
+  orderFilled,
+  orderRejected,
+  planUpdate,
+  QuoteUpdate,
+  RateLimitConfig,
+  recordPlan,
+  refillGateway,
+  releaseReserved,
+  requestBudget
+} from './orderGateway';
+import {
+  BookFill,
+  bookMid,
+  BookFlowConfig,
+  cancelOrder,
+  cloneBook,
+  createBook,
+  DEFAULT_BOOK_FLOW,
+  isMyOrder,
+  MY_ORDER_PREFIX,
+  myOrders,
+  placeOrder,
+  stepBookFlow,
+  stepTakerFlow
+} from './orderBook';
+import { canQuoteAsk, canQuoteBid, createRiskState, DEFAULT_RISK_LIMITS, evaluateRisk, recordOrders, RiskInput, RiskLimits, riskRoom } from './risk';
+import { Rng } from './rng';
+import { stressedConfig, stressEffects, stressShift, trackScenario } from './scenarios';
+import { arrivalProbability, DEFAULT_FILL_INTENSITY, fillProbability, INITIAL_CASH, INITIAL_PRICE } from './stoikov';
+import { DEFAULT_STRATEGY, runStrategy, StrategyConfig, StrategyInput, StrategyQuotes } from './strategies';
+
+// 'poisson' draws fills from the hit-probability model; 'book' matches our quotes in the simulated L2 book
+export type FillModel = 'poisson' | 'book';
+
+// Poisson hit model: 'intensity' is the original hand-tuned curve, 'arrival' is λ(δ) = A·e^(−kδ) over dt
+export type HitModel = 'intensity' | 'arrival';
+
+export interface SimConfig {
+  strategy: StrategyConfig;
+  volatility: number;    // Sigma: half-width of the per-tick uniform price shock (price units); strategies get it per √s
+  strategyVolatility?: number; // σ the strategy assumes, in the same units; unset = the market's σ
+  arrivalA: number;      // A: order arrival rate at the mid (1/s)
+  arrivalK: number;      // k: decay of arrival rate with quote distance
+  fillModel: FillModel;
+  hitModel: HitModel;
+  fillIntensity: number; // Scales the per-tick hit probability in the 'intensity' hit model
+  tickSize: number;
+  dt: number;            // Seconds per simulation tick
+  quoteSize: number;     // Size of each of our quotes
+  bookFlow: BookFlowConfig;
+  risk: RiskLimits;
+  fees: FeeSchedule;
+  funding: FundingConfig;
+  latency: LatencyConfig;
+  market: MarketConfig;  // Price generator and informed flow (random-walk runs only)
+  rateLimit: RateLimitConfig;
+  calibration: CalibrationConfig;
+  margin: MarginConfig;
+}
+
+export type SimEvent =
+  | { type: 'quote'; bid?: number; ask?: number; reservationPrice: number; theoreticalSpread: number } // Best desired level per side
+  | { type: 'fill'; side: 'buy' | 'sell'; price: number; size: number; fee: number; liquidity: Liquidity }
+  | { type: 'funding'; rate: number; payment: number }
+  | { type: 'liquidation'; side: 'buy' | 'sell'; price: number; size: number; penalty: number };
+
+export interface StepResult {
+  state: SimState;
+  events: SimEvent[];
+}
+
+export const DEFAULT_SIM_CONFIG: SimConfig = {
+  strategy: DEFAULT_STRATEGY,
+  volatility: 0.5,
+  arrivalA: 5,
+  arrivalK: 1.5,
+  fillModel: 'book',
+  hitModel: 'intensity',
+  fillIntensity: DEFAULT_FILL_INTENSITY,
+  tickSize: 0.1,
+  dt: 0.05,
+  quoteSize: 1,
+  bookFlow: DEFAULT_BOOK_FLOW,
+  risk: DEFAULT_RISK_LIMITS,
+  fees: DEFAULT_FEE_SCHEDULE,
+  funding: DEFAULT_FUNDING,
+  latency: DEFAULT_LATENCY,
+  market: DEFAULT_MARKET,
+  rateLimit: DEFAULT_RATE_LIMIT,
+  calibration: DEFAULT_CALIBRATION,
+  margin: DEFAULT_MARGIN,
+};
+
+export const createInitialSimState = (config: SimConfig = DEFAULT_SIM_CONFIG, price = INITIAL_PRICE): SimState => {
+  const halfSpread = 5 * config.tickSize;
+  const quotes: QuoteLadder = {
+    bids: [{ price: price - halfSpread, size: config.quoteSize }],
+    asks: [{ price: price + halfSpread, size: config.quoteSize }],
+  };
+  return {
+    midPrice: price,
+    reservationPrice: price,
+    inventory: 0,
+    cash: INITIAL_CASH,
+    myBid: price - halfSpread,
+    myAsk: price + halfSpread,
+    myQuotes: quotes,
+    time: 0,
+    risk: createRiskState(),
+    ledger: createLedger(config.funding),
+    latency: createLatencyState(quotes),
+  };
+};
+
+export const createLedger = (funding: FundingConfig = DEFAULT_FUNDING): Ledger => ({
+  spreadCapture: 0,
+  fees: 0,
+  funding: 0,
+  volume: 0,
+  fundingRate: funding.rate,
+  nextFundingTime: funding.interval,
+});
+
+export const createInitialStats = (): SimulationStats => ({
+  pnl: 0,
+  trades: 0,
+  volume: 0,
+  latency: 0,
+  buys: 0,
+  sells: 0,
+  buySize: 0,
+  sellSize: 0,
+  buyNotional: 0,
+  sellNotional: 0,
+  elapsed: 0,
+  inventoryTime: 0,
+  absInventoryTime: 0,
+  timeAtLimit: 0,
+  spreadPnl: 0,
+  inventoryPnl: 0,
+  feePnl: 0,
+  fundingPnl: 0,
+  liquidationPnl: 0,
+});
+
+export const markToMarketPnl = (state: SimState): number =>
+  state.cash + state.inventory * state.midPrice - INITIAL_CASH;
+
+// The cash/position side of SimState that fills and funding mutate during a step
+export interface Account {
+  inventory: number;
+  cash: number;
+  ledger: Ledger;
+}
+
+/** Books one of our fills into `account` (mutates it): position, cash, fee and spread captured vs `refMid`. */
+export const settleFill = (
+  account: Account,
+  side: 'buy' | 'sell',
+  price: number,
+  size: number,
+  refMid: number,
+  config: SimConfig,
+  liquidity: Liquidity = 'maker'
+): SimEvent => {
+  const notional = price * size;
+  const fee = tradeFee(config.fees, account.ledger.volume, notional, liquidity);
+  account.inventory += side === 'buy' ? size : -size;
+  account.cash += (side === 'buy' ? -notional : notional) - fee;
+  account.ledger = {
+    ...account.ledger,
+    spreadCapture: account.ledger.spreadCapture + (side === 'buy' ? refMid - price : price - refMid) * size,
+    fees: account.ledger.fees + fee,
+    volume: account.ledger.volume + notional,
+  };
+  return { type: 'fill', side, price, size, fee, liquidity };
+};
+
+/** Pays/receives funding on the open position whenever a funding time is crossed (mutates `account`). */
+export const settleFunding = (account: Account, time: number, mark: number, config: SimConfig, rng: Rng): SimEvent[] => {
+  const events: SimEvent[] = [];
+  if (config.funding.mode === 'off') return events;
+  while (time >= account.ledger.nextFundingTime) {
+    const rate = account.ledger.fundingRate;
+    const payment = fundingPayment(account.inventory, mark, rate);
+    account.cash -= payment;
+    account.ledger = {
+      ...account.ledger,
+      funding: account.ledger.funding + payment,
+      fundingRate: nextFundingRate(rate, config.funding, rng),
+      nextFundingTime: account.ledger.nextFundingTime + config.funding.interval,
+    };
+    events.push({ type: 'funding', rate, payment });
+  }
+  return events;
+};
+
+/**
+ * Forced liquidation: once equity is below maintenance margin the whole position is closed at `mark` as a taker
+ * and the penalty is charged on the closed notional (mutates `account`). The caller cancels our open orders.
+ */
+export const settleMargin = (
+  account: Account,
+  prev: MarginState,
+  mark: number,
+  time: number,
+  config: SimConfig
+): { margin: MarginState; events: SimEvent[] } => {
+  const pnl = account.cash + account.inventory * mark - INITIAL_CASH;
+  if (!isLiquidatable(account.inventory, mark, pnl, config.margin)) return { margin: prev, events: [] };
+  const side = account.inventory > 0 ? 'sell' : 'buy';
+  const size = Math.abs(account.inventory);
+  const fill = settleFill(account, side, mark, size, mark, config, 'taker');
+  const penalty = size * mark * config.margin.liquidationPenalty;
+  account.cash -= penalty;
+  return {
+    margin: { liquidations: prev.liquidations + 1, penalties: prev.penalties + penalty, last: { time, side, price: mark, size, penalty } },
+    events: [fill, { type: 'liquidation', side, price: mark, size, penalty }],
+  };
+};
+
+// Quotes never improve past the computed price: bids round down, asks round up.
+// The epsilon keeps prices already on a tick (e.g. grid levels) from slipping a tick on float error.
+const roundBid = (price: number, tickSize: number) => Math.floor(price / tickSize + 1e-9) * tickSize;
+const roundAsk = (price: number, tickSize: number) => Math.ceil(price / tickSize - 1e-9) * tickSize;
+
+const samePrice = (a: number, b: number, tickSize: number) => Math.abs(a - b) < tickSize / 2;
+
+// Levels that land on the same tick become one order; best level first
+const mergeLevels = (levels: QuoteLevel[], side: 'buy' | 'sell', tickSize: number): QuoteLevel[] =>
+  levels
+    .reduce<QuoteLevel[]>((out, level) => {
+      const same = out.find(l => samePrice(l.price, level.price, tickSize));
+      if (same) same.size += level.size;
+      else out.push({ ...level });
+      return out;
+    }, [])
+    .sort((a, b) => (side === 'buy' ? b.price - a.price : a.price - b.price));
+
+/**
+ * Turns the strategy's ladder into orderable prices: rounded to ticks and, for post-only quoting,
+ * kept at least one tick behind the other side (`maxBid` / `minAsk`).
+ */
+const shapeLadder = (quotes: QuoteLadder, tickSize: number, maxBid = Infinity, minAsk = -Infinity): QuoteLadder => ({
+  bids: mergeLevels(quotes.bids.map(l => ({ price: Math.min(roundBid(l.price, tickSize), maxBid), size: l.size })), 'buy', tickSize),
+  asks: mergeLevels(quotes.asks.map(l => ({ price: Math.max(roundAsk(l.price, tickSize), minAsk), size: l.size })), 'sell', tickSize),
+});
+
+// Best levels first, as many as fit in `room` if every one of them filled. With latency the orders still live
+// or in flight (`resting`) can fill before the new ladder lands, so those it would cancel count against the room too.
+const fitSide = (levels: QuoteLevel[], room: number, resting: QuoteLevel[], tickSize: number): QuoteLevel[] => {
+  const kept: QuoteLevel[] = [];
+  for (const level of levels) {
+    const next = [...kept, level];
+    const cancelled = resting
+      .filter(r => !next.some(l => samePrice(l.price, r.price, tickSize)))
+      .reduce<QuoteLevel[]>((out, r) => {
+        const same = out.find(l => samePrice(l.price, r.price, tickSize));
+        if (!same) out.push({ ...r });
+        else same.size = Math.max(same.size, r.size);
+        return out;
+      }, []);
+    const exposure = [...next, ...cancelled].reduce((sum, l) => sum + l.size, 0);
+    if (exposure > room + 1e-9) break;
+    kept.push(level);
+  }
+  return kept;
+};
+
+// The ladder cut to what the position limits and margin leave room for on each side
+const fitLadder = (ladder: QuoteLadder, resting: QuoteLadder, input: RiskInput, pnl: number, config: SimConfig): QuoteLadder => {
+  const risk = riskRoom(input, config.risk);
+  const margin = marginRoom(input.inventory, input.mid, pnl, config.margin);
+  return {
+    bids: fitSide(ladder.bids, Math.min(risk.bid, margin.bid), resting.bids, config.tickSize),
+    asks: fitSide(ladder.asks, Math.min(risk.ask, margin.ask), resting.asks, config.tickSize),
+  };
+};
+
+// Orders that may fill before a newly sent update lands: those live and every ladder still in flight
+const exposedLadder = (live: QuoteLadder, pending: PendingQuote[]): QuoteLadder => ({
+  bids: [live.bids, ...pending.map(p => p.bids ?? [])].flat(),
+  asks: [live.asks, ...pending.map(p => p.asks ?? [])].flat(),
+});
+
+// Levels of `next` not already resting at the same price in `prev`, i.e. new orders to place
+const changedLevels = (prev: QuoteLevel[], next: QuoteLevel[], tickSize: number): number =>
+  next.filter(l => !prev.some(p => samePrice(p.price, l.price, tickSize))).length;
+
+// In auto calibration the strategy quotes with the online estimates, falling back to the settings until they exist.
+// Both reach the strategy per √s: the estimators measure it that way and the σ setting is converted from per tick.
+const strategyInput = (mid: number, inventory: number, time: number, config: SimConfig, calibration?: CalibrationState): StrategyInput => {
+  const auto = config.calibration.auto ? calibration : undefined;
+  return {
+    mid,
+    inventory,
+    time,
+    volatility: auto?.sigma ?? volatilityPerSecond(config.strategyVolatility ?? config.volatility, config.dt),
+    arrivalA: auto?.arrivalA ?? config.arrivalA,
+    arrivalK: auto?.arrivalK ?? config.arrivalK,
+    tickSize: config.tickSize,
+    quoteSize: config.quoteSize,
+  };
+};
+
+const quoteEvent = (desired: QuoteLadder, quotes: StrategyQuotes): SimEvent => ({
+  type: 'quote',
+  bid: desired.bids[0]?.price,
+  ask: desired.asks[0]?.price,
+  reservationPrice: quotes.reservationPrice,
+  theoreticalSpread: quotes.theoreticalSpread,
+});
+
+// Market Dynamics: one tick of the configured price model
+export const stepMarket = (
+  fair: number,
+  market: MarketModelState,
+  config: SimConfig,
+  rng: Rng
+): { price: number; state: MarketModelState } =>
+  stepMarketModel(fair, market, config.market, config.volatility, config.dt, rng);
+
+// Chance that a quote `distance` away from mid is hit during `dt` seconds, under the configured model
+const hitProbability = (distance: number, config: SimConfig, dt: number): number =>
+  config.hitModel === 'arrival'
+    ? arrivalProbability(distance, config.arrivalA, config.arrivalK, dt)
+    : fillProbability(distance, config.fillIntensity);
+
+// Stress on the Poisson model, which has no book: takers that would have hit the departed liquidity reach our
+// quotes instead, and a toxic aggressor takes the quotes on the side it hits more often
+const stressedHit = (p: number, taken: 'buy' | 'sell', stress: StressEffects): number => {
+  const aggressor = taken === 'sell' ? 'buy' : 'sell';
+  return Math.min(1, (p * (stress.toxic?.side === aggressor ? stress.toxic.intensity : 1)) / stress.liquidity);
+};
+
+// Exchange rejects under stress; draws only while a reject rate is in force
+const rejectHook = (stress: StressEffects, rng: Rng) =>
+  stress.rejectRate > 0 ? () => (rng() < stress.rejectRate ? '交易所拒单 (rejected by exchange)' : undefined) : undefined;
+
+// Which live levels traded this tick, best first per side
+export type HitSelector = (live: QuoteLadder) => QuoteLadder;
+
+// A tape's trades only meet the first ladder of a tick; the draws for later parts of it are discarded
+const noHits: HitSelector = () => ({ bids: [], asks: [] });
+
+// Without a queue to lose, a level kept at its price simply takes the size the strategy now wants
+const withTargetSizes = (levels: QuoteLevel[], target: QuoteLevel[], tickSize: number): QuoteLevel[] =>
+  levels.map(l => {
+    const wanted = target.find(t => samePrice(t.price, l.price, tickSize));
+    return wanted && wanted.size !== l.size ? { ...l, size: wanted.size } : l;
+  });
+
+// An update reaching the exchange in the Poisson model: the live ladder is the only "book" (mutates `gateway`)
+const landLadder = (
+  gateway: GatewayState,
+  live: QuoteLadder,
+  update: QuoteUpdate,
+  config: SimConfig,
+  time: number,
+  reject?: () => string | undefined
+): QuoteLadder => {
+  releaseReserved(gateway, update);
+  const side = (s: 'buy' | 'sell', levels: QuoteLevel[], target: QuoteLevel[] | null | undefined) =>
+    target === undefined
+      ? levels
+      : withTargetSizes(executeSide(gateway, config.rateLimit, s, levels, target ?? [], config.tickSize, time, { reject }), target ?? [], config.tickSize);
+  return { bids: side('buy', live.bids, update.bids), asks: side('sell', live.asks, update.asks) };
+};
+
+/**
+ * Quotes around `mid` at session time `time` (s) and runs the Poisson fill model against the live quotes.
+ * With latency enabled, new quotes only replace the live ones once they reach the exchange. `hits` replaces
+ * the Poisson draws' outcome (e.g. with a recorded tape); the draws are still made.
+ */
+export const stepStrategy = (
+  prev: SimState,
+  mid: number,
+  config: SimConfig,
+  rng: Rng,
+  time = prev.time + config.dt,
+  hits?: HitSelector
+): StepResult => {
+  const events: SimEvent[] = [];
+  const dt = time - prev.time;
+  const gateway = cloneGateway(prev.gateway ?? createGatewayState(config.rateLimit, prev.time));
+  refillGateway(gateway, config.rateLimit, time);
+  const stress = stressEffects(prev.stress, time);
+  const reject = rejectHook(stress, rng);
+
+  // Strategy: the ladder it wants around mid. Correlated positions in other coins add to the skew.
+  const quotes = runStrategy(config.strategy, strategyInput(mid, prev.inventory + (prev.crossInventory ?? 0), time, config, prev.calibration));
+  const desired = shapeLadder(quotes, config.tickSize);
+  events.push(quoteEvent(desired, quotes));
+
+  // The delay is drawn every tick (when enabled) so the seeded path does not depend on risk decisions
+  let latency: LatencyState = { ...prev.latency, desired };
+  if (config.latency.enabled) latency = sampleTickToTrade(latency, config.latency, rng);
+
+  // Risk Check: a throttled quoter leaves its previous quotes live instead of replacing them, as does one whose
+  // feed is down. Changes are planned against the latest quotes already sent, which may still be in flight,
+  // and trimmed to the exchange's request budget.
+  const pnl = prev.cash + prev.inventory * mid - INITIAL_CASH;
+  const riskInput = { time, inventory: prev.inventory, mid, pnl, quoteSize: config.quoteSize, hedge: prev.hedge };
+  let risk = evaluateRisk(prev.risk, riskInput, config.risk);
+  const allowed = marginSides(prev.inventory, mid, pnl, config.quoteSize, config.margin);
+  const exposed = config.latency.enabled ? exposedLadder(prev.myQuotes, latency.pending) : { bids: [], asks: [] };
+  const quoted = fitLadder(desired, exposed, riskInput, pnl, config);
+  const inFlight = latency.pending[latency.pending.length - 1];
+  const sent: QuoteLadder = { bids: inFlight?.bids ?? prev.myQuotes.bids, asks: inFlight?.asks ?? prev.myQuotes.asks };
+  let live = prev.myQuotes;
+  if (!risk.throttled && !stress.feedStale) {
+    const plan = planUpdate(gateway, sent, quoted, requestBudget(gateway, config.rateLimit, gateway.reserved), config.tickSize, time);
+    recordPlan(gateway, plan);
+    risk = recordOrders(risk, time, plan.placed);
+    const update = { ...plan.update, requests: plan.requests };
+    if (!config.latency.enabled) live = landLadder(gateway, live, update, config, time, reject);
+    else if (plan.requests > 0) latency = sendQuote(latency, update, time);
+  }
+  // Updates landing within this tick split it: until one lands, the quotes it replaces are the live ones
+  let arrivals: PendingQuote[] = [];
+  if (config.latency.enabled) {
+    const { arrived, pending } = arrivedQuotes(latency, time + config.dt);
+    arrivals = arrived;
+    latency = { ...latency, pending };
+  }
+
+  const account: Account = { inventory: prev.inventory, cash: prev.cash, ledger: prev.ledger };
+  const filled: QuoteLevel[] = [];
+  const unfilled = (ladder: QuoteLadder): QuoteLadder => ({
+    bids: ladder.bids.filter(l => !filled.includes(l)),
+    asks: ladder.asks.filter(l => !filled.includes(l)),
+  });
+
+  // Matching Engine Simulation (Poisson Process) against what is live for `share` of the tick, one draw per
+  // level. A stale quote left on the wrong side of mid has a negative distance and is (almost) certainly hit.
+  // Every draw happens so the seeded path does not depend on which sides the risk layer allowed. Tape hits
+  // happened at the tick itself, so they meet the ladder live at its start.
+  const match = (ladder: QuoteLadder, share: number, tape?: HitSelector) => {
+    const hit = (p: number) => rng() < (share === 1 ? p : 1 - (1 - p) ** share);
+    const drawn: QuoteLadder = {
+      asks: ladder.asks.filter(l => hit(stressedHit(hitProbability(l.price - mid, config, dt), 'sell', stress))),
+      bids: ladder.bids.filter(l => hit(stressedHit(hitProbability(mid - l.price, config, dt), 'buy', stress))),
+    };
+    const { asks: askHits, bids: bidHits } = tape ? tape(ladder) : drawn;
+    // A hit fills the whole level, which leaves the book until the quoter places it again
+    if (canQuoteAsk(risk) && allowed.ask) {
+      askHits.forEach(l => {
+        events.push(settleFill(account, 'sell', l.price, l.size, mid, config));
+        if (config.latency.enabled) latency = recordStaleFill(latency, 'sell', l.price, l.size);
+        orderFilled(gateway, l.id, l.size, time);
+        filled.push(l);
+      });
+    }
+    if (canQuoteBid(risk) && allowed.bid) {
+      bidHits.forEach(l => {
+        events.push(settleFill(account, 'buy', l.price, l.size, mid, config));
+        if (config.latency.enabled) latency = recordStaleFill(latency, 'buy', l.price, l.size);
+        orderFilled(gateway, l.id, l.size, time);
+        filled.push(l);
+      });
+    }
+  };
+  let from = time;
+  arrivals.forEach((update, i) => {
+    const at = Math.max(from, update.liveAt);
+    match(live, tickShare(from, at, config.dt), i === 0 ? hits : hits && noHits);
+    live = landLadder(gateway, unfilled(live), update, config, at, reject);
+    from = at;
+  });
+  match(live, tickShare(from, time + config.dt, config.dt), arrivals.length === 0 ? hits : hits && noHits);
+  events.push(...settleFunding(account, time, mid, config, rng));
+  const margin = settleMargin(account, prev.margin ?? createMarginState(), mid, time, config);
+  events.push(...margin.events);
+  // A liquidation cancels every open order
+  const liquidated = margin.events.length > 0;
+  const resting: QuoteLadder = {
+    bids: liquidated ? [] : live.bids.filter(l => !filled.includes(l)),
+    asks: liquidated ? [] : live.asks.filter(l => !filled.includes(l)),
+  };
+  if (liquidated) [...live.bids, ...live.asks].forEach(l => orderCancelled(gateway, l.id, time));
+
+  return {
+    state: {
+      midPrice: mid,
+      reservationPrice: quotes.reservationPrice,
+      myBid: live.bids[0]?.price ?? prev.myBid,
+      myAsk: live.asks[0]?.price ?? prev.myAsk,
+      myQuotes: resting,
+      time,
+      risk,
+      latency,
+      gateway,
+      margin: margin.margin,
+      ...account
+    },
+    events,
+  };
+};
+
+// Best price on one side of the book ignoring our own orders (used for post-only clamping)
+const bestOther = (levels: SimBook['bids']): number | undefined =>
+  levels.find(l => l.orders.some(o => !isMyOrder(o)))?.price;
+
+// Our resting orders one by one (not merged per price), best first
+const restingLevels = (book: SimBook, side: 'buy' | 'sell'): QuoteLevel[] =>
+  myOrders(book)
+    .filter(o => o.side === side)
+    .map(o => ({ price: o.price, size: o.size, id: o.id }))
+    .sort((a, b) => (side === 'buy' ? b.price - a.price : a.price - b.price));
+
+// What the quoter believes each side will be once its updates land: the newest in-flight update for the side,
+// otherwise our resting orders
+const sentLadder = (book: SimBook, pending: PendingQuote[]): QuoteLadder => {
+  const latest = (key: 'bids' | 'asks') => {
+    const update = [...pending].reverse().find(p => p[key] !== undefined);
+    return update ? update[key] ?? [] : undefined;
+  };
+  return { bids: latest('bids') ?? restingLevels(book, 'buy'), asks: latest('asks') ?? restingLevels(book, 'sell') };
+};
+
+// Works one side's resting orders towards `levels`, within the request budget: orders at a wanted price keep
+// their queue position, the rest are cancelled and missing levels join the back of their queue.
+// Returns the number of orders placed.
+const requote = (
+  book: SimBook,
+  gateway: GatewayState,
+  side: 'buy' | 'sell',
+  levels: QuoteLevel[],
+  config: SimConfig,
+  time: number,
+  reject?: () => string | undefined
+): number => {
+  let placed = 0;
+  executeSide(gateway, config.rateLimit, side, restingLevels(book, side), levels, config.tickSize, time, {
+    reject,
+    cancel: level => cancelOrder(book, level.id!),
+    place: level => {
+      placeOrder(book, { id: level.id!, price: level.price, size: level.size, side }, config.tickSize);
+      placed++;
+    },
+  });
+  return placed;
+};
+
+// Applies a quote update as it reaches the exchange. Levels that would now cross the book (the market
+// moved while the update was in flight) are rejected by ALO; the cancels of the old orders still land.
+// Returns the number of orders placed.
+const applyQuoteUpdate = (
+  book: SimBook,
+  gateway: GatewayState,
+  update: QuoteUpdate,
+  config: SimConfig,
+  time: number,
+  reject?: () => string | undefined
+): number => {
+  releaseReserved(gateway, update);
+  const otherAsk = bestOther(book.asks);
+  const otherBid = bestOther(book.bids);
+  const postOnly = (levels: QuoteLevel[], crosses: (l: QuoteLevel) => boolean) =>
+    levels.filter(l => {
+      if (crosses(l)) orderRejected(gateway, l.id, time, 'ALO 挂单会立即成交 (post-only would cross)');
+      return !crosses(l);
+    });
+  let placed = 0;
+  if (update.bids !== undefined) {
+    const bids = postOnly(update.bids ?? [], l => otherAsk !== undefined && l.price >= otherAsk);
+    placed += requote(book, gateway, 'buy', bids, config, time, reject);
+  }
+  if (update.asks !== undefined) {
+    const asks = postOnly(update.asks ?? [], l => otherBid !== undefined && l.price <= otherBid);
+    placed += requote(book, gateway, 'sell', asks, config, time, reject);
+  }
+  return placed;
+};
+
+// Our resting orders as a ladder, best level first
+const liveLadder = (book: SimBook, tickSize: number): QuoteLadder => {
+  const orders = myOrders(book);
+  const side = (s: 'buy' | 'sell') =>
+    mergeLevels(orders.filter(o => o.side === s).map(o => ({ price: o.price, size: o.size })), s, tickSize);
+  return { bids: side('buy'), asks: side('sell') };
+};
+
+/**
+ * Background flow moves the book towards `fairValue` and may fill our resting quotes;
+ * then we requote around the observed book mid with a post-only (ALO) clamp.
+ * With latency enabled the requote only reaches the book after the tick-to-trade delay.
+ */
+export const stepBook = (
+  prev: SimState,
+  fairValue: number,
+  config: SimConfig,
+  rng: Rng,
+  time = prev.time + config.dt
+): StepResult => {
+  const book = prev.book ? cloneBook(prev.book) : createBook(prev.midPrice, config.tickSize, config.bookFlow, rng);
+  const events: SimEvent[] = [];
+  const account: Account = { inventory: prev.inventory, cash: prev.cash, ledger: prev.ledger };
+  let latency = prev.latency;
+  const gateway = cloneGateway(prev.gateway ?? createGatewayState(config.rateLimit, prev.time));
+  refillGateway(gateway, config.rateLimit, time);
+  const stress = stressEffects(prev.stress, time);
+  const reject = rejectHook(stress, rng);
+
+  // Matching Engine: only aggressive flow that reaches our level and eats the queue ahead fills us.
+  // Spread capture is measured against the mid we quoted around.
+  const settle = (fills: BookFill[]) =>
+    fills.forEach(fill => {
+      if (!fill.orderId.startsWith(MY_ORDER_PREFIX)) return;
+      events.push(settleFill(account, fill.side, fill.price, fill.size, prev.midPrice, config));
+      if (config.latency.enabled) latency = recordStaleFill(latency, fill.side, fill.price, fill.size);
+      orderFilled(gateway, fill.orderId, fill.size, time);
+    });
+  // Updates in flight land part-way through the tick: the takers before each landing meet the orders it replaces,
+  // with fair value part of the way along its move
+  let placed = 0;
+  let from = prev.time;
+  if (config.latency.enabled) {
+    const { arrived, pending } = arrivedQuotes(latency, time);
+    latency = { ...latency, pending };
+    const startFair = book.fairValue;
+    arrived.forEach(update => {
+      const at = Math.min(time, Math.max(from, update.liveAt));
+      const along = startFair + (fairValue - startFair) * tickShare(prev.time, at, time - prev.time);
+      settle(stepTakerFlow(book, along, config.bookFlow, rng, tickShare(from, at, time - prev.time)));
+      placed += applyQuoteUpdate(book, gateway, update, config, at, reject);
+      from = at;
+    });
+  }
+  settle(stepBookFlow(book, fairValue, config.tickSize, config.bookFlow, rng, tickShare(from, time, time - prev.time)));
+
+  // Strategy: the ladder it wants around what we can observe, the book mid, clamped post-only
+  const mid = bookMid(book);
+  const { inventory, cash } = account;
+  const quotes = runStrategy(config.strategy, strategyInput(mid, inventory + (prev.crossInventory ?? 0), time, config, prev.calibration));
+  const otherAsk = bestOther(book.asks);
+  const otherBid = bestOther(book.bids);
+  const desired = shapeLadder(
+    quotes,
+    config.tickSize,
+    otherAsk !== undefined ? otherAsk - config.tickSize : Infinity,
+    otherBid !== undefined ? otherBid + config.tickSize : -Infinity
+  );
+  events.push(quoteEvent(desired, quotes));
+
+  // Risk Check: suppressed sides are pulled; a throttled quoter may cancel but not place
+  const pnl = cash + inventory * mid - INITIAL_CASH;
+  const riskInput = { time, inventory, mid, pnl, quoteSize: config.quoteSize, hedge: prev.hedge };
+  let risk = evaluateRisk(prev.risk, riskInput, config.risk);
+  // Margin: the exchange refuses orders that would take initial margin above equity
+  const allowed = marginSides(inventory, mid, pnl, config.quoteSize, config.margin);
+  const exposed = config.latency.enabled
+    ? exposedLadder({ bids: restingLevels(book, 'buy'), asks: restingLevels(book, 'sell') }, latency.pending)
+    : { bids: [], asks: [] };
+  const quoted = fitLadder(desired, exposed, riskInput, pnl, config);
+  // With the feed down the quoter sends nothing at all
+  const wanted: QuoteUpdate = stress.feedStale
+    ? {}
+    : {
+        bids: !canQuoteBid(risk) || !allowed.bid ? null : risk.throttled ? undefined : quoted.bids,
+        asks: !canQuoteAsk(risk) || !allowed.ask ? null : risk.throttled ? undefined : quoted.asks,
+      };
+  // Exchange rate limit: the changes that fit the request budget, most urgent first
+  const sent = sentLadder(book, latency.pending);
+  const plan = planUpdate(gateway, sent, wanted, requestBudget(gateway, config.rateLimit, gateway.reserved), config.tickSize, time);
+  recordPlan(gateway, plan);
+  const update: QuoteUpdate = { ...plan.update, requests: plan.requests };
+
+  // Order Gateway: updates land immediately, or join the in-flight queue and land during a later tick's flow
+  latency = { ...latency, desired };
+  if (config.latency.enabled) {
+    latency = sampleTickToTrade(latency, config.latency, rng);
+    if (update.bids !== undefined || update.asks !== undefined) latency = sendQuote(latency, update, time);
+  } else {
+    placed += applyQuoteUpdate(book, gateway, update, config, time, reject);
+  }
+  risk = recordOrders(risk, time, placed);
+  events.push(...settleFunding(account, time, mid, config, rng));
+  const margin = settleMargin(account, prev.margin ?? createMarginState(), mid, time, config);
+  events.push(...margin.events);
+  // A liquidation cancels every open order
+  if (margin.events.length > 0) {
+    myOrders(book).forEach(o => {
+      cancelOrder(book, o.id);
+      orderCancelled(gateway, o.id, time);
+    });
+  }
+
+  const live = liveLadder(book, config.tickSize);
+  return {
+    state: {
+      midPrice: mid,
+      reservationPrice: quotes.reservationPrice,
+      myBid: live.bids[0]?.price ?? desired.bids[0]?.price ?? prev.myBid,
+      myAsk: live.asks[0]?.price ?? desired.asks[0]?.price ?? prev.myAsk,
+      myQuotes: live,
+      time,
+      book,
+      risk,
+      latency,
+      gateway,
+      margin: margin.margin,
+      ...account
+    },
+    events,
+  };
+};
+
+/**
+ * Folds a step into the online σ / A / k estimates. `resting` is the ladder that could trade during the step
+ * and `quotedMid` the mid its distances are measured from.
+ */
+export const calibrateStep = (prev: SimState, result: StepResult, config: SimConfig, resting: QuoteLadder, quotedMid: number): StepResult => {
+  const { state, events } = result;
+  const fills = events.flatMap(e => (e.type === 'fill' ? [e] : []));
+  const calibration = updateCalibration(
+    prev.calibration ?? createCalibrationState(prev.midPrice, prev.time),
+    state.midPrice,
+    state.time,
+    quoteExposure(resting, quotedMid, fills, config.tickSize),
+    config.calibration,
+    config.tickSize
+  );
+  return { events, state: { ...state, calibration } };
+};
+
+/**
+ * Advances the strategy against an externally supplied price (random walk, tape, ...). A running stress scenario
+ * shifts the price and thins or skews the background book.
+ */
+export const advanceSimulation = (prev: SimState, price: number, config: SimConfig, rng: Rng, time = prev.time + config.dt): StepResult => {
+  const shift = stressShift(prev.stress, time);
+  const stressed = stressedConfig(config, stressEffects(prev.stress, time));
+  // The book fills the orders left resting from the last tick; the Poisson model the ones live this tick
+  let result: StepResult;
+  if (stressed.fillModel === 'book') {
+    result = calibrateStep(prev, stepBook(prev, price + shift, stressed, rng, time), stressed, prev.myQuotes, prev.midPrice);
+  } else {
+    const stepped = stepStrategy(prev, price + shift, stressed, rng, time);
+    result = calibrateStep(prev, stepped, stressed, stepped.state.myQuotes, stepped.state.midPrice);
+  }
+  return { ...result, state: trackScenario(prev.stress, result.state, shift) };
+};
+
+/**
+ * One full tick: move the market, then quote and match. Our fills this tick leave an informed move
+ * that the market applies on the next one.
+ */
+export const stepSimulation = (prev: SimState, config: SimConfig, rng: Rng): StepResult => {
+  // The generator walks the unshifted price; a scenario's shift is laid on top of it
+  const fair = (prev.book?.fairValue ?? prev.midPrice) - (prev.stress?.applied ?? 0);
+  const { volatility } = stressEffects(prev.stress, prev.time + config.dt);
+  const market = stepMarket(fair, prev.market ?? createMarketState(fair), volatility === 1 ? config : { ...config, volatility: config.volatility * volatility }, rng);
+  const result = advanceSimulation(prev, market.price, config, rng);
+  const fills = result.events.flatMap(e => (e.type === 'fill' ? [e] : []));
+  const impact = informedImpact(fills, config.market, config.tickSize);
+  return { ...result, state: { ...result.state, market: { ...market.state, impact } } };
+};
+
+export const applyStepToStats = (stats: SimulationStats, { state, events }: StepResult): SimulationStats => {
+  const pnl = markToMarketPnl(state);
+  const { spreadCapture, fees, funding } = state.ledger;
+  const penalties = state.margin?.penalties ?? 0;
+  const next = { ...stats };
+  events.forEach(e => {
+    if (e.type !== 'fill') return;
+    const notional = e.price * e.size;
+    next.trades++;
+    next.volume += notional;
+    if (e.side === 'buy') {
+      next.buys++;
+      next.buySize += e.size;
+      next.buyNotional += notional;
+    } else {
+      next.sells++;
+      next.sellSize += e.size;
+      next.sellNotional += notional;
+    }
+  });
+  // The position after the step is held for the step's duration
+  const dt = Math.max(0, state.time - stats.elapsed);
+  const atLimit = state.risk.active.some(key => key.startsWith('maxInventory'));
+  return {
+    ...next,
+    latency: state.latency.lastMs,
+    pnl,
+    spreadPnl: spreadCapture,
+    inventoryPnl: pnl - spreadCapture + fees + funding + penalties,
+    feePnl: -fees,
+    fundingPnl: -funding,
+    liquidationPnl: -penalties,
+    elapsed: state.time,
+    inventoryTime: stats.inventoryTime + state.inventory * dt,
+    absInventoryTime: stats.absInventoryTime + Math.abs(state.inventory) * dt,
+    timeAtLimit: stats.timeAtLimit + (atLimit ? dt : 0),
+  };
+};
+
+export interface StatsBreakdown {
+  avgBuyPrice: number | null;
+  avgSellPrice: number | null;
+  roundTripSize: number;          // Size both bought and sold
+  roundTripSpread: number | null; // Average sell minus average buy, per unit round-tripped
+  avgInventory: number;           // Time-weighted
+  avgAbsInventory: number;
+  limitShare: number;             // Fraction of session time at the inventory limit
+}
+
+/** Per-side averages and time-weighted inventory from accumulated stats. */
+export const statsBreakdown = (stats: SimulationStats): StatsBreakdown => {
+  const avgBuyPrice = stats.buySize > 0 ? stats.buyNotional / stats.buySize : null;
+  const avgSellPrice = stats.sellSize > 0 ? stats.sellNotional / stats.sellSize : null;
+  const perSecond = (x: number) => (stats.elapsed > 0 ? x / stats.elapsed : 0);
+  return {
+    avgBuyPrice,
+    avgSellPrice,
+    roundTripSize: Math.min(stats.buySize, stats.sellSize),
+    roundTripSpread: avgBuyPrice !== null && avgSellPrice !== null ? avgSellPrice - avgBuyPrice : null,
+    avgInventory: perSecond(stats.inventoryTime),
+    avgAbsInventory: perSecond(stats.absInventoryTime),
+    limitShare: perSecond(stats.timeAtLimit),
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { computeQuotes, optimalSpread, QuoteParams, timeLeft } from './stoikov';
+
+const params: QuoteParams = { riskAversion: 0.1, volatility: 0.5, model: 'closedForm', arrivalA: 5, arrivalK: 1.5, horizon: 60 };
+
+describe('computeQuotes (closed form)', () => {
+  it('matches Avellaneda-Stoikov: r = s − qγσ²(T−t), spread = γσ²(T−t) + (2/γ)ln(1 + γ/k)', () => {
+    const mid = 1000;
+    const inventory = 3;
+    const elapsed = 15;
+    const tau = 60 - 15;
+    const { riskAversion: g, volatility: s, arrivalK: k } = params;
+
+    const quotes = computeQuotes(mid, inventory, params, elapsed);
+    const reservation = mid - inventory * g * s * s * tau;
+    const spread = g * s * s * tau + (2 / g) * Math.log(1 + g / k);
+
+    expect(quotes.reservationPrice).toBeCloseTo(reservation, 10);
+    expect(quotes.theoreticalSpread).toBeCloseTo(spread, 10);
+    expect(quotes.bid).toBeCloseTo(reservation - spread / 2, 10);
+    expect(quotes.ask).toBeCloseTo(reservation + spread / 2, 10);
+  });
+
+  it('is symmetric around mid when flat and skews away from the position', () => {
+    const flat = computeQuotes(1000, 0, params);
+    expect(flat.reservationPrice).toBe(1000);
+    expect(flat.ask - 1000).toBeCloseTo(1000 - flat.bid, 10);
+
+    expect(computeQuotes(1000, 2, params).reservationPrice).toBeLessThan(1000);
+    expect(computeQuotes(1000, -2, params).reservationPrice).toBeGreaterThan(1000);
+  });
+
+  it('rolls the session over at the horizon', () => {
+    expect(timeLeft(0, 60)).toBe(60);
+    expect(timeLeft(45, 60)).toBe(15);
+    expect(timeLeft(75, 60)).toBe(45);
+    expect(optimalSpread(0.1, 0.5, 1.5, timeLeft(75, 60))).toBeCloseTo(optimalSpread(0.1, 0.5, 1.5, 45), 12);
+  });
+});
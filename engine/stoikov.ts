@@ -0,0 +1,72 @@
+// Avellaneda-Stoikov quoting math shared by the live Simulation and the Backtest.
+
+export const INITIAL_PRICE = 1000;
+export const INITIAL_CASH = 10000;
+
+// 'simplified' is the original hand-tuned loop; 'closedForm' is Avellaneda & Stoikov (2008)
+export type QuoteModel = 'simplified' | 'closedForm';
+
+export interface QuoteParams {
+  riskAversion: number; // Gamma
+  volatility: number;   // Sigma (price units per √s)
+  model: QuoteModel;
+  arrivalA: number;     // A: order arrival rate at the mid (1/s)
+  arrivalK: number;     // k: decay of arrival rate with quote distance
+  horizon: number;      // T: session length (s); t wraps at T so sessions roll over
+}
+
+export interface Quotes {
+  reservationPrice: number;
+  bid: number;
+  ask: number;
+  theoreticalSpread: number; // Closed-form optimal total spread, shown even in simplified mode
+}
+
+/** Optimal total spread: γσ²(T−t) + (2/γ)·ln(1 + γ/k) */
+export const optimalSpread = (gamma: number, sigma: number, k: number, timeLeft: number): number =>
+  gamma * sigma * sigma * timeLeft + (2 / gamma) * Math.log(1 + gamma / k);
+
+/** Remaining session time T − t for a clock that has been running `elapsed` seconds. */
+export const timeLeft = (elapsed: number, horizon: number): number => horizon - (elapsed % horizon);
+
+export const computeQuotes = (mid: number, inventory: number, params: QuoteParams, elapsed = 0): Quotes => {
+  const { riskAversion: gamma, volatility: sigma } = params;
+  const tau = timeLeft(elapsed, params.horizon);
+  const theoreticalSpread = optimalSpread(gamma, sigma, params.arrivalK, tau);
+
+  if (params.model === 'closedForm') {
+    // r = s - q * gamma * sigma^2 * (T - t)
+    const reservationPrice = mid - inventory * gamma * sigma * sigma * tau;
+    return {
+      reservationPrice,
+      bid: reservationPrice - theoreticalSpread / 2,
+      ask: reservationPrice + theoreticalSpread / 2,
+      theoreticalSpread,
+    };
+  }
+
+  // Hand-tuned on the per-tick σ setting; the constants are rescaled for σ per √s at the 50 ms tick
+  const inventorySkew = inventory * gamma * sigma * 1.94;
+  const reservationPrice = mid - inventorySkew;
+  const halfSpread = sigma * 0.31;
+  return {
+    reservationPrice,
+    bid: reservationPrice - halfSpread,
+    ask: reservationPrice + halfSpread,
+    theoreticalSpread,
+  };
+};
+
+export const DEFAULT_FILL_INTENSITY = 0.3;
+export const FILL_DECAY = 1.5; // Per price unit of quote distance
+
+// Matching Engine Simulation (Poisson Process): chance a quote at `distance` from mid is hit this tick
+export const fillProbability = (distance: number, intensity = DEFAULT_FILL_INTENSITY): number =>
+  Math.exp(-FILL_DECAY * distance) * intensity;
+
+/** λ(δ) = A·e^(−kδ) */
+export const arrivalIntensity = (distance: number, A: number, k: number): number => A * Math.exp(-k * distance);
+
+/** Probability of at least one arrival within `dt` seconds for a Poisson process with rate λ(δ). */
+export const arrivalProbability = (distance: number, A: number, k: number, dt: number): number =>
+  1 - Math.exp(-arrivalIntensity(distance, A, k) * dt);
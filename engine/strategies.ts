@@ -0,0 +1,157 @@
+// Pluggable quoting strategies. A strategy sees the market and our inventory and returns the ladder it wants;
+// the engine rounds it to ticks, applies post-only clamping and the risk layer, and works the orders.
+import { QuoteLadder } from '../types';
+import { computeQuotes } from './stoikov';
+
+export type StrategyId = 'avellanedaStoikov' | 'fixedSpread' | 'glft' | 'grid';
+
+export type StrategyParams = Record<string, number>;
+
+export type StrategyParam =
+  | { key: string; label: string; kind: 'range'; min: number; max: number; step: number; digits?: number }
+  | { key: string; label: string; kind: 'choice'; options: [number, string][] };
+
+export interface StrategyConfig {
+  id: StrategyId;
+  params: StrategyParams;
+}
+
+export interface StrategyInput {
+  mid: number;
+  inventory: number;  // Includes correlated inventory held in other coins
+  time: number;       // Session seconds
+  volatility: number; // σ estimate (price units per √s)
+  arrivalA: number;   // Order arrival λ(δ) = A·e^(−kδ) the strategy assumes
+  arrivalK: number;
+  tickSize: number;
+  quoteSize: number;
+}
+
+export interface StrategyQuotes extends QuoteLadder {
+  reservationPrice: number;
+  theoreticalSpread: number; // The strategy's own target spread, for the spread chart
+}
+
+export interface Strategy {
+  id: StrategyId;
+  label: string;
+  description: string;
+  params: StrategyParam[];
+  defaults: StrategyParams;
+  quote: (input: StrategyInput, params: StrategyParams) => StrategyQuotes;
+}
+
+const avellanedaStoikov: Strategy = {
+  id: 'avellanedaStoikov',
+  label: 'Avellaneda-Stoikov',
+  description: '保留价随库存偏移，价差由 γ、σ 和剩余时间决定。',
+  params: [
+    { key: 'riskAversion', label: 'Inventory Aversion (γ)', kind: 'range', min: 0.01, max: 0.5, step: 0.01 },
+    { key: 'closedForm', label: 'Model', kind: 'choice', options: [[0, '简化模型'], [1, '闭式解 (A-S 2008)']] },
+    { key: 'horizon', label: 'Session Horizon (T, s)', kind: 'range', min: 5, max: 600, step: 5, digits: 0 },
+  ],
+  defaults: { riskAversion: 0.1, closedForm: 0, horizon: 60 },
+  quote: (input, p) => {
+    const q = computeQuotes(input.mid, input.inventory, {
+      riskAversion: p.riskAversion,
+      volatility: input.volatility,
+      model: p.closedForm ? 'closedForm' : 'simplified',
+      arrivalA: input.arrivalA,
+      arrivalK: input.arrivalK,
+      horizon: p.horizon,
+    }, input.time);
+    return {
+      reservationPrice: q.reservationPrice,
+      bids: [{ price: q.bid, size: input.quoteSize }],
+      asks: [{ price: q.ask, size: input.quoteSize }],
+      theoreticalSpread: q.theoreticalSpread,
+    };
+  },
+};
+
+const fixedSpread: Strategy = {
+  id: 'fixedSpread',
+  label: 'Fixed Spread',
+  description: '围绕中间价对称挂单，不随库存偏移（基准策略）。',
+  params: [
+    { key: 'halfSpreadTicks', label: 'Half Spread (ticks)', kind: 'range', min: 1, max: 30, step: 1, digits: 0 },
+  ],
+  defaults: { halfSpreadTicks: 5 },
+  quote: (input, p) => {
+    const half = p.halfSpreadTicks * input.tickSize;
+    return {
+      reservationPrice: input.mid,
+      bids: [{ price: input.mid - half, size: input.quoteSize }],
+      asks: [{ price: input.mid + half, size: input.quoteSize }],
+      theoreticalSpread: 2 * half,
+    };
+  },
+};
+
+/**
+ * Guéant, Lehalle & Fernandez-Tapia (2013) asymptotic quotes, with inventory q counted in quote lots:
+ *   δᵇ = (1/γ)·ln(1 + γ/k) + (2q + 1)/2 · ω,   δᵃ = (1/γ)·ln(1 + γ/k) − (2q − 1)/2 · ω
+ *   ω = √( σ²γ / (2kA) · (1 + γ/k)^(1 + k/γ) )
+ * At the inventory bound ±Q the side that would extend the position is not quoted.
+ */
+const glft: Strategy = {
+  id: 'glft',
+  label: 'GLFT',
+  description: '无限时域的最优做市解，库存触及 ±Q 时停止继续加仓一侧。',
+  params: [
+    { key: 'riskAversion', label: 'Inventory Aversion (γ)', kind: 'range', min: 0.01, max: 0.5, step: 0.01 },
+    { key: 'maxLots', label: 'Inventory Bound (Q, lots)', kind: 'range', min: 1, max: 20, step: 1, digits: 0 },
+  ],
+  defaults: { riskAversion: 0.1, maxLots: 5 },
+  quote: (input, p) => {
+    const { riskAversion: gamma, maxLots } = p;
+    const { arrivalA: A, arrivalK: k, volatility: sigma } = input;
+    const q = input.inventory / input.quoteSize;
+    const base = (1 / gamma) * Math.log(1 + gamma / k);
+    const omega = Math.sqrt(((sigma * sigma * gamma) / (2 * k * A)) * Math.pow(1 + gamma / k, 1 + k / gamma));
+    const bidDepth = base + ((2 * q + 1) / 2) * omega;
+    const askDepth = base - ((2 * q - 1) / 2) * omega;
+    return {
+      reservationPrice: input.mid - q * omega,
+      bids: q < maxLots ? [{ price: input.mid - bidDepth, size: input.quoteSize }] : [],
+      asks: q > -maxLots ? [{ price: input.mid + askDepth, size: input.quoteSize }] : [],
+      theoreticalSpread: bidDepth + askDepth,
+    };
+  },
+};
+
+const grid: Strategy = {
+  id: 'grid',
+  label: 'Layered Grid',
+  description: '每侧多档挂单，整体网格随库存平移。',
+  params: [
+    { key: 'levels', label: 'Levels per Side', kind: 'range', min: 1, max: 8, step: 1, digits: 0 },
+    { key: 'offsetTicks', label: 'First Level (ticks)', kind: 'range', min: 1, max: 20, step: 1, digits: 0 },
+    { key: 'stepTicks', label: 'Level Spacing (ticks)', kind: 'range', min: 1, max: 10, step: 1, digits: 0 },
+    { key: 'skewTicks', label: 'Skew per Lot (ticks)', kind: 'range', min: 0, max: 5, step: 0.5, digits: 1 },
+  ],
+  defaults: { levels: 3, offsetTicks: 3, stepTicks: 2, skewTicks: 1 },
+  quote: (input, p) => {
+    const tick = input.tickSize;
+    const center = input.mid - (input.inventory / input.quoteSize) * p.skewTicks * tick;
+    const depths = Array.from({ length: p.levels }, (_, i) => (p.offsetTicks + i * p.stepTicks) * tick);
+    return {
+      reservationPrice: center,
+      bids: depths.map(d => ({ price: center - d, size: input.quoteSize })),
+      asks: depths.map(d => ({ price: center + d, size: input.quoteSize })),
+      theoreticalSpread: 2 * p.offsetTicks * tick,
+    };
+  },
+};
+
+export const STRATEGIES: Strategy[] = [avellanedaStoikov, fixedSpread, glft, grid];
+
+export const getStrategy = (id: StrategyId): Strategy => STRATEGIES.find(s => s.id === id) ?? avellanedaStoikov;
+
+export const DEFAULT_STRATEGY: StrategyConfig = { id: 'avellanedaStoikov', params: avellanedaStoikov.defaults };
+
+/** Runs the configured strategy; params missing from `config` fall back to the strategy's defaults. */
+export const runStrategy = (config: StrategyConfig, input: StrategyInput): StrategyQuotes => {
+  const strategy = getStrategy(config.id);
+  return strategy.quote(input, { ...strategy.defaults, ...config.params });
+};
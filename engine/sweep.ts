@@ -0,0 +1,214 @@
+// Parameter sweep: grid or random search over two parameters, scored on one shared path with walk-forward folds.
+import { maxDrawdown, sharpeRatio } from './backtest';
+import { marketPath, runRng } from './compare';
+import { createRng } from './rng';
+import { advanceSimulation, createInitialSimState, markToMarketPnl, SimConfig } from './simulation';
+import { getStrategy, StrategyConfig } from './strategies';
+
+export type SweepMetric = 'pnl' | 'sharpe' | 'maxDrawdown';
+export type SearchMode = 'grid' | 'random';
+
+export type Metrics = Record<SweepMetric, number>;
+
+// `key` is 'volatility' (the σ the strategy assumes) or one of the strategy's own parameters
+export interface SweepAxis {
+  key: string;
+  min: number;
+  max: number;
+  steps: number; // Grid points, and heatmap cells, along this axis
+}
+
+export interface SweepRequest {
+  strategy: StrategyConfig; // Values for the parameters that are not swept
+  x: SweepAxis;
+  y: SweepAxis;
+  mode: SearchMode;
+  samples: number; // Random search only
+  seed: number;
+  ticks: number;
+  folds: number;   // Walk-forward folds; 0 scores the whole path only
+}
+
+export interface SweepPoint {
+  x: number;
+  y: number;
+  full: Metrics;  // Whole path
+  train: Metrics; // Mean over the walk-forward training windows
+  test: Metrics;  // Mean over the walk-forward test windows
+}
+
+export interface WalkForwardFold {
+  trainStart: number; // Tick indices; the test window is [trainEnd, testEnd)
+  trainEnd: number;
+  testEnd: number;
+  best: number;       // Index of the point with the best training score
+  train: number;      // Its score in the training window
+  test: number;       // ... and in the test window that follows
+  testRank: number;   // 1 = it was also the best point out of sample
+}
+
+export interface WalkForwardReport {
+  folds: WalkForwardFold[];
+  score: number;     // Mean test score of the walk-forward picks
+  hindsight: number; // Best mean test score of any single point, which no one could have picked in advance
+}
+
+export interface SweepResult {
+  request: SweepRequest;
+  points: SweepPoint[];
+  walkForward: Record<SweepMetric, WalkForwardReport>; // Picks differ by the metric being optimised
+}
+
+// Messages to and from sweep.worker.ts
+export interface SweepJob {
+  base: SimConfig;
+  request: SweepRequest;
+}
+
+export type SweepWorkerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: SweepResult }
+  | { type: 'error'; message: string };
+
+export const SWEEP_METRICS: SweepMetric[] = ['pnl', 'sharpe', 'maxDrawdown'];
+
+export const METRIC_LABELS: Record<SweepMetric, string> = { pnl: 'PnL', sharpe: 'Sharpe (per s)', maxDrawdown: 'Max Drawdown' };
+
+// Drawdown is a cost; the others are rewards
+export const higherIsBetter = (metric: SweepMetric): boolean => metric !== 'maxDrawdown';
+
+const better = (metric: SweepMetric, a: number, b: number): boolean => (higherIsBetter(metric) ? a > b : a < b);
+
+/** Parameters that can be put on an axis for `strategy`, with their slider ranges as the default sweep range. */
+export const sweepableParams = (strategy: StrategyConfig): { key: string; label: string; min: number; max: number }[] => [
+  { key: 'volatility', label: 'Volatility (σ)', min: 0.1, max: 2 },
+  ...getStrategy(strategy.id).params.flatMap(p => (p.kind === 'range' ? [{ key: p.key, label: p.label, min: p.min, max: p.max }] : [])),
+];
+
+/** The SimConfig for one point of the sweep. */
+export const pointConfig = (base: SimConfig, strategy: StrategyConfig, values: Record<string, number>): SimConfig => {
+  const { volatility, ...params } = values;
+  return {
+    ...base,
+    strategyVolatility: volatility ?? base.strategyVolatility,
+    strategy: { ...strategy, params: { ...strategy.params, ...params } },
+  };
+};
+
+const axisValues = (axis: SweepAxis): number[] =>
+  axis.steps <= 1 ? [axis.min] : Array.from({ length: axis.steps }, (_, i) => axis.min + ((axis.max - axis.min) * i) / (axis.steps - 1));
+
+/** The (x, y) pairs to evaluate: the full grid, or `samples` uniform draws from the box. */
+export const samplePoints = (request: SweepRequest): [number, number][] => {
+  if (request.mode === 'grid') {
+    const ys = axisValues(request.y);
+    return axisValues(request.x).flatMap(x => ys.map(y => [x, y] as [number, number]));
+  }
+  const rng = createRng(request.seed + 2);
+  const draw = (axis: SweepAxis) => axis.min + rng() * (axis.max - axis.min);
+  return Array.from({ length: request.samples }, () => [draw(request.x), draw(request.y)]);
+};
+
+/** Rolling walk-forward windows: the path is cut into `folds + 1` equal segments and each fold trains on one and tests on the next. */
+export const walkForwardWindows = (ticks: number, folds: number): [number, number, number][] => {
+  const segment = Math.floor(ticks / (folds + 1));
+  return Array.from({ length: folds }, (_, k) => [k * segment, (k + 1) * segment, (k + 2) * segment]);
+};
+
+// Scores a window of an equity curve as if the session started at its first tick
+const windowMetrics = (equity: number[], start: number, end: number, dtMs: number): Metrics => {
+  const slice = start > 0 ? equity.slice(start - 1, end) : [0, ...equity.slice(0, end)];
+  return {
+    pnl: slice[slice.length - 1] - slice[0],
+    sharpe: sharpeRatio(slice, slice.map((_, i) => i * dtMs)),
+    maxDrawdown: maxDrawdown(slice),
+  };
+};
+
+const meanMetrics = (all: Metrics[]): Metrics => {
+  const n = Math.max(1, all.length);
+  return {
+    pnl: all.reduce((a, m) => a + m.pnl, 0) / n,
+    sharpe: all.reduce((a, m) => a + m.sharpe, 0) / n,
+    maxDrawdown: all.reduce((a, m) => a + m.maxDrawdown, 0) / n,
+  };
+};
+
+/** Equity after every tick for one configuration on `path`. */
+export const equityCurve = (config: SimConfig, path: number[], seed: number): number[] => {
+  const rng = runRng(seed);
+  let state = createInitialSimState(config);
+  return path.map(fair => {
+    state = advanceSimulation(state, fair, config, rng).state;
+    return markToMarketPnl(state);
+  });
+};
+
+/**
+ * Picks the best point on each training window by `metric` and scores that pick on the window after it.
+ * `curves` are the points' equity curves, in the same order as `points`.
+ */
+const walkForward = (
+  points: SweepPoint[],
+  curves: number[][],
+  windows: [number, number, number][],
+  metric: SweepMetric,
+  dtMs: number
+): WalkForwardReport => {
+  const folds = windows.map(([trainStart, trainEnd, testEnd]) => {
+    const train = curves.map(c => windowMetrics(c, trainStart, trainEnd, dtMs)[metric]);
+    const test = curves.map(c => windowMetrics(c, trainEnd, testEnd, dtMs)[metric]);
+    const best = train.reduce((b, v, i) => (better(metric, v, train[b]) ? i : b), 0);
+    return {
+      trainStart,
+      trainEnd,
+      testEnd,
+      best,
+      train: train[best],
+      test: test[best],
+      testRank: 1 + test.filter(v => better(metric, v, test[best])).length,
+    };
+  });
+  const testMeans = points.map(p => p.test[metric]);
+  return {
+    folds,
+    score: folds.length ? folds.reduce((a, f) => a + f.test, 0) / folds.length : 0,
+    hindsight: testMeans.reduce((b, v) => (better(metric, v, b) ? v : b), testMeans[0] ?? 0),
+  };
+};
+
+/**
+ * Evaluates every point on one path from `request.seed` (so points differ only by parameters), then runs the
+ * walk-forward for each metric. `onProgress` is called after each point so a worker can report back.
+ */
+export const runSweep = (base: SimConfig, request: SweepRequest, onProgress?: (done: number, total: number) => void): SweepResult => {
+  const path = marketPath(base, request.seed, request.ticks);
+  const dtMs = base.dt * 1000;
+  const windows = walkForwardWindows(request.ticks, request.folds);
+  const pairs = samplePoints(request);
+
+  const curves: number[][] = [];
+  const points = pairs.map(([x, y], i) => {
+    const config = pointConfig(base, request.strategy, { [request.x.key]: x, [request.y.key]: y });
+    const equity = equityCurve(config, path, request.seed);
+    curves.push(equity);
+    onProgress?.(i + 1, pairs.length);
+    return {
+      x,
+      y,
+      full: windowMetrics(equity, 0, equity.length, dtMs),
+      train: meanMetrics(windows.map(([s, e]) => windowMetrics(equity, s, e, dtMs))),
+      test: meanMetrics(windows.map(([, s, e]) => windowMetrics(equity, s, e, dtMs))),
+    };
+  });
+
+  return {
+    request,
+    points,
+    walkForward: {
+      pnl: walkForward(points, curves, windows, 'pnl', dtMs),
+      sharpe: walkForward(points, curves, windows, 'sharpe', dtMs),
+      maxDrawdown: walkForward(points, curves, windows, 'maxDrawdown', dtMs),
+    },
+  };
+};
@@ -0,0 +1,13 @@
+// Runs a parameter sweep off the main thread: progress after every point, then the result.
+import { runSweep, SweepJob, SweepWorkerMessage } from './sweep';
+
+const post = (msg: SweepWorkerMessage) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<SweepJob>) => {
+  try {
+    const result = runSweep(e.data.base, e.data.request, (done, total) => post({ type: 'progress', done, total }));
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: (err as Error).message });
+  }
+};
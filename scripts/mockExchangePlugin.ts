@@ -0,0 +1,67 @@
+// Vite dev-server plugin serving a mock Hyperliquid exchange, so signed actions from the Orders page can be sent
+// somewhere that checks them without touching the real venue:
+//   POST /mock/exchange   body as for https://api.hyperliquid.xyz/exchange (testnet signing)
+//   POST /mock/info       {"type":"openOrders"} lists resting orders; {"type":"reset"} clears all state
+// State lives in memory for the life of the dev server.
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { privateKeyToAddress } from '../engine/crypto';
+import { TEST_PRIVATE_KEY } from '../engine/exchange';
+import { createMockExchange, handleExchange, openOrders } from '../engine/mockExchange';
+import { INITIAL_PRICE } from '../engine/stoikov';
+
+// The simulator's asset is ETH around INITIAL_PRICE, so its quotes can be sent as they are
+const MIDS: Record<number, number> = { 0: 65000, 1: INITIAL_PRICE, 5: 150 };
+
+const create = () => createMockExchange([privateKeyToAddress(TEST_PRIVATE_KEY)], MIDS);
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const mockExchange = (): Plugin => ({
+  name: 'mock-exchange',
+  configureServer(server) {
+    let state = create();
+
+    server.middlewares.use('/mock/exchange', async (req, res) => {
+      if (req.method !== 'POST') return send(res, 405, { status: 'err', response: 'Method not allowed' });
+      const body = await readJson(req).catch(() => null);
+      if (body === null) return send(res, 422, { status: 'err', response: 'Failed to deserialize the JSON body into the target type' });
+      // Anything the checks above miss must still answer the request rather than leave it hanging
+      try {
+        const result = handleExchange(state, body, Date.now());
+        state = result.state;
+        send(res, 200, result.response);
+      } catch (e) {
+        send(res, 400, { status: 'err', response: e instanceof Error ? e.message : String(e) });
+      }
+    });
+
+    server.middlewares.use('/mock/info', async (req, res) => {
+      const body = (await readJson(req).catch(() => null)) as { type?: string } | null;
+      if (body?.type === 'openOrders') return send(res, 200, openOrders(state));
+      if (body?.type === 'reset') {
+        state = create();
+        return send(res, 200, { status: 'ok' });
+      }
+      send(res, 422, { status: 'err', response: 'Unknown info request' });
+    });
+  },
+});
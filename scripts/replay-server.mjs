@@ -0,0 +1,204 @@
+// Local replay of a recorded Hyperliquid WebSocket session, so the app's market-data adapter can be developed offline.
+//
+//   npm run replay -- [file.jsonl] [--port 8765] [--speed 1] [--no-loop]
+//
+// The recording is JSONL, one server message per line exactly as Hyperliquid sends it:
+//   {"channel":"l2Book","data":{"coin":"ETH","time":1700000000000,"levels":[[{"px":"3000.1","sz":"1.2","n":3},...],[...]]}}
+//   {"channel":"trades","data":[{"coin":"ETH","side":"B","px":"3000.2","sz":"0.5","time":1700000000100,"tid":1}]}
+// Clients subscribe as they would on the real feed; each only receives the channels/coins it subscribed to,
+// paced by the recorded `time` deltas. Plain Node (no dependencies): just enough RFC 6455 for text frames.
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const here = dirname(fileURLToPath(import.meta.url));
+
+const parseArgs = (argv) => {
+  const opts = { file: resolve(here, 'replay-eth.jsonl'), port: 8765, speed: 1, loop: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--port') opts.port = Number(argv[++i]);
+    else if (arg === '--speed') opts.speed = Number(argv[++i]);
+    else if (arg === '--no-loop') opts.loop = false;
+    else opts.file = resolve(arg);
+  }
+  return opts;
+};
+
+const messageTime = (msg) => (Array.isArray(msg.data) ? msg.data[0]?.time : msg.data?.time) ?? 0;
+const messageCoin = (msg) => (Array.isArray(msg.data) ? msg.data[0]?.coin : msg.data?.coin);
+
+// Each loop is shifted forward in time so clients always see increasing timestamps
+const shiftTime = (msg, offset) => {
+  if (offset === 0) return msg;
+  const data = Array.isArray(msg.data)
+    ? msg.data.map(t => ({ ...t, time: t.time + offset }))
+    : { ...msg.data, time: msg.data.time + offset };
+  return { ...msg, data };
+};
+
+const loadRecording = (file) => {
+  const messages = readFileSync(file, 'utf8')
+    .split('\n')
+    .map((line, idx) => {
+      if (!line.trim()) return null;
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`${file}:${idx + 1} is not valid JSON`);
+      }
+    })
+    .filter(msg => msg && (msg.channel === 'l2Book' || msg.channel === 'trades'));
+  if (messages.length === 0) throw new Error(`${file} has no l2Book/trades messages`);
+  return messages;
+};
+
+// Server -> client frames are never masked
+const encodeFrame = (payload, opcode = 0x1) => {
+  const body = Buffer.from(payload);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+};
+
+// Client -> server frames are always masked. Returns the complete frames in `buffer` and the unconsumed rest.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let pos = offset + 2;
+    if (length === 126) {
+      if (buffer.length < pos + 2) break;
+      length = buffer.readUInt16BE(pos);
+      pos += 2;
+    } else if (length === 127) {
+      if (buffer.length < pos + 8) break;
+      length = Number(buffer.readBigUInt64BE(pos));
+      pos += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < pos + maskLength + length) break;
+    const mask = masked ? buffer.subarray(pos, pos + 4) : null;
+    pos += maskLength;
+    const payload = Buffer.from(buffer.subarray(pos, pos + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = pos + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const opts = parseArgs(process.argv.slice(2));
+const recording = loadRecording(opts.file);
+const recordedCoins = [...new Set(recording.map(messageCoin))].join(', ');
+const recordingSpan = messageTime(recording[recording.length - 1]) - messageTime(recording[0]) + 1000;
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket endpoint: connect with ws://\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const subscriptions = new Set(); // `${type}:${coin}`
+  let pending = Buffer.alloc(0);
+  let cursor = 0;
+  let loopOffset = 0;
+  let timer = null;
+  const send = (msg) => socket.writable && socket.write(encodeFrame(JSON.stringify(msg)));
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = null;
+  };
+
+  // Streams from `cursor`, sleeping for the recorded gap between consecutive messages
+  const schedule = () => {
+    if (timer || subscriptions.size === 0) return;
+    if (cursor >= recording.length) {
+      if (!opts.loop) return;
+      cursor = 0;
+      loopOffset += recordingSpan;
+    }
+    const prev = recording[cursor - 1];
+    const gap = prev ? Math.max(0, messageTime(recording[cursor]) - messageTime(prev)) / opts.speed : 0;
+    timer = setTimeout(() => {
+      timer = null;
+      const msg = recording[cursor++];
+      if (subscriptions.has(`${msg.channel}:${messageCoin(msg)}`)) send(shiftTime(msg, loopOffset));
+      schedule();
+    }, gap);
+  };
+
+  const handleText = (text) => {
+    let msg;
+    try {
+      msg = JSON.parse(text);
+    } catch {
+      send({ channel: 'error', data: `Invalid JSON: ${text}` });
+      return;
+    }
+    if (msg.method === 'ping') {
+      send({ channel: 'pong' });
+    } else if (msg.method === 'subscribe' || msg.method === 'unsubscribe') {
+      const { type, coin } = msg.subscription ?? {};
+      if (type !== 'l2Book' && type !== 'trades') {
+        send({ channel: 'error', data: `Unsupported subscription type: ${type}` });
+        return;
+      }
+      if (msg.method === 'subscribe') subscriptions.add(`${type}:${coin}`);
+      else subscriptions.delete(`${type}:${coin}`);
+      send({ channel: 'subscriptionResponse', data: { method: msg.method, subscription: msg.subscription } });
+      if (subscriptions.size === 0) stop();
+      else schedule();
+    }
+  };
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = Buffer.from(rest);
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x1) handleText(payload.toString('utf8'));
+      else if (opcode === 0x9) socket.write(encodeFrame(payload, 0xa));
+      else if (opcode === 0x8) {
+        socket.end(encodeFrame(payload, 0x8));
+        stop();
+      }
+    });
+  });
+  socket.on('close', stop);
+  socket.on('error', stop);
+});
+
+server.listen(opts.port, () => {
+  console.log(`Replaying ${recording.length} messages (${recordedCoins}) from ${opts.file}`);
+  console.log(`ws://localhost:${opts.port}  speed x${opts.speed}${opts.loop ? ', looping' : ''}`);
+});
@@ -4,6 +4,11 @@ export enum Phase {
   Architecture = 'ARCH',
   Code = 'CODE',
   Backtest = 'BACKTEST',
+  Compare = 'COMPARE',
+  Sweep = 'SWEEP',
+  Portfolio = 'PORTFOLIO',
+  Amm = 'AMM',
+  Orders = 'ORDERS',
   Simulation = 'SIMULATION',
   Reality = 'REALITY'
 }
@@ -15,6 +20,18 @@ export interface Order {
   side: 'buy' | 'sell';
 }
 
+export interface BookLevel {
+  price: number;
+  orders: Order[]; // FIFO: index 0 is first in line
+}
+
+export interface SimBook {
+  bids: BookLevel[]; // best (highest) first
+  asks: BookLevel[]; // best (lowest) first
+  fairValue: number; // Latent "true" price the background flow trades around
+  nextId: number;
+}
+
 export interface MarketState {
   price: number;
   timestamp: number;
@@ -22,7 +39,241 @@ export interface MarketState {
 
 export interface SimulationStats {
   pnl: number;
-  trades: number;
-  volume: number;
-  latency: number;
-}
\ No newline at end of file
+  trades: number;       // Fills
+  volume: number;       // Notional traded, Σ price·size
+  latency: number;      // Last sampled tick-to-trade latency (ms)
+  // Per side: fill counts, size and notional (average price = notional / size)
+  buys: number;
+  sells: number;
+  buySize: number;
+  sellSize: number;
+  buyNotional: number;
+  sellNotional: number;
+  // Time-weighted inventory: position integrated over the `elapsed` session seconds
+  elapsed: number;
+  inventoryTime: number;
+  absInventoryTime: number;
+  timeAtLimit: number;  // Seconds the max-inventory rule was suppressing one side
+  // PnL attribution: pnl = spreadPnl + inventoryPnl + feePnl + fundingPnl + liquidationPnl
+  spreadPnl: number;    // Edge captured vs mid at fill time
+  inventoryPnl: number; // Mark-to-market of the position (includes adverse selection)
+  feePnl: number;       // Negative when paying fees, positive when earning rebates
+  fundingPnl: number;
+  liquidationPnl: number; // Penalties paid on forced liquidations
+}
+
+export type RiskRule = 'maxInventory' | 'maxNotional' | 'maxHedgedNotional' | 'maxDrawdown' | 'dailyLoss' | 'orderRate';
+
+// The rest of a multi-asset book as seen from one coin, for the correlation-adjusted notional limit (USDC)
+export interface HedgeContext {
+  cross: number; // Σⱼ≠ᵢ ρᵢⱼ·δⱼ over the other coins' deltas
+  rest: number;  // The other coins' hedged notional, squared
+  limit: number;
+}
+
+export interface RiskBreach {
+  time: number;
+  rule: RiskRule;
+  action: 'suppressBid' | 'suppressAsk' | 'halt' | 'throttle';
+  reason: string;
+}
+
+export interface RiskState {
+  suppressBid: boolean;
+  suppressAsk: boolean;
+  throttled: boolean;      // Order rate limit hit: resting quotes are left as they are
+  halted: boolean;         // Kill-switch: latched until manually reset
+  haltReason?: string;
+  peakPnl: number;
+  day: number;             // Session day index for the daily loss limit
+  dayStartPnl: number;
+  orderTimes: number[];    // Sim times of recent order placements (1s window)
+  active: string[];        // `${rule}:${action}` currently firing, so each breach is logged once
+  breaches: RiskBreach[];  // Most recent last
+}
+
+export interface Ledger {
+  spreadCapture: number;
+  fees: number;           // Paid (negative = net rebate)
+  funding: number;        // Paid (negative = received)
+  volume: number;         // Session traded notional, drives the fee tier
+  fundingRate: number;    // Current per-interval rate
+  nextFundingTime: number;
+}
+
+export interface QuoteLevel {
+  price: number;
+  size: number;
+  id?: string; // Our order id, once the quoter has sent the level as an order
+}
+
+// Our quotes on both sides, best level first
+export interface QuoteLadder {
+  bids: QuoteLevel[];
+  asks: QuoteLevel[];
+}
+
+export type OrderStatus = 'new' | 'acked' | 'partiallyFilled' | 'filled' | 'cancelled' | 'rejected';
+
+// One of our orders as the gateway tracks it, from the place request to a terminal status
+export interface TrackedOrder extends Order {
+  status: OrderStatus;
+  filled: number;
+  createdAt: number; // Sim time the place request was sent
+  updatedAt: number;
+  reason?: string;   // Why it was rejected
+}
+
+export interface GatewayState {
+  tokens: number;         // Rate-limit bucket: requests that can be sent right now
+  refilledAt: number;
+  reserved: number;       // Requests budgeted for updates still in flight
+  nextId: number;
+  open: TrackedOrder[];   // New, acked or partially filled
+  closed: TrackedOrder[]; // Most recent last
+  counts: Record<OrderStatus, number>; // Orders that have reached each status
+  requests: number;       // Place, cancel and modify requests sent
+  skipped: number;        // Requests the quoter wanted to send but left out for lack of budget
+  throttled: boolean;     // The last quote decision was cut short by the rate limit
+  windowStart: number;    // Start of the current one-minute window
+  windowRequests: number; // Requests sent in the current window
+  lastWindowRequests: number;
+}
+
+// A quote update in flight: `null` cancels that side, `undefined` leaves it untouched
+export interface PendingQuote {
+  liveAt: number; // Sim time the update reaches the matching engine
+  bids?: QuoteLevel[] | null;
+  asks?: QuoteLevel[] | null;
+  requests?: number; // Requests the quoter budgeted for this update
+}
+
+export interface LatencyState {
+  pending: PendingQuote[]; // Oldest first
+  desired: QuoteLadder;    // What the strategy wants right now; the live quotes lag behind it
+  lastMs: number;
+  samples: number[];       // Recent tick-to-trade totals (ms)
+  staleLoss: number;       // PnL given up by fills on stale quotes (positive = lost)
+  staleFills: number;
+}
+
+// Per-path state of the market generator, carried from tick to tick
+export interface MarketModelState {
+  anchor: number;        // Starting price: GBM scales σ to it, OU reverts to it
+  varianceRatio: number; // GARCH conditional variance as a multiple of the base σ²
+  trend: number;         // Regime switching: 0 = calm, ±1 = trending up/down
+  impact: number;        // Informed move owed from our last fills, applied on the next tick
+}
+
+// One second of squared mid changes, for the rolling-window volatility estimate
+export interface VarianceBucket {
+  second: number;
+  sumSq: number;
+  seconds: number;
+}
+
+// Online estimates of σ, A and k from the mid path and our fills
+export interface CalibrationState {
+  lastMid: number;
+  lastTime: number;
+  samples: number;                // Mid changes seen
+  ewmaVariance: number;           // Per second
+  buckets: VarianceBucket[];      // Oldest first
+  // Quote exposure per distance bucket (decayed): ticks resting there, seconds, and ticks that were hit
+  ticks: number[];
+  seconds: number[];
+  hits: number[];
+  sigma: number | null;           // Price units per √s
+  arrivalA: number | null;
+  arrivalK: number | null;
+}
+
+export interface Liquidation {
+  time: number;
+  side: 'buy' | 'sell'; // Side of the closing trade
+  price: number;
+  size: number;
+  penalty: number;
+}
+
+export interface MarginState {
+  liquidations: number;
+  penalties: number;        // USDC lost to liquidation penalties
+  last?: Liquidation;
+}
+
+// Stress scenarios: scripted market and venue events, defined as data. Times are seconds after injection.
+export type ScenarioEffect =
+  | { type: 'price'; path: [number, number][] }  // (seconds into the step, move as a fraction of the starting price), linear in between; the last move persists
+  | { type: 'volatility'; multiplier: number }     // Generator σ multiplier
+  | { type: 'liquidity'; remaining: number }       // Fraction of background liquidity left
+  | { type: 'toxicFlow'; side: 'buy' | 'sell'; intensity: number; drift: number } // Aggressor side, hit-rate multiplier on the quotes it takes, price drift its way (fraction/s)
+  | { type: 'feedGap' }                             // Our market-data feed is down: no new prices reach the quoter
+  | { type: 'rejects'; rate: number };             // Fraction of our order placements the exchange rejects
+
+export interface ScenarioStep {
+  at: number;
+  duration: number;
+  effect: ScenarioEffect;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  duration: number; // Length of the report window
+  steps: ScenarioStep[];
+}
+
+// What the active steps add up to at one instant
+export interface StressEffects {
+  priceShift: number; // Fraction of the starting price
+  volatility: number;
+  liquidity: number;
+  toxic: { side: 'buy' | 'sell'; intensity: number } | null;
+  feedStale: boolean;
+  rejectRate: number;
+}
+
+export interface ScenarioReport {
+  pnl: number;          // Change since injection
+  peakPnl: number;      // Session PnL, for the drawdown
+  maxDrawdown: number;
+  maxInventory: number; // Largest absolute position
+  riskFired: RiskRule[];
+  halted: boolean;      // Kill-switch fired during the scenario
+  liquidations: number;
+  rejected: number;     // Our orders rejected by the exchange
+}
+
+export interface StressState {
+  scenario: Scenario;
+  startedAt: number;
+  basePrice: number;
+  applied: number;      // Price shift (price units) in the last stepped price
+  done: boolean;        // Report window over; a persisting price move stays applied
+  baseline: { pnl: number; liquidations: number; rejected: number };
+  report: ScenarioReport;
+}
+
+export interface SimState {
+  midPrice: number;
+  reservationPrice: number; // The bot's internal "fair value"
+  inventory: number;
+  crossInventory?: number;  // Correlated positions in other coins, in this coin's units (multi-asset only)
+  hedge?: HedgeContext;     // The other coins' exposure, for the portfolio notional limit (multi-asset only)
+  cash: number;
+  myBid: number; // Best live bid/ask on the exchange (lags the strategy's desired quote under latency)
+  myAsk: number;
+  myQuotes: QuoteLadder; // Every live quote level
+  time: number; // Seconds since the session clock started
+  book?: SimBook; // Only present when fills come from the simulated L2 book
+  risk: RiskState;
+  ledger: Ledger;
+  latency: LatencyState;
+  market?: MarketModelState; // Only present when the market generator drives the price (not on a tape or live feed)
+  gateway?: GatewayState;
+  calibration?: CalibrationState;
+  margin?: MarginState;
+  stress?: StressState;
+}